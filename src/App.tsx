@@ -1,542 +1,948 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { FileUp, Download, Copy, CheckCircle, AlertCircle, Loader2, ExternalLink, Upload, Library } from 'lucide-react';
-
-interface CslItem {
-  id: string;
-  type: string;
-  title?: string;
-  author?: Array<{ family: string; given: string } | { literal: string }>;
-  issued?: { 'date-parts': number[][] };
-  'container-title'?: string;
-  volume?: string;
-  issue?: string;
-  page?: string;
-  DOI?: string;
-  URL?: string;
-  publisher?: string;
-}
-
-interface CsvRow {
-  [key: string]: string;
-}
-
-interface GenerationResult {
-  success: boolean;
-  citations: string[];
-  errors: string[];
-  warnings: string[];
-  csvData: CsvRow[];
-}
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { FileUp, Download, Copy, CheckCircle, AlertCircle, Loader2, ExternalLink, Upload, Library, Columns3, Layers, FileText, XCircle, ClipboardPaste } from 'lucide-react';
+import ColumnMappingPanel from './components/ColumnMappingPanel';
+import { suggestMapping, type ColumnMapping } from './lib/columnMapping';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import DuplicatesPanel from './components/DuplicatesPanel';
+import EnrichmentPanel, { type EnrichmentOptions } from './components/EnrichmentPanel';
+import IssuesPanel from './components/IssuesPanel';
+import ItemEditorGrid from './components/ItemEditorGrid';
+import ManuscriptCheckPanel from './components/ManuscriptCheckPanel';
+import NameParsingPreview from './components/NameParsingPreview';
+import ParsedReferencesPanel from './components/ParsedReferencesPanel';
+import ProjectsPanel from './components/ProjectsPanel';
+import RunComparisonPanel from './components/RunComparisonPanel';
+import SheetTabPicker from './components/SheetTabPicker';
+import StylePicker from './components/StylePicker';
+import VirtualList from './components/VirtualList';
+import { copyRichText } from './lib/clipboard';
+import { compareOutputs, resultTable, type OutputTable } from './lib/compare';
+import { rowsToCslItems, validateCslItems } from './lib/cslItems';
+import { toCsv } from './lib/csv';
+import { serializeLog, stampLogEvent } from './lib/diagnostics';
+import { defaultMergeSelection, findDuplicates, type DuplicateGroup, type MergeSelection } from './lib/duplicates';
+import {
+  acceptedOverrides,
+  applyOverrides,
+  changeKey,
+  createDoiResolver,
+  createFixtureResolver,
+  createIsbnResolver,
+  enrichItems,
+  type EnrichmentProposal,
+  type MetadataResolver
+} from './lib/enrichment';
+import type { RenderedItem } from './lib/engine';
+import { EXPORT_FORMATS, exportReferences, type ExportFormat } from './lib/exporters';
+import { buildResultRow, indexStyleResults, replaceStyleEntry, withBibliographyColumns } from './lib/generate';
+import {
+  FORMAT_LABELS,
+  IMPORT_ACCEPT,
+  LOW_CONFIDENCE,
+  cslItemToRow,
+  cslItemsToRows,
+  detectFormat,
+  extraRowVariables,
+  importReferences,
+  parseFormattedReferences,
+  parsedReferencesToRows,
+  type ImportFormat,
+  type ParsedReference
+} from './lib/importers';
+import { applyFieldEdit, writeFieldToRow, type EditableField } from './lib/itemEditing';
+import { crossCheckCitations, findCitations, readDocxText, type CrossCheckReport } from './lib/manuscript';
+import { citationsToHtml, citationsToRtf, htmlToMarkdown } from './lib/richText';
+import { BUNDLED_LOCALES } from './lib/locales';
+import {
+  EMPTY_PROJECT_STATE,
+  createProjectId,
+  deleteProject,
+  deleteRun,
+  listProjects,
+  listRuns,
+  loadActiveProjectId,
+  loadRunOutput,
+  saveProject,
+  saveRun,
+  storeActiveProjectId,
+  summarizeRun,
+  type Project,
+  type ProjectRun
+} from './lib/projects';
+import { BUNDLED_STYLES, DEFAULT_STYLE_ID, readCustomStyle, type CitationStyle } from './lib/styles';
+import type { CitationLocator, CslItem, CsvRow, DebugLog, GenerationProgress, GenerationResult, InTextCitation, LogEntry, LogEvent, LogStage, ReferenceIssue, StyleResult } from './lib/types';
+import {
+  SOURCE_TAB_COLUMN,
+  WORKBOOK_ACCEPT,
+  buildCsvUrl,
+  buildWorkbookUrl,
+  combineSheets,
+  findMatchingSheets,
+  groupByTab,
+  isWorkbookFile,
+  parseSheetUrl,
+  type WorkbookSheet
+} from './lib/workbook';
+import { GenerationCancelledError, createGenerationClient, type GenerationClient } from './workers/generationClient';
+
+const STAGE_LABELS: Record<GenerationProgress['stage'], string> = {
+  parsing: 'Reading rows',
+  converting: 'Converting rows',
+  rendering: 'Rendering',
+  assembling: 'Building results CSV',
+};
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'upload' | 'url'>('upload');
+  const [activeTab, setActiveTab] = useState<'upload' | 'url' | 'paste'>('upload');
   const [gsheetUrl, setGsheetUrl] = useState('');
+  const [pastedReferences, setPastedReferences] = useState('');
+  const [parsedReferences, setParsedReferences] = useState<ParsedReference[] | null>(null);
   const [csvFile, setCsvFile] = useState<File | null>(null);
-  const [cslFile, setCslFile] = useState<File | null>(null);
+  const [customStyles, setCustomStyles] = useState<CitationStyle[]>([]);
+  const [selectedStyleIds, setSelectedStyleIds] = useState<string[]>([DEFAULT_STYLE_ID]);
+  const [activeStyleId, setActiveStyleId] = useState<string | null>(null);
+  const [citationLocale, setCitationLocale] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [status, setStatus] = useState<{ message: string; type: 'info' | 'success' | 'error' | 'warning' }>({ message: '', type: 'info' });
   const [result, setResult] = useState<GenerationResult | null>(null);
-  const [debugInfo, setDebugInfo] = useState<string[]>([]);
+  const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
   const [showDebug, setShowDebug] = useState(false);
-  const [librariesLoaded, setLibrariesLoaded] = useState(false);
+  const [includeBibliographyOrder, setIncludeBibliographyOrder] = useState(false);
+  const [groupOutputByTab, setGroupOutputByTab] = useState(true);
+  const [csvRows, setCsvRows] = useState<CsvRow[] | null>(null);
+  const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [workbookSheets, setWorkbookSheets] = useState<WorkbookSheet[] | null>(null);
+  const [selectedTabs, setSelectedTabs] = useState<string[]>([]);
+  const [importedItems, setImportedItems] = useState<CslItem[] | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [importFormat, setImportFormat] = useState<ImportFormat | null>(null);
+  const [enrichmentOptions, setEnrichmentOptions] = useState<EnrichmentOptions>({ doi: true, isbn: true });
+  const [enrichmentFixtures, setEnrichmentFixtures] = useState<{ name: string; data: Record<string, Record<string, unknown>> } | null>(null);
+  const [enrichmentProposals, setEnrichmentProposals] = useState<EnrichmentProposal[] | null>(null);
+  const [enrichmentItems, setEnrichmentItems] = useState<Record<string, CslItem>>({});
+  const [acceptedEnrichment, setAcceptedEnrichment] = useState<Set<string>>(new Set());
+  const [isEnriching, setIsEnriching] = useState(false);
+  const [enrichmentProgress, setEnrichmentProgress] = useState<{ done: number; total: number } | null>(null);
+  const [selectedInText, setSelectedInText] = useState<string[]>([]);
+  const [groupedCitation, setGroupedCitation] = useState<InTextCitation | null>(null);
+  const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[] | null>(null);
+  const [duplicateItems, setDuplicateItems] = useState<Record<string, CslItem>>({});
+  const [acceptedMerges, setAcceptedMerges] = useState<Set<string>>(new Set());
+  const [mergeSelections, setMergeSelections] = useState<Record<string, MergeSelection>>({});
+  const [manuscriptText, setManuscriptText] = useState('');
+  const [manuscriptFileName, setManuscriptFileName] = useState<string | null>(null);
+  const [manuscriptReport, setManuscriptReport] = useState<CrossCheckReport | null>(null);
+  const [isReadingManuscript, setIsReadingManuscript] = useState(false);
+  /** An earlier output the current results are compared with. */
+  const [comparisonBase, setComparisonBase] = useState<{ label: string; table: OutputTable } | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [editErrors, setEditErrors] = useState<Record<string, string>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  const clientRef = useRef<GenerationClient | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProject, setActiveProject] = useState<Pick<Project, 'id' | 'name' | 'createdAt'> | null>(null);
+  const [projectRuns, setProjectRuns] = useState<ProjectRun[]>([]);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  /** Project save waiting for the autosave delay, run early when switching projects. */
+  const pendingSaveRef = useRef<(() => Promise<void>) | null>(null);
+  /** The output last written to the active run, so unedited outputs are not written again. */
+  const savedOutputRef = useRef<GenerationResult | null>(null);
+  /** The run the worker's citation engines belong to; edits to any other run's output cannot be re-rendered. */
+  const liveRunIdRef = useRef<string | null>(null);
+
+  const logEvent: DebugLog = useCallback(event => {
+    setLogEntries(prev => [...prev, stampLogEvent(event)]);
+  }, []);
 
-  const updateStatus = useCallback((message: string, type: 'info' | 'success' | 'error' | 'warning' = 'info') => {
+  const updateStatus = useCallback((message: string, type: 'info' | 'success' | 'error' | 'warning' = 'info', stage?: LogStage) => {
     setStatus({ message, type });
-    setDebugInfo(prev => [...prev, `[${new Date().toLocaleTimeString()}] ${type.toUpperCase()}: ${message}`]);
-  }, []);
+    logEvent({ level: type, stage, message });
+  }, [logEvent]);
 
-  const addDebugInfo = useCallback((info: string) => {
-    setDebugInfo(prev => [...prev, `[${new Date().toLocaleTimeString()}] DEBUG: ${info}`]);
-  }, []);
+  const addDebugInfo = useCallback((message: string, details: Partial<LogEvent> = {}) => {
+    logEvent({ level: 'debug', message, ...details });
+  }, [logEvent]);
 
-  useEffect(() => {
-    const checkLibraries = () => {
-      const hasCSL = (window as any).CSL || (window as any).citeproc;
-      const hasPapa = (window as any).Papa;
-      
-      if (hasCSL && hasPapa) {
-        setLibrariesLoaded(true);
-        updateStatus('External libraries loaded successfully.', 'success');
-        addDebugInfo(`CSL (${(window as any).CSL ? 'CSL' : 'citeproc'}) and PapaParse are available on the window object.`);
-        return true;
-      }
-      return false;
-    };
+  /** Starts a new diagnostics log for a load or a generation run. */
+  const startLog = (event: LogEvent): void => setLogEntries([stampLogEvent(event)]);
+
+  /** The worker running the pipeline, started on first use and stopped with the app. */
+  const getClient = (): GenerationClient => {
+    clientRef.current ??= createGenerationClient(entries => setLogEntries(prev => [...prev, ...entries]));
+    return clientRef.current;
+  };
 
-    if (checkLibraries()) {
-      return; // Exit if libraries are already loaded
+  useEffect(() => () => clientRef.current?.cancel(), []);
+
+  /** Shows a stored run's output in place of the results. */
+  const showRun = useCallback((run: ProjectRun, output: GenerationResult) => {
+    savedOutputRef.current = output;
+    setActiveRunId(run.id);
+    setResult(output);
+    setActiveStyleId(output.styles[0]?.styleId ?? null);
+    setEditErrors({});
+    setSelectedInText([]);
+    setGroupedCitation(null);
+    if (run.id !== liveRunIdRef.current) {
+      clientRef.current?.cancel();
+      liveRunIdRef.current = null;
     }
+  }, []);
 
-    updateStatus('Waiting for external libraries to load...', 'info');
-    addDebugInfo('Starting to poll for CSL and PapaParse libraries...');
+  /** Restores a saved project, with the output of its latest run when it has one. */
+  const restoreProject = useCallback((project: Project, runs: ProjectRun[], latest: GenerationResult | null) => {
+    setActiveProject({ id: project.id, name: project.name, createdAt: project.createdAt });
+    setCsvFile(project.file);
+    setGsheetUrl(project.sheetUrl);
+    setPastedReferences(project.pastedText);
+    setParsedReferences(project.pastedText && project.rows ? parseFormattedReferences(project.pastedText) : null);
+    setActiveTab(project.sheetUrl ? 'url' : project.pastedText ? 'paste' : 'upload');
+    setCsvRows(project.rows);
+    setCsvHeaders(project.headers);
+    setWorkbookSheets(project.sheets);
+    setSelectedTabs(project.selectedTabs);
+    setImportedItems(project.importedItems);
+    setImportWarnings(project.importWarnings);
+    setImportFormat(project.importFormat);
+    setColumnMapping(project.mapping);
+    setCustomStyles(project.customStyles);
+    if (project.styleIds.length) setSelectedStyleIds(project.styleIds);
+    setCitationLocale(project.locale);
+    setEnrichmentProposals(null);
+    setAcceptedEnrichment(new Set());
+    setDuplicateGroups(null);
+    setAcceptedMerges(new Set());
+    setMergeSelections({});
+    setManuscriptReport(null);
+    setComparisonBase(null);
+    setProjectRuns(runs);
+    if (runs[0] && latest) {
+      showRun(runs[0], latest);
+    } else {
+      savedOutputRef.current = null;
+      setActiveRunId(null);
+      setResult(null);
+    }
+    storeActiveProjectId(project.id);
+  }, [showRun]);
 
-    const intervalId = setInterval(() => {
-      if (checkLibraries()) {
-        clearInterval(intervalId);
-        clearTimeout(timeoutId);
-      }
-    }, 200); // Check every 200ms
-
-    const timeoutId = setTimeout(() => {
-      clearInterval(intervalId);
-      if (!librariesLoaded) {
-        addDebugInfo('Library loading timed out after 10 seconds. Attempting manual library check...');
-        
-        // Final attempt to check for libraries with different names
-        const finalCSLCheck = (window as any).CSL || (window as any).citeproc || (window as any).CiteprocEngine;
-        const finalPapaCheck = (window as any).Papa;
-        
-        if (finalCSLCheck && finalPapaCheck) {
-          setLibrariesLoaded(true);
-          updateStatus('External libraries loaded successfully (after retry).', 'success');
-          addDebugInfo('Libraries found on final check.');
-        } else {
-          updateStatus('Failed to load external libraries. Please check your network connection and refresh the page.', 'error');
-          addDebugInfo(`Final check - CSL: ${!!finalCSLCheck}, Papa: ${!!finalPapaCheck}`);
-        }
+  // Reopen the project that was open when the page was last left.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const saved = await listProjects();
+      const last = saved.find(project => project.id === loadActiveProjectId());
+      const runs = last ? await listRuns(last.id) : [];
+      const latest = runs[0] ? await loadRunOutput(runs[0].id) : null;
+      if (cancelled) return;
+      setProjects(saved);
+      if (last) {
+        restoreProject(last, runs, latest);
+        addDebugInfo(`Reopened project ${last.name} with ${runs.length} saved runs`);
       }
-    }, 15000); // 15-second timeout
-
-    // Cleanup function to clear intervals and timeouts when the component unmounts
+    })().catch(error => addDebugInfo(`Saved projects are unavailable: ${error}`));
     return () => {
-      clearInterval(intervalId);
-      clearTimeout(timeoutId);
+      cancelled = true;
     };
-  }, [updateStatus, addDebugInfo, librariesLoaded]);
-
-
-  const mapSourceType = (rawType: string): string => {
-    if (!rawType || typeof rawType !== 'string') return 'article-journal';
-    const type = rawType.toLowerCase().trim();
-    const mapping: Record<string, string> = {
-      'journal article': 'article-journal',
-      'journal': 'article-journal',
-      'article': 'article-journal',
-      'news article': 'article-newspaper',
-      'newspaper': 'article-newspaper',
-      'magazine': 'article-magazine',
-      'book': 'book',
-      'book chapter': 'chapter',
-      'chapter': 'chapter',
-      'conference paper': 'paper-conference',
-      'conference': 'paper-conference',
-      'thesis': 'thesis',
-      'dissertation': 'thesis',
-      'report': 'report',
-      'webpage': 'webpage',
-      'website': 'webpage',
-      'blog post': 'post-weblog',
-      'blog': 'post-weblog',
-      'review': 'review'
+  }, [restoreProject, addDebugInfo]);
+
+  // Save the active project shortly after each change.
+  useEffect(() => {
+    if (!activeProject) return;
+    const project: Project = {
+      ...activeProject,
+      updatedAt: new Date().toISOString(),
+      file: csvFile,
+      sheetUrl: gsheetUrl,
+      pastedText: pastedReferences,
+      rows: csvRows,
+      headers: csvHeaders,
+      sheets: workbookSheets,
+      selectedTabs,
+      importedItems,
+      importWarnings,
+      importFormat,
+      mapping: columnMapping,
+      styleIds: selectedStyleIds,
+      customStyles,
+      locale: citationLocale,
     };
-    return mapping[type] || 'webpage';
+    pendingSaveRef.current = () => saveProject(project)
+      .then(() => setProjects(prev => [project, ...prev.filter(saved => saved.id !== project.id)]))
+      .catch(error => addDebugInfo(`Saving project ${project.name} failed: ${error}`));
+    const timer = setTimeout(() => {
+      const save = pendingSaveRef.current;
+      pendingSaveRef.current = null;
+      save?.();
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [
+    activeProject, csvFile, gsheetUrl, pastedReferences, csvRows, csvHeaders, workbookSheets, selectedTabs, importedItems, importWarnings,
+    importFormat, columnMapping, selectedStyleIds, customStyles, citationLocale, addDebugInfo
+  ]);
+
+  // Keep edits and applied fixes with the run they were made to.
+  useEffect(() => {
+    const run = projectRuns.find(saved => saved.id === activeRunId);
+    if (!run || !result || result === savedOutputRef.current) return;
+    const timer = setTimeout(() => {
+      const updated = summarizeRun(result, run);
+      savedOutputRef.current = result;
+      saveRun(updated, result)
+        .then(() => setProjectRuns(prev => prev.map(saved => (saved.id === updated.id ? updated : saved))))
+        .catch(error => addDebugInfo(`Saving edits to the run failed: ${error}`));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [result, activeRunId, projectRuns, addDebugInfo]);
+
+  const flushProjectSave = async (): Promise<void> => {
+    const save = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    await save?.();
   };
 
-  const parseAuthors = (authorCell: string): Array<{ family: string; given: string } | { literal: string }> => {
-    if (!authorCell || typeof authorCell !== 'string' || !authorCell.trim()) return [];
-    
-    const authorStr = authorCell.trim();
-    let authorList: string[] = [];
+  /** The active project, or a new one named after the data source when none is open. */
+  const ensureProject = (name: string): Pick<Project, 'id' | 'name' | 'createdAt'> => {
+    if (activeProject) return activeProject;
+    const project = { id: createProjectId('project'), name, createdAt: new Date().toISOString() };
+    setActiveProject(project);
+    storeActiveProjectId(project.id);
+    addDebugInfo(`Started project ${name}`);
+    return project;
+  };
 
-    if (authorStr.includes(';')) {
-      authorList = authorStr.split(';').map(a => a.trim());
-    } else if (authorStr.includes(' & ')) {
-      authorList = authorStr.split(' & ').map(a => a.trim());
-    } else if (authorStr.includes(' and ')) {
-      authorList = authorStr.split(' and ').map(a => a.trim());
-    } else {
-      authorList = [authorStr];
-    }
+  const handleCreateProject = async (name: string): Promise<void> => {
+    await flushProjectSave();
+    const project = { id: createProjectId('project'), name, createdAt: new Date().toISOString() };
+    setProjects(prev => [{ ...EMPTY_PROJECT_STATE, ...project, updatedAt: project.createdAt }, ...prev]);
+    setActiveProject(project);
+    setProjectRuns([]);
+    setActiveRunId(null);
+    setResult(null);
+    setCsvFile(null);
+    setGsheetUrl('');
+    setPastedReferences('');
+    resetLoadedRows();
+    storeActiveProjectId(project.id);
+    updateStatus(`Created project ${name}. Load a file or Google Sheet to start.`, 'info');
+  };
 
-    const cslAuthors: Array<{ family: string; given: string } | { literal: string }> = [];
-    for (const author of authorList) {
-      if (!author) continue;
+  const handleOpenProject = async (projectId: string): Promise<void> => {
+    const project = projects.find(saved => saved.id === projectId);
+    if (!project || isLoading) return;
+    try {
+      await flushProjectSave();
+      const runs = await listRuns(project.id);
+      const latest = runs[0] ? await loadRunOutput(runs[0].id) : null;
+      restoreProject(project, runs, latest);
+      updateStatus(
+        runs.length ? `Opened ${project.name}, showing its latest run.` : `Opened ${project.name}.`,
+        'success'
+      );
+    } catch (error) {
+      updateStatus(`Could not open ${project.name}: ${error instanceof Error ? error.message : error}`, 'error');
+    }
+  };
 
-      if (author.includes(',')) {
-        const parts = author.split(',', 2).map(p => p.trim());
-        if (parts.length === 2 && parts[0] && parts[1]) {
-          cslAuthors.push({ family: parts[0], given: parts[1] });
-        }
-      } else {
-        const parts = author.split(' ');
-        if (parts.length > 1 && parts[0].length > 1) {
-          cslAuthors.push({ family: parts[parts.length - 1], given: parts.slice(0, -1).join(' ') });
-        } else {
-          cslAuthors.push({ literal: author });
-        }
+  const handleDeleteProject = async (projectId: string): Promise<void> => {
+    try {
+      await deleteProject(projectId);
+      setProjects(prev => prev.filter(project => project.id !== projectId));
+      if (activeProject?.id === projectId) {
+        pendingSaveRef.current = null;
+        setActiveProject(null);
+        setProjectRuns([]);
+        setActiveRunId(null);
+        storeActiveProjectId(null);
       }
+    } catch (error) {
+      updateStatus(`Could not delete the project: ${error instanceof Error ? error.message : error}`, 'error');
     }
-    return cslAuthors;
   };
 
-  const parseVolumeIssue = (cell: string): { volume: string | null; issue: string | null } => {
-    if (!cell || typeof cell !== 'string') return { volume: null, issue: null };
-    const text = cell.trim();
-    const patterns = [
-      /(\d+)\s*\(\s*(\d+)\s*\)/,
-      /vol\.?\s*(\d+)\s*no\.?\s*(\d+)/i,
-      /v\.?\s*(\d+)\s*n\.?\s*(\d+)/i,
-      /(\d+)\s*[-–—]\s*(\d+)/,
-    ];
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) return { volume: match[1], issue: match[2] };
+  /** Stores a finished run and its output with the active project. */
+  const recordRun = async (generated: GenerationResult): Promise<void> => {
+    if (!activeProject) return;
+    const run = summarizeRun(generated, { id: createProjectId('run'), projectId: activeProject.id, createdAt: new Date().toISOString() });
+    liveRunIdRef.current = run.id;
+    savedOutputRef.current = generated;
+    setProjectRuns(prev => [run, ...prev]);
+    setActiveRunId(run.id);
+    try {
+      await saveRun(run, generated);
+    } catch (error) {
+      addDebugInfo(`Saving the run failed: ${error}`);
+      updateStatus('Citations generated, but the run could not be saved in this browser.', 'warning');
     }
-    if (/^\d+$/.test(text)) return { volume: text, issue: null };
-    return { volume: null, issue: null };
   };
 
-  const createCslItem = (row: CsvRow, index: number): CslItem => {
-    const item: CslItem = {
-      id: `item_${index + 1}`,
-      type: mapSourceType(row['Source Type'] || row['type'] || '')
-    };
+  const loadRun = async (run: ProjectRun): Promise<GenerationResult | null> => {
+    if (run.id === activeRunId && result) return result;
+    const output = await loadRunOutput(run.id);
+    if (!output) updateStatus('The output of this run is no longer stored.', 'error');
+    return output;
+  };
 
-    // Essential fields validation
-    if (row['Title'] || row['title']) {
-      item.title = String(row['Title'] || row['title']).trim();
-    } else {
-      addDebugInfo(`Item ${index + 1}: Missing title`);
+  const handleOpenRun = async (run: ProjectRun): Promise<void> => {
+    if (isLoading) return;
+    try {
+      const output = await loadRun(run);
+      if (!output) return;
+      showRun(run, output);
+      updateStatus(
+        run.id === liveRunIdRef.current
+          ? `Showing the run from ${new Date(run.createdAt).toLocaleString()}.`
+          : `Showing the saved run from ${new Date(run.createdAt).toLocaleString()}. Generate again to edit entries or group citations.`,
+        'info'
+      );
+    } catch (error) {
+      updateStatus(`Could not open the run: ${error instanceof Error ? error.message : error}`, 'error');
     }
-    
-    const authors = parseAuthors(row['Author(s)'] || row['Authors'] || row['Author'] || row['author']);
-    if (authors.length > 0) {
-      item.author = authors;
-    } else {
-      addDebugInfo(`Item ${index + 1}: No valid authors found`);
+  };
+
+  const handleDownloadRun = async (run: ProjectRun): Promise<void> => {
+    try {
+      const output = await loadRun(run);
+      if (output) downloadResultCsv(output, `citations_${run.createdAt.slice(0, 10)}.csv`);
+    } catch (error) {
+      updateStatus(`Could not download the run: ${error instanceof Error ? error.message : error}`, 'error');
     }
+  };
 
-    const year = row['Year'] || row['Publication Year'] || row['Date'] || row['year'];
-    if (year && !isNaN(parseInt(year, 10))) {
-      item.issued = { 'date-parts': [[parseInt(year, 10)]] };
-    } else {
-      addDebugInfo(`Item ${index + 1}: Invalid or missing year: ${year}`);
+  const handleDeleteRun = async (run: ProjectRun): Promise<void> => {
+    try {
+      await deleteRun(run.id);
+      setProjectRuns(prev => prev.filter(saved => saved.id !== run.id));
+      if (run.id === activeRunId) setActiveRunId(null);
+    } catch (error) {
+      updateStatus(`Could not delete the run: ${error instanceof Error ? error.message : error}`, 'error');
     }
+  };
 
-    const containerTitle = row['Journal'] || row['Publication'] || row['Container Title'] || row['Source'] || row['container-title'];
-    if (containerTitle) {
-      item['container-title'] = String(containerTitle).trim();
+  /** Compares the current output with an earlier one, once it is known to be a results CSV. */
+  const startComparison = (label: string, table: OutputTable): void => {
+    if (!result?.success) return;
+    try {
+      const { counts } = compareOutputs(table, resultTable(result));
+      setComparisonBase({ label, table });
+      addDebugInfo(`Compared with ${label}: ${counts.changed} changed, ${counts.added} added, ${counts.removed} removed, ${counts.skipped} newly skipped`, { level: 'info' });
+    } catch (error) {
+      updateStatus(`Could not compare with ${label}: ${error instanceof Error ? error.message : error}`, 'error');
     }
+  };
 
-    const volIss = parseVolumeIssue(row['Volume'] || row['Volume-Issue'] || row['volume'] || '');
-    if (volIss.volume) item.volume = volIss.volume;
-    if (volIss.issue) item.issue = volIss.issue;
-    else if (row['Issue'] || row['issue']) item.issue = String(row['Issue'] || row['issue']).trim();
+  const handleCompareRun = async (run: ProjectRun): Promise<void> => {
+    setIsComparing(true);
+    try {
+      const output = await loadRun(run);
+      if (output) startComparison(`the run from ${new Date(run.createdAt).toLocaleString()}`, resultTable(output));
+    } finally {
+      setIsComparing(false);
+    }
+  };
 
-    const pages = row['Pages'] || row['Page Range'] || row['Page'] || row['page'];
-    if (pages) item.page = String(pages).trim();
+  const handleCompareUpload = async (file: File): Promise<void> => {
+    setIsComparing(true);
+    try {
+      startComparison(file.name, await getClient().parseCsv(await file.text()));
+    } catch (error) {
+      updateStatus(`Could not read ${file.name}: ${error instanceof Error ? error.message : error}`, 'error');
+    } finally {
+      setIsComparing(false);
+    }
+  };
 
-    // Handle DOI/URL
-    const doiField = row['DOI'] || row['DOI/URL'] || row['doi'];
-    if (doiField) {
-      let doi = String(doiField).trim();
-      if (doi.startsWith('http')) {
-        if (doi.includes('doi.org/')) {
-          doi = doi.replace(/^https?:\/\/doi\.org\//, '');
-          item.DOI = doi;
-        } else {
-          item.URL = doi;
-        }
-      } else if (doi.startsWith('10.')) {
-        item.DOI = doi;
-      }
+  const getSelectedStyles = (): CitationStyle[] => {
+    const available = [...BUNDLED_STYLES, ...customStyles];
+    return selectedStyleIds
+      .map(id => available.find(style => style.id === id))
+      .filter((style): style is CitationStyle => Boolean(style));
+  };
+
+  /** Remembers the workbook's tabs and returns the rows of the chosen ones. */
+  const selectSheets = (sheets: WorkbookSheet[], tabs: string[]): { rows: CsvRow[]; headers: string[] } => {
+    setWorkbookSheets(sheets);
+    setSelectedTabs(tabs);
+    addDebugInfo(`Workbook tabs: ${sheets.map(sheet => `${sheet.name} (${sheet.rows.length} rows)`).join(', ')}; loading ${tabs.join(', ')}`, { stage: 'parse' });
+    return combineSheets(sheets.filter(sheet => tabs.includes(sheet.name)));
+  };
+
+  /**
+   * Loads every tab through the workbook export, or just the linked tab when
+   * the URL has a `gid`. Falls back to that tab's CSV export alone when the
+   * workbook cannot be fetched.
+   */
+  const loadGoogleSheet = async (shareUrl: string): Promise<{ rows: CsvRow[]; headers: string[] }> => {
+    const link = parseSheetUrl(shareUrl);
+    updateStatus('Fetching data from Google Sheet...', 'info', 'fetch');
+    let sheets: WorkbookSheet[] | null = null;
+    try {
+      const response = await fetch(buildWorkbookUrl(link));
+      if (!response.ok) throw new Error(response.statusText);
+      sheets = await getClient().readWorkbook(await response.arrayBuffer());
+    } catch (error) {
+      addDebugInfo(`Workbook export unavailable, reading one tab as CSV: ${error instanceof Error ? error.message : error}`, { level: 'warning', stage: 'fetch' });
     }
-    
-    const url = row['URL'] || row['url'];
-    if (url && !item.DOI && !item.URL) {
-      if (String(url).trim().startsWith('http')) {
-        item.URL = String(url).trim();
-      }
+    if (sheets && link.gid === null) return selectSheets(sheets, sheets.map(sheet => sheet.name));
+
+    const response = await fetch(buildCsvUrl(link));
+    if (!response.ok) throw new Error(`Failed to fetch from Google Sheet: ${response.statusText}`);
+    const csvText = await response.text();
+    addDebugInfo(`Google Sheet tab ${link.gid ?? '0'} fetched: ${csvText.length} characters`, { stage: 'fetch' });
+    const parsed = await getClient().parseCsv(csvText);
+    if (!sheets) return parsed;
+    const linked = findMatchingSheets(sheets, parsed);
+    if (linked.length === 1) return selectSheets(sheets, [linked[0].name]);
+    if (linked.length > 1) {
+      addDebugInfo(`Tabs ${linked.map(sheet => `"${sheet.name}"`).join(', ')} all match gid ${link.gid}; using its CSV export without a tab name`, { level: 'warning', stage: 'parse' });
+    } else {
+      addDebugInfo(`No workbook tab matches gid ${link.gid}; using its CSV export without a tab name`, { level: 'warning', stage: 'parse' });
     }
+    return parsed;
+  };
 
-    if (row['Publisher'] || row['publisher']) {
-      item.publisher = String(row['Publisher'] || row['publisher']).trim();
+  const loadSourceRows = async (): Promise<{ rows: CsvRow[]; headers: string[] }> => {
+    if (pastedReferences.trim()) {
+      const references = parseFormattedReferences(pastedReferences);
+      const guesses = references.reduce((sum, reference) => sum + Object.values(reference.fields).filter(value => value.confidence < LOW_CONFIDENCE).length, 0);
+      references.forEach((reference, index) => addDebugInfo(reference.text, { stage: 'parse', row: index + 1, payload: reference }));
+      addDebugInfo(`Parsed ${references.length} pasted references; ${guesses} fields below ${LOW_CONFIDENCE * 100}% confidence`, { level: 'info', stage: 'parse' });
+      setParsedReferences(references);
+      return parsedReferencesToRows(references);
+    }
+    if (gsheetUrl) return loadGoogleSheet(gsheetUrl);
+    if (csvFile && isWorkbookFile(csvFile.name)) {
+      updateStatus('Reading workbook...', 'info', 'fetch');
+      const sheets = await getClient().readWorkbook(await csvFile.arrayBuffer());
+      if (sheets.every(sheet => sheet.rows.length === 0)) throw new Error(`No rows found in ${csvFile.name}.`);
+      return selectSheets(sheets, sheets.filter(sheet => sheet.rows.length > 0).map(sheet => sheet.name));
+    }
+
+    let csvText: string;
+    if (csvFile) {
+      updateStatus('Reading CSV file...', 'info', 'fetch');
+      csvText = await csvFile.text();
+      addDebugInfo(`CSV file read: ${csvText.length} characters`, { stage: 'fetch' });
+    } else {
+      throw new Error('No data source provided');
     }
 
-    addDebugInfo(`Created CSL item ${index + 1}: ${JSON.stringify(item, null, 2)}`);
-    return item;
+    updateStatus('Parsing CSV data...', 'info', 'parse');
+    const parsed = await getClient().parseCsv(csvText);
+    addDebugInfo(`CSV parsed successfully: ${parsed.rows.length} rows`, { level: 'info', stage: 'parse', payload: { columns: parsed.headers } });
+    return parsed;
   };
 
-  const validateCslItems = (items: CslItem[]): { valid: CslItem[]; errors: string[] } => {
-    const valid: CslItem[] = [];
-    const errors: string[] = [];
+  /** Clears review steps that were run against the previously loaded rows. */
+  const resetReviews = (): void => {
+    setEnrichmentProposals(null);
+    setAcceptedEnrichment(new Set());
+    setDuplicateGroups(null);
+    setAcceptedMerges(new Set());
+    setMergeSelections({});
+    setManuscriptReport(null);
+  };
 
-    items.forEach((item, index) => {
-      const itemErrors: string[] = [];
-      
-      if (!item.title && !item.author) {
-        itemErrors.push(`Item ${index + 1}: Missing both title and author`);
-      }
-      
-      if (item.type === 'article-journal' && !item['container-title']) {
-        itemErrors.push(`Item ${index + 1}: Journal articles require a journal name`);
-      }
+  const resetLoadedRows = (): void => {
+    setCsvRows(null);
+    setCsvHeaders([]);
+    setColumnMapping({});
+    setWorkbookSheets(null);
+    setSelectedTabs([]);
+    setImportedItems(null);
+    setImportWarnings([]);
+    setImportFormat(null);
+    setParsedReferences(null);
+    resetReviews();
+  };
 
-      if (itemErrors.length === 0) {
-        valid.push(item);
-      } else {
-        errors.push(...itemErrors);
-      }
-    });
+  /** Reloads rows from the ticked tabs, keeping the mapping chosen for headers they share. */
+  const handleTabSelection = (tabs: string[]): void => {
+    if (!workbookSheets) return;
+    const { rows, headers } = combineSheets(workbookSheets.filter(sheet => tabs.includes(sheet.name)));
+    const suggested = suggestMapping(headers);
+    setSelectedTabs(tabs);
+    setCsvRows(rows);
+    setCsvHeaders(headers);
+    setColumnMapping(Object.fromEntries(headers.map(header => [header, header in columnMapping ? columnMapping[header] : suggested[header]])));
+    setResult(null);
+    resetReviews();
+    addDebugInfo(`Loaded ${rows.length} rows from tabs: ${tabs.join(', ') || 'none'}`, { stage: 'parse' });
+  };
 
-    return { valid, errors };
+  const importReferenceFile = async (file: File, format: Exclude<ImportFormat, 'csv'>): Promise<void> => {
+    updateStatus(`Reading ${FORMAT_LABELS[format]} file...`, 'info', 'fetch');
+    const text = await file.text();
+    addDebugInfo(`${FORMAT_LABELS[format]} file read: ${text.length} characters`, { stage: 'fetch' });
+    const { items, warnings } = importReferences(text, format);
+    warnings.forEach(warning => addDebugInfo(`Import warning: ${warning}`, { level: 'warning', stage: 'parse' }));
+    if (items.length === 0) {
+      throw new Error(`No references found in ${file.name}.`);
+    }
+    setImportedItems(items);
+    setImportWarnings(warnings);
+    setImportFormat(format);
+    updateStatus(
+      `Imported ${items.length} references from ${FORMAT_LABELS[format]}${warnings.length ? ` with ${warnings.length} warnings` : ''}. Review, then generate.`,
+      warnings.length ? 'warning' : 'success',
+      'parse'
+    );
   };
 
-  const generateCitations = async (cslItems: CslItem[], cslStyle: string, locale: string): Promise<{ citations: string[]; errors: string[] }> => {
-    const errors: string[] = [];
-    
+  const handleLoadColumns = async (): Promise<void> => {
+    if (!gsheetUrl && !csvFile && !pastedReferences.trim()) {
+      updateStatus('Please provide a Google Sheet URL, upload a file or paste a reference list.', 'error');
+      return;
+    }
+
+    setIsLoading(true);
+    setResult(null);
+    startLog({ level: 'info', stage: 'fetch', message: 'Loading data source...' });
+
     try {
-      addDebugInfo(`Initializing CSL engine with ${cslItems.length} items`);
-      
-      // Check if CSL is available
-      const CSLEngine = (window as any).CSL || (window as any).citeproc || (window as any).CiteprocEngine;
-      if (typeof CSLEngine === 'undefined') {
-        throw new Error('CSL library not loaded. Please refresh the page and try again.');
-      }
-      
-      // Validate and clean CSL style
-      if (!cslStyle || !cslStyle.includes('<style')) {
-        throw new Error('Invalid CSL style: not a valid XML document');
+      const format = csvFile && !gsheetUrl && !isWorkbookFile(csvFile.name) ? detectFormat(csvFile.name) : 'csv';
+      if (csvFile && format && format !== 'csv') {
+        await importReferenceFile(csvFile, format);
+        ensureProject(csvFile.name);
+        return;
       }
 
-      const sys = {
-        retrieveLocale: () => {
-          addDebugInfo('Retrieving locale');
-          return locale;
-        },
-        retrieveItem: (id: string) => {
-          const item = cslItems.find(item => item.id === id);
-          addDebugInfo(`Retrieving item ${id}: ${item ? 'found' : 'not found'}`);
-          return item;
-        }
-      };
-      
-      // Initialize CSL engine with error handling
-      let engine;
-      try {
-        engine = new CSLEngine.Engine(sys, cslStyle);
-        addDebugInfo('CSL engine initialized successfully');
-      } catch (engineError) {
-        addDebugInfo(`CSL engine initialization failed: ${engineError}`);
-        throw new Error(`Failed to initialize citation engine: ${engineError}`);
-      }
-      
-      const itemIDs = cslItems.map(item => item.id);
-      addDebugInfo(`Updating items: ${itemIDs.join(', ')}`);
-      
-      try {
-        engine.updateItems(itemIDs);
-        addDebugInfo('Items updated in engine');
-      } catch (updateError) {
-        addDebugInfo(`Failed to update items: ${updateError}`);
-        throw new Error(`Failed to update citation items: ${updateError}`);
-      }
-      
-      try {
-        const bib = engine.makeBibliography();
-        addDebugInfo(`Bibliography generated: ${bib ? 'success' : 'failed'}`);
-        
-        if (bib && bib[1] && Array.isArray(bib[1]) && bib[1].length > 0) {
-          const citations = bib[1].map((citationHtml: string, index: number) => {
-            try {
-              const tempDiv = document.createElement('div');
-              tempDiv.innerHTML = citationHtml;
-              const cleanText = tempDiv.textContent?.replace(/\s+/g, ' ').trim() || '';
-              addDebugInfo(`Citation ${index + 1} processed: ${cleanText.substring(0, 100)}...`);
-              return cleanText;
-            } catch (citationError) {
-              const errorMsg = `Failed to process citation ${index + 1}: ${citationError}`;
-              addDebugInfo(errorMsg);
-              errors.push(errorMsg);
-              return `Error processing citation ${index + 1}`;
-            }
-          });
-          
-          return { citations, errors };
-        } else {
-          addDebugInfo('No bibliography generated or empty result');
-          throw new Error('Bibliography generation returned empty result');
-        }
-      } catch (bibError) {
-        addDebugInfo(`Bibliography generation failed: ${bibError}`);
-        throw new Error(`Failed to generate bibliography: ${bibError}`);
-      }
-      
+      const { rows, headers } = await loadSourceRows();
+      const mapping = suggestMapping(headers);
+      setCsvRows(rows);
+      setCsvHeaders(headers);
+      setColumnMapping(mapping);
+      ensureProject(csvFile?.name ?? (gsheetUrl ? 'Google Sheet' : 'Pasted references'));
+      const mappedCount = headers.filter(header => mapping[header]).length;
+      updateStatus(`Detected ${headers.length} columns in ${rows.length} rows (${mappedCount} mapped automatically). Review the mapping, then generate.`, 'success', 'map');
     } catch (error) {
-      const errorMsg = `Citation generation failed: ${error}`;
-      addDebugInfo(errorMsg);
-      errors.push(errorMsg);
-      return { citations: [], errors };
+      if (error instanceof GenerationCancelledError) {
+        updateStatus('Loading cancelled.', 'warning');
+        return;
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      updateStatus(`Error: ${errorMessage}`, 'error');
+    } finally {
+      setIsLoading(false);
     }
   };
 
-  const buildCsvUrl = (shareUrl: string): string => {
-    const match = /\/d\/([a-zA-Z0-9-_]+)/.exec(shareUrl);
-    if (!match || !match[1]) {
-      throw new Error('Invalid Google Sheets URL format. Please ensure you\'re using a sharing URL.');
+  const buildCslItems = (): { cslItems: CslItem[]; locators: Record<string, CitationLocator>; conversionWarnings: string[] } => {
+    if (importedItems) {
+      addDebugInfo(`Using ${importedItems.length} items imported from ${importFormat ? FORMAT_LABELS[importFormat] : 'file'}`, { stage: 'map' });
+      return { cslItems: importedItems, locators: {}, conversionWarnings: [...importWarnings] };
     }
-    return `https://docs.google.com/spreadsheets/d/${match[1]}/export?format=csv&gid=0`;
+    updateStatus('Converting data to CSL-JSON format...', 'info', 'map');
+    const { items, locators, warnings } = rowsToCslItems(csvRows ?? [], columnMapping, logEvent);
+    return { cslItems: items, locators, conversionWarnings: [...importWarnings, ...warnings] };
   };
 
-  const parseCsv = (csvText: string): Promise<CsvRow[]> => {
-    return new Promise((resolve, reject) => {
-      // Check if Papa is available
-      const Papa = (window as any).Papa;
-      if (typeof Papa === 'undefined') {
-        reject(new Error('CSV parsing library not loaded. Please refresh the page and try again.'));
-        return;
+  const handleFixtureUpload = async (file: File): Promise<void> => {
+    try {
+      const fixtures = JSON.parse(await file.text());
+      if (typeof fixtures !== 'object' || fixtures === null || Array.isArray(fixtures)) {
+        throw new Error('expected an object keyed by DOI or ISBN');
       }
-      
-      Papa.parse(csvText, {
-        header: true,
-        skipEmptyLines: true,
-        transformHeader: (header: string) => header.trim(),
-        complete: (results: any) => {
-          if (results.errors.length) {
-            addDebugInfo(`CSV parsing errors: ${JSON.stringify(results.errors)}`);
-            reject(new Error(`CSV Parsing Error: ${results.errors[0].message}`));
-          } else {
-            addDebugInfo(`CSV parsed successfully: ${results.data.length} rows`);
-            resolve(results.data);
-          }
-        },
-        error: (error: any) => {
-          addDebugInfo(`CSV parsing failed: ${error.message}`);
-          reject(new Error(`CSV Parsing Failed: ${error.message}`));
-        }
-      });
-    });
+      setEnrichmentFixtures({ name: file.name, data: fixtures });
+      addDebugInfo(`Offline enrichment data loaded: ${Object.keys(fixtures).length} records from ${file.name}`);
+    } catch (error) {
+      updateStatus(`Could not read offline enrichment data: ${error instanceof Error ? error.message : error}`, 'error');
+    }
   };
 
-  const getCslStyle = async (): Promise<string> => {
-    if (cslFile) {
-      updateStatus('Reading custom CSL style file...');
-      const content = await cslFile.text();
-      addDebugInfo(`Custom CSL file loaded: ${content.length} characters`);
-      return content;
-    } else {
-      updateStatus('Fetching default APA 7 citation style...');
-      const response = await fetch('https://raw.githubusercontent.com/citation-style-language/styles/master/apa.csl');
-      if (!response.ok) {
-        throw new Error(`Could not download APA CSL style: ${response.statusText}`);
-      }
-      const content = await response.text();
-      addDebugInfo(`Default APA CSL loaded: ${content.length} characters`);
-      return content;
+  const handleEnrichment = async (): Promise<void> => {
+    setIsEnriching(true);
+    setEnrichmentProgress(null);
+    try {
+      const { cslItems } = buildCslItems();
+      const resolvers: MetadataResolver[] = [];
+      if (enrichmentFixtures) resolvers.push(createFixtureResolver(enrichmentFixtures.data, `Offline data (${enrichmentFixtures.name})`));
+      if (enrichmentOptions.doi) resolvers.push(createDoiResolver());
+      if (enrichmentOptions.isbn) resolvers.push(createIsbnResolver());
+
+      updateStatus('Looking up missing metadata...');
+      const proposals = await enrichItems(cslItems, resolvers, {
+        onProgress: (done, total) => setEnrichmentProgress({ done, total }),
+        onError: (item, error) => addDebugInfo(`Enrichment lookup failed: ${error}`, { level: 'warning', row: parseInt(item.id.replace('item_', ''), 10) })
+      });
+      setEnrichmentItems(Object.fromEntries(cslItems.map(item => [item.id, item])));
+      setEnrichmentProposals(proposals);
+      setAcceptedEnrichment(new Set(proposals.flatMap(proposal => proposal.changes.map(change => changeKey(proposal.itemId, change.field)))));
+      const fieldCount = proposals.reduce((sum, proposal) => sum + proposal.changes.length, 0);
+      updateStatus(
+        proposals.length ? `Found ${fieldCount} missing values for ${proposals.length} rows. Review them before generating.` : 'No missing metadata could be found.',
+        proposals.length ? 'success' : 'info'
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      updateStatus(`Error: ${errorMessage}`, 'error');
+    } finally {
+      setIsEnriching(false);
     }
   };
 
-  const fetchResource = async (url: string, resourceName: string): Promise<string> => {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Could not download ${resourceName}: ${response.statusText}`);
-    }
-    const content = await response.text();
-    addDebugInfo(`${resourceName} loaded: ${content.length} characters`);
-    return content;
+  const handleFindDuplicates = (): void => {
+    const { cslItems } = buildCslItems();
+    const items = applyOverrides(cslItems, acceptedOverrides(enrichmentProposals ?? [], acceptedEnrichment));
+    const groups = findDuplicates(items);
+    const byId = Object.fromEntries(items.map(item => [item.id, item]));
+    setDuplicateItems(byId);
+    setDuplicateGroups(groups);
+    // Exact DOI/URL matches are merged unless unticked; near matches need a look first.
+    setAcceptedMerges(new Set(groups.filter(group => group.reason !== 'similar').map(group => group.id)));
+    setMergeSelections(Object.fromEntries(groups.map(group => [group.id, defaultMergeSelection(group.itemIds.map(id => byId[id]))])));
+    addDebugInfo(`Duplicate check: ${groups.length} groups among ${items.length} items`);
+    updateStatus(
+      groups.length ? `Found ${groups.length} groups of possible duplicates. Review them before generating.` : 'No duplicate sources found.',
+      groups.length ? 'warning' : 'info'
+    );
   };
 
-  const handleGeneration = async (): Promise<void> => {
-    if (!gsheetUrl && !csvFile) {
-      updateStatus('Please provide a Google Sheet URL or upload a CSV file.', 'error');
-      return;
+  const handleManuscriptUpload = async (file: File): Promise<void> => {
+    setIsReadingManuscript(true);
+    try {
+      const text = file.name.toLowerCase().endsWith('.docx') ? await readDocxText(await file.arrayBuffer()) : await file.text();
+      setManuscriptText(text);
+      setManuscriptFileName(file.name);
+      setManuscriptReport(null);
+      addDebugInfo(`Manuscript read from ${file.name}: ${text.length} characters`);
+    } catch (error) {
+      updateStatus(`Could not read ${file.name}: ${error instanceof Error ? error.message : error}`, 'error');
+    } finally {
+      setIsReadingManuscript(false);
     }
+  };
+
+  const handleManuscriptCheck = (): void => {
+    const { cslItems } = buildCslItems();
+    const items = applyOverrides(cslItems, acceptedOverrides(enrichmentProposals ?? [], acceptedEnrichment));
+    const report = crossCheckCitations(findCitations(manuscriptText), items);
+    setManuscriptReport(report);
+    addDebugInfo(`Manuscript cross-check: ${report.citations.length} citations against ${items.length} references`);
+    const problems = report.missing.length + report.mismatches.length + report.uncited.length;
+    updateStatus(
+      report.citations.length === 0
+        ? 'No author-date citations found in the manuscript.'
+        : problems ? `Manuscript cross-check found ${problems} problems. See the report below.` : 'Every citation has a reference, and every reference is cited.',
+      report.citations.length === 0 ? 'warning' : problems ? 'warning' : 'success'
+    );
+  };
+
+  const handleMergeSelect = (groupId: string, field: string, itemId: string): void => {
+    setMergeSelections(prev => ({ ...prev, [groupId]: { ...prev[groupId], [field]: itemId } }));
+  };
 
-    if (!librariesLoaded) {
-      updateStatus('Citation libraries are still loading. Please wait a moment and try again.', 'error');
+  const handleGeneration = async (): Promise<void> => {
+    if (!csvRows && !importedItems) {
+      updateStatus('Please load your data and review the column mapping first.', 'error');
       return;
     }
 
     setIsLoading(true);
     setResult(null);
-    setDebugInfo(['Starting citation generation...']);
+    setActiveRunId(null);
+    setGenerationProgress(null);
+    liveRunIdRef.current = null;
+    startLog({ level: 'info', message: 'Starting citation generation...' });
 
     try {
-      let csvText: string;
-      if (gsheetUrl) {
-        const csvUrl = buildCsvUrl(gsheetUrl);
-        updateStatus('Fetching data from Google Sheet...');
-        const response = await fetch(csvUrl);
-        if (!response.ok) throw new Error(`Failed to fetch from Google Sheet: ${response.statusText}`);
-        csvText = await response.text();
-        addDebugInfo(`Google Sheet data fetched: ${csvText.length} characters`);
-      } else if (csvFile) {
-        updateStatus('Reading CSV file...');
-        csvText = await csvFile.text();
-        addDebugInfo(`CSV file read: ${csvText.length} characters`);
-      } else {
-        throw new Error('No data source provided');
-      }
-
-      updateStatus('Parsing CSV data...');
-      const jsonData = await parseCsv(csvText);
-
-      const [cslStyle, enLocale] = await Promise.all([
-        getCslStyle(),
-        fetchResource('https://raw.githubusercontent.com/citation-style-language/locales/master/locales-en-US.xml', 'English locale')
-      ]);
-
-      updateStatus('Converting data to CSL-JSON format...');
-      const cslItems = jsonData.map((row, index) => createCslItem(row, index));
-      
-      updateStatus('Validating CSL items...');
-      const { valid: validItems, errors: validationErrors } = validateCslItems(cslItems);
-      
-      if (validItems.length === 0) {
-        throw new Error('No valid citation items found. Please check your data format.');
-      }
-
-      updateStatus(`Generating citations for ${validItems.length} valid items...`);
-      const { citations, errors: citationErrors } = await generateCitations(validItems, cslStyle, enLocale);
-
-      const allErrors = [...validationErrors, ...citationErrors];
-      const warnings: string[] = [];
-      
-      if (validItems.length < cslItems.length) {
-        warnings.push(`${cslItems.length - cslItems.length} items were skipped due to validation errors`);
+      const jsonData = importedItems ? cslItemsToRows(importedItems) : csvRows ?? [];
+      const ignored = csvHeaders.filter(header => !columnMapping[header]);
+      if (!importedItems && ignored.length > 0) {
+        addDebugInfo(`Ignored columns: ${ignored.join(', ')}`, { stage: 'map' });
       }
 
-      const finalCsvData = jsonData.map((row, index) => {
-        const correspondingCslItem = cslItems.find(csl => csl.id === `item_${index + 1}`);
-        const validIndex = validItems.findIndex(validItem => validItem.id === correspondingCslItem?.id);
-        
-        let citation = 'Skipped due to validation errors.';
-        if (validIndex !== -1) {
-            citation = citations[validIndex] || 'Error: Could not generate citation.';
-        }
-        
-        return { ...row, 'APA 7 Citation': citation };
-      });
-
-      setResult({
-        success: citations.length > 0,
-        citations,
-        errors: allErrors,
-        warnings,
-        csvData: finalCsvData
-      });
-
-      if (citations.length > 0) {
-        updateStatus(`Successfully generated ${citations.length} citations.`, 'success');
+      updateStatus(importedItems ? 'Generating citations...' : 'Converting data to CSL-JSON format...', 'info', importedItems ? 'render' : 'map');
+      const generated = await getClient().generate({
+        rows: jsonData,
+        items: importedItems ?? undefined,
+        mapping: columnMapping,
+        overrides: acceptedOverrides(enrichmentProposals ?? [], acceptedEnrichment),
+        merges: (duplicateGroups ?? []).filter(group => acceptedMerges.has(group.id)),
+        mergeSelections,
+        styles: getSelectedStyles(),
+        locale: citationLocale,
+        warnings: importWarnings
+      }, setGenerationProgress);
+
+      setEditErrors({});
+      setSelectedInText([]);
+      setGroupedCitation(null);
+      setActiveStyleId(generated.styles[0].styleId);
+      setResult(generated);
+      await recordRun(generated);
+
+      const generatedCount = generated.styles.reduce((sum, styleResult) => sum + styleResult.citations.length, 0);
+      if (generatedCount > 0) {
+        updateStatus(
+          generated.styles.length > 1
+            ? `Successfully generated ${generatedCount} citations in ${generated.styles.length} styles.`
+            : `Successfully generated ${generatedCount} citations.`,
+          'success'
+        );
       } else {
-        updateStatus('Failed to generate any citations. Check debug information for details.', 'error');
+        updateStatus('Failed to generate any citations. Check debug information for details.', 'error', 'render');
       }
 
     } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        updateStatus('Generation cancelled.', 'warning');
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      addDebugInfo(`Generation failed: ${errorMessage}`);
       updateStatus(`Error: ${errorMessage}`, 'error');
       setResult({
         success: false,
-        citations: [],
+        styles: [],
+        items: [],
+        merged: {},
+        issues: [],
         errors: [errorMessage],
         warnings: [],
         csvData: []
       });
     } finally {
       setIsLoading(false);
+      setGenerationProgress(null);
+    }
+  };
+
+  const handleCancel = (): void => {
+    clientRef.current?.cancel();
+  };
+
+  const activeStyle = result?.styles.find(style => style.styleId === activeStyleId) ?? result?.styles[0];
+  /** The shown output belongs to the worker's engines, so its items can be edited and re-rendered. */
+  const isLiveRun = activeRunId === liveRunIdRef.current;
+  // Recomputed as results change, so edits and new runs are compared with the same earlier output.
+  const comparison = useMemo(
+    () => (comparisonBase && result?.success ? compareOutputs(comparisonBase.table, resultTable(result)) : null),
+    [comparisonBase, result]
+  );
+  const hasTabs = Boolean(result?.csvData.some(row => row[SOURCE_TAB_COLUMN]));
+
+  /** Bibliography entry indexes, under their sheet tab when grouping is on. */
+  const groupCitations = (styleResult: StyleResult): Array<{ tab: string; entries: number[] }> => {
+    const indexes = styleResult.citations.map((_, index) => index);
+    if (!hasTabs || !groupOutputByTab || !result) return [{ tab: '', entries: indexes }];
+    return groupByTab(indexes, index => result.csvData[Number(styleResult.ids[index]?.replace('item_', '')) - 1]?.[SOURCE_TAB_COLUMN]);
+  };
+
+  /** The groups flattened for the virtualised list: a heading row per tab, then its entries. */
+  const citationListRows = (styleResult: StyleResult): Array<{ kind: 'tab'; tab: string; entries: number[] } | { kind: 'entry'; index: number }> =>
+    groupCitations(styleResult).flatMap(({ tab, entries }) => [
+      ...(tab ? [{ kind: 'tab' as const, tab, entries }] : []),
+      ...entries.map(index => ({ kind: 'entry' as const, index }))
+    ]);
+
+  const toggleInTextSelection = (id: string): void => {
+    setGroupedCitation(null);
+    setSelectedInText(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const handleGroupCitation = async (): Promise<void> => {
+    if (!activeStyle || selectedInText.length < 2) return;
+    try {
+      const refs = activeStyle.inText
+        .filter(entry => selectedInText.includes(entry.id))
+        .map(entry => ({ id: entry.id, locator: entry.locator }));
+      setGroupedCitation(await getClient().group(activeStyle.styleId, refs));
+    } catch (error) {
+      addDebugInfo(`Grouped citation failed: ${error}`);
+      updateStatus('Failed to build a grouped citation for the selected rows.', 'error');
+    }
+  };
+
+  /**
+   * Re-lints one changed item and re-renders it in every style in the worker,
+   * then writes it back into the latest results and CSV.
+   */
+  const commitItem = async (item: CslItem, fields: EditableField[]): Promise<void> => {
+    if (!result || !isLiveRun) return;
+    const { id } = item;
+    const mapping = importedItems ? suggestMapping(Object.keys(cslItemToRow(item))) : columnMapping;
+    const { valid, issues: itemIssues } = validateCslItems([item], mapping);
+    const isValid = valid.length > 0;
+
+    const client = getClient();
+    const outcomes = new Map<string, { rendered: RenderedItem | null; locator?: CitationLocator }>();
+    await Promise.all(result.styles.map(async styleResult => {
+      const locator = styleResult.inText.find(entry => entry.id === id)?.locator;
+      try {
+        if (!isValid) {
+          await client.drop(styleResult.styleId, id);
+          outcomes.set(styleResult.styleId, { rendered: null });
+        } else {
+          outcomes.set(styleResult.styleId, { rendered: await client.rerender(styleResult.styleId, item, locator), locator });
+        }
+      } catch (renderError) {
+        addDebugInfo(`Re-rendering in ${styleResult.title} failed: ${renderError}`, { level: 'error', stage: 'render', row: parseInt(id.replace('item_', ''), 10) });
+      }
+    }));
+    // Keep the item and its citations in step: an edit that could not be rendered everywhere is not applied.
+    if (outcomes.size < result.styles.length) {
+      updateStatus(`Could not re-render row ${id.replace('item_', '')}; the edit was not applied.`, 'error', 'render');
+      return;
+    }
+
+    // Other edits may have landed while rendering, so apply this one to the latest result.
+    setResult(latest => {
+      if (!latest) return latest;
+      const styles = latest.styles.map(styleResult => {
+        const outcome = outcomes.get(styleResult.styleId);
+        return outcome ? replaceStyleEntry(styleResult, item, outcome.rendered, outcome.locator) : styleResult;
+      });
+      const lookups = indexStyleResults(styles);
+      const items = latest.items.map(existing => (existing.id === id ? item : existing));
+      const issues = [...latest.issues.filter(issue => issue.itemId !== id), ...itemIssues].sort((a, b) => a.row - b.row);
+      const csvData = latest.csvData.map((row, rowIndex) => {
+        if (latest.merged[`item_${rowIndex + 1}`] === id) return buildResultRow(row, id, styles, lookups);
+        if (`item_${rowIndex + 1}` !== id) return row;
+        const sourceRow = importedItems
+          ? cslItemToRow(item, extraRowVariables(importedItems))
+          : fields.reduce((updated, field) => writeFieldToRow(updated, columnMapping, item, field), row);
+        return buildResultRow(sourceRow, id, styles, lookups);
+      });
+      return { ...latest, items, issues, styles, csvData };
+    });
+    setGroupedCitation(null);
+    addDebugInfo(`Edited ${fields.join(', ')}${isValid ? '' : '; the item no longer passes validation'}`, {
+      level: isValid ? 'debug' : 'warning',
+      stage: 'validate',
+      row: parseInt(id.replace('item_', ''), 10),
+      payload: item
+    });
+  };
+
+  const handleItemEdit = (id: string, field: EditableField, text: string): void => {
+    const current = result?.items.find(item => item.id === id);
+    if (!current) return;
+
+    const errorKey = `${id}:${field}`;
+    const { item, error } = applyFieldEdit(current, field, text);
+    const nextErrors = { ...editErrors };
+    if (error) nextErrors[errorKey] = error;
+    else delete nextErrors[errorKey];
+    setEditErrors(nextErrors);
+    if (!error) commitItem(item, [field]);
+  };
+
+  const handleApplyFix = (issue: ReferenceIssue): void => {
+    const current = result?.items.find(item => item.id === issue.itemId);
+    if (!current || !issue.fix) return;
+
+    let item = current;
+    for (const change of issue.fix.changes) {
+      const edit = applyFieldEdit(item, change.field, change.value);
+      if (edit.error) {
+        updateStatus(`Could not apply "${issue.fix.label}" to row ${issue.row}: ${edit.error}`, 'error');
+        return;
+      }
+      item = edit.item;
     }
+    commitItem(item, issue.fix.changes.map(change => change.field));
   };
 
   const copyToClipboard = async (text: string): Promise<void> => {
@@ -548,25 +954,28 @@ const App: React.FC = () => {
     }
   };
 
-  const downloadCsv = (): void => {
-    if (!result?.csvData.length) {
-      updateStatus('No data to download.', 'error');
-      return;
-    }
-    
-    // Check if Papa is available
-    const Papa = (window as any).Papa;
-    if (typeof Papa === 'undefined') {
-      updateStatus('CSV export library not loaded. Please refresh the page and try again.', 'error');
-      return;
+  const copyFormattedCitations = async (indexes: number[]): Promise<void> => {
+    if (!activeStyle) return;
+    const formatted = indexes.map(index => activeStyle.formattedCitations[index]);
+    try {
+      await copyRichText({
+        plain: indexes.map(index => activeStyle.citations[index]).join('\n\n'),
+        html: citationsToHtml(formatted),
+        rtf: citationsToRtf(formatted)
+      });
+      updateStatus(indexes.length === 1 ? 'Citation copied with formatting!' : `${indexes.length} citations copied with formatting!`, 'success');
+    } catch (error) {
+      addDebugInfo(`Rich text copy failed: ${error}`);
+      updateStatus('Failed to copy to clipboard', 'error');
     }
-    
-    const csv = Papa.unparse(result.csvData);
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  };
+
+  const downloadFile = (content: string, filename: string, mimeType: string): void => {
+    const blob = new Blob([content], { type: mimeType });
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     link.setAttribute('href', url);
-    link.setAttribute('download', 'apa7_citations_output.csv');
+    link.setAttribute('download', filename);
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
@@ -574,33 +983,122 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  const downloadResultCsv = (output: GenerationResult, filename: string): void => {
+    if (!output.csvData.length) {
+      updateStatus('No data to download.', 'error');
+      return;
+    }
+
+    const csv = toCsv(includeBibliographyOrder ? withBibliographyColumns(output.csvData, output.styles) : output.csvData);
+    downloadFile(csv, filename, 'text/csv;charset=utf-8;');
+  };
+
+  const downloadCsv = (): void => {
+    if (result) downloadResultCsv(result, 'citations_output.csv');
+    else updateStatus('No data to download.', 'error');
+  };
+
+  const downloadReferences = (format: ExportFormat): void => {
+    if (!result?.items.length) {
+      updateStatus('No references to export.', 'error');
+      return;
+    }
+    const { label, filename, mimeType } = EXPORT_FORMATS[format];
+    downloadFile(exportReferences(result.items, format), filename, mimeType);
+    addDebugInfo(`Exported ${result.items.length} items as ${label}`);
+  };
+
+  const downloadMarkdown = (): void => {
+    if (!activeStyle?.formattedCitations.length) {
+      updateStatus('No citations to download.', 'error');
+      return;
+    }
+    const markdown = groupCitations(activeStyle)
+      .map(({ tab, entries }) => [...(tab ? [`## ${tab}`] : []), ...entries.map(index => htmlToMarkdown(activeStyle.formattedCitations[index]))].join('\n\n'))
+      .join('\n\n');
+    downloadFile(`# ${activeStyle.title}\n\n${markdown}\n`, 'references.md', 'text/markdown;charset=utf-8;');
+  };
+
+  /** The diagnostics log as JSON, with the run settings a bug report needs. */
+  const downloadLog = (): void => {
+    const context = {
+      userAgent: navigator.userAgent,
+      source: csvFile?.name ?? (gsheetUrl ? 'Google Sheet' : pastedReferences.trim() ? 'Pasted references' : null),
+      rowCount: importedItems?.length ?? csvRows?.length ?? 0,
+      styles: getSelectedStyles().map(style => style.title),
+      locale: citationLocale
+    };
+    downloadFile(serializeLog(logEntries, context), 'citation-log.json', 'application/json;charset=utf-8;');
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>): void => {
     const file = event.target.files?.[0];
     if (file) {
       setCsvFile(file);
       setGsheetUrl('');
+      setPastedReferences('');
       setActiveTab('upload');
+      resetLoadedRows();
     }
   };
 
-  const handleCslFileUpload = (event: React.ChangeEvent<HTMLInputElement>): void => {
-    const file = event.target.files?.[0];
-    setCslFile(file);
+  const handleStyleUpload = async (files: File[]): Promise<void> => {
+    const uploaded: CitationStyle[] = [];
+    for (const file of files) {
+      try {
+        const style = await readCustomStyle(file);
+        uploaded.push(style);
+        addDebugInfo(`Custom CSL style loaded: ${style.title} (${style.xml.length} characters)`);
+      } catch (error) {
+        updateStatus(`Could not use ${file.name}: ${error instanceof Error ? error.message : error}`, 'error');
+      }
+    }
+    if (uploaded.length === 0) return;
+    const uploadedIds = uploaded.map(style => style.id);
+    setCustomStyles(prev => [...prev.filter(style => !uploadedIds.includes(style.id)), ...uploaded]);
+    setSelectedStyleIds(prev => [...prev, ...uploadedIds.filter(id => !prev.includes(id))]);
   };
 
+  const removeCustomStyle = (id: string): void => {
+    setCustomStyles(prev => prev.filter(style => style.id !== id));
+    setSelectedStyleIds(prev => prev.filter(selected => selected !== id));
+  };
+
+  const switchStyleTab = (styleId: string): void => {
+    setActiveStyleId(styleId);
+    setSelectedInText([]);
+    setGroupedCitation(null);
+  };
+
+  const dataLoaded = csvRows !== null || importedItems !== null;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
       <div className="bg-white shadow-sm border-b">
         <div className="max-w-7xl mx-auto px-4 py-6">
           <div className="text-center">
-            <h1 className="text-4xl font-bold text-gray-900 mb-2">APA 7 Citation Generator</h1>
-            <p className="text-lg text-gray-600">Convert CSV files and Google Sheets into properly formatted citations</p>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">Citation Generator</h1>
+            <p className="text-lg text-gray-600">Convert spreadsheets, Google Sheets and reference-manager exports into properly formatted citations</p>
           </div>
         </div>
       </div>
 
       <div className="max-w-7xl mx-auto px-4 py-8">
+        {/* Projects */}
+        <ProjectsPanel
+          projects={projects}
+          activeProjectId={activeProject?.id ?? null}
+          runs={projectRuns}
+          activeRunId={activeRunId}
+          onCreate={handleCreateProject}
+          onOpen={handleOpenProject}
+          onDelete={handleDeleteProject}
+          onOpenRun={handleOpenRun}
+          onDownloadRun={handleDownloadRun}
+          onDeleteRun={handleDeleteRun}
+        />
+
         {/* Input Section */}
         <div className="bg-white rounded-xl shadow-md border border-gray-200 mb-8">
           <div className="p-6">
@@ -617,7 +1115,7 @@ const App: React.FC = () => {
                 }`}
               >
                 <FileUp className="w-4 h-4 inline mr-2" />
-                Upload CSV File
+                Upload File
               </button>
               <button
                 onClick={() => setActiveTab('url')}
@@ -630,6 +1128,17 @@ const App: React.FC = () => {
                 <ExternalLink className="w-4 h-4 inline mr-2" />
                 Google Sheets URL
               </button>
+              <button
+                onClick={() => setActiveTab('paste')}
+                className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-colors ${
+                  activeTab === 'paste'
+                    ? 'bg-white text-blue-600 shadow-sm'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                <ClipboardPaste className="w-4 h-4 inline mr-2" />
+                Paste References
+              </button>
             </div>
 
             {/* Tab Content */}
@@ -639,16 +1148,16 @@ const App: React.FC = () => {
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".csv"
+                    accept={`${IMPORT_ACCEPT},${WORKBOOK_ACCEPT}`}
                     onChange={handleFileUpload}
                     className="hidden"
                   />
                   <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                   <p className="text-lg font-medium text-gray-700 mb-2">
-                    {csvFile ? csvFile.name : 'Drop your CSV file here'}
+                    {csvFile ? csvFile.name : 'Drop your CSV or reference library file here'}
                   </p>
                   <p className="text-sm text-gray-500 mb-4">
-                    or click to browse files
+                    CSV, Excel (.xlsx) or OpenDocument (.ods) workbooks, BibTeX (.bib), RIS (.ris), CSL-JSON (.json) or PubMed (.nbib) — or click to browse files
                   </p>
                   <button
                     onClick={() => fileInputRef.current?.click()}
@@ -659,7 +1168,7 @@ const App: React.FC = () => {
                   </button>
                 </div>
               </div>
-            ) : (
+            ) : activeTab === 'url' ? (
               <div className="space-y-4">
                 <label htmlFor="gsheet-url" className="block text-sm font-medium text-gray-700">
                   Google Sheets Share URL
@@ -671,49 +1180,194 @@ const App: React.FC = () => {
                   onChange={(e) => {
                     setGsheetUrl(e.target.value);
                     setCsvFile(null);
+                    setPastedReferences('');
+                    resetLoadedRows();
                   }}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                   placeholder="https://docs.google.com/spreadsheets/d/.../edit?usp=sharing"
                 />
                 <p className="text-sm text-gray-500">
-                  Ensure your sheet is public or anyone with the link can view.
+                  Ensure your sheet is public or anyone with the link can view. A link to one tab (with <code>#gid=</code>) loads that tab; otherwise every tab is offered.
                 </p>
               </div>
+            ) : (
+              <div className="space-y-4">
+                <label htmlFor="pasted-references" className="block text-sm font-medium text-gray-700">
+                  Formatted Reference List
+                </label>
+                <textarea
+                  id="pasted-references"
+                  value={pastedReferences}
+                  onChange={(e) => {
+                    setPastedReferences(e.target.value);
+                    setCsvFile(null);
+                    setGsheetUrl('');
+                    resetLoadedRows();
+                  }}
+                  rows={8}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Smith, J. A., & Jones, K. (2020). Understanding zebras. Journal of Animal Studies, 12(3), 45–67. https://doi.org/..."
+                />
+                <p className="text-sm text-gray-500">
+                  Paste an APA, MLA or Chicago reference list, one entry per line or separated by blank lines. Each entry is split into fields for review.
+                </p>
+              </div>
+            )}
+
+            {/* Citation Styles */}
+            <StylePicker
+              styles={[...BUNDLED_STYLES, ...customStyles]}
+              selected={selectedStyleIds}
+              onChange={setSelectedStyleIds}
+              locales={BUNDLED_LOCALES}
+              locale={citationLocale}
+              onLocaleChange={setCitationLocale}
+              onUpload={handleStyleUpload}
+              onRemove={removeCustomStyle}
+            />
+
+            {/* Sheet Tabs */}
+            {workbookSheets && workbookSheets.length > 1 && (
+              <SheetTabPicker sheets={workbookSheets} selected={selectedTabs} onChange={handleTabSelection} />
             )}
 
-            {/* CSL File Upload */}
-            <div className="mt-6 pt-6 border-t border-gray-200">
-              <label htmlFor="csl-file" className="block text-sm font-medium text-gray-700 mb-2">
-                Custom CSL Style File (Optional)
-              </label>
-              <input
-                type="file"
-                id="csl-file"
-                accept=".csl"
-                onChange={handleCslFileUpload}
-                className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-600 hover:file:bg-blue-100 cursor-pointer"
+            {/* Parsed References */}
+            {parsedReferences && <ParsedReferencesPanel references={parsedReferences} />}
+
+            {/* Column Mapping */}
+            {csvRows && (
+              <ColumnMappingPanel
+                headers={csvHeaders}
+                rows={csvRows}
+                mapping={columnMapping}
+                onChange={setColumnMapping}
               />
-              <p className="mt-2 text-sm text-gray-500">
-                {cslFile ? `Using custom style: ${cslFile.name}` : 'If not provided, the standard APA 7th edition style will be used.'}
-              </p>
-            </div>
+            )}
+            {csvRows && <NameParsingPreview rows={csvRows} mapping={columnMapping} />}
+
+            {/* Import Summary */}
+            {importedItems && (
+              <div className="mt-6 pt-6 border-t border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                  <Library className="w-5 h-5 mr-2 text-blue-600" />
+                  Imported {importedItems.length} references{importFormat ? ` from ${FORMAT_LABELS[importFormat]}` : ''}
+                </h3>
+                {importWarnings.length > 0 ? (
+                  <div className="mt-3 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                    <p className="text-sm font-medium text-yellow-800 mb-2">
+                      {importWarnings.length} import {importWarnings.length === 1 ? 'warning' : 'warnings'}: these entry types or fields could not be mapped.
+                    </p>
+                    <ul className="space-y-1 text-sm text-yellow-700 max-h-48 overflow-y-auto">
+                      {importWarnings.map((warning, index) => (
+                        <li key={index} className="flex items-start">
+                          <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                          {warning}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : (
+                  <p className="mt-1 text-sm text-gray-500">Every entry type and field was mapped.</p>
+                )}
+              </div>
+            )}
+
+            {/* Metadata Enrichment */}
+            {dataLoaded && (
+              <EnrichmentPanel
+                options={enrichmentOptions}
+                onOptionsChange={setEnrichmentOptions}
+                fixtureName={enrichmentFixtures?.name ?? null}
+                onFixtureUpload={handleFixtureUpload}
+                onRun={handleEnrichment}
+                isRunning={isEnriching}
+                progress={enrichmentProgress}
+                proposals={enrichmentProposals}
+                items={enrichmentItems}
+                accepted={acceptedEnrichment}
+                onAcceptedChange={setAcceptedEnrichment}
+              />
+            )}
+
+            {/* Manuscript Cross-check */}
+            {dataLoaded && (
+              <ManuscriptCheckPanel
+                text={manuscriptText}
+                onTextChange={(text) => {
+                  setManuscriptText(text);
+                  setManuscriptReport(null);
+                }}
+                fileName={manuscriptFileName}
+                onUpload={handleManuscriptUpload}
+                onRun={handleManuscriptCheck}
+                isRunning={isReadingManuscript}
+                report={manuscriptReport}
+              />
+            )}
+
+            {/* Duplicate Detection */}
+            {dataLoaded && (
+              <DuplicatesPanel
+                onRun={handleFindDuplicates}
+                groups={duplicateGroups}
+                items={duplicateItems}
+                accepted={acceptedMerges}
+                onAcceptedChange={setAcceptedMerges}
+                selections={mergeSelections}
+                onSelect={handleMergeSelect}
+              />
+            )}
 
             {/* Generate Button */}
             <div className="mt-8">
               <button
-                onClick={handleGeneration}
-                disabled={isLoading || !librariesLoaded || (!gsheetUrl && !csvFile)}
+                onClick={dataLoaded ? handleGeneration : handleLoadColumns}
+                disabled={isLoading || (!gsheetUrl && !csvFile && !pastedReferences.trim()) || (dataLoaded && selectedStyleIds.length === 0)}
                 className="w-full flex justify-center items-center px-6 py-3 bg-blue-600 text-white font-medium rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
               >
                 {isLoading ? (
                   <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                ) : !librariesLoaded ? (
-                  <Library className="w-5 h-5 mr-2 animate-pulse" />
-                ) : (
+                ) : dataLoaded ? (
                   <CheckCircle className="w-5 h-5 mr-2" />
+                ) : (
+                  <Columns3 className="w-5 h-5 mr-2" />
                 )}
-                {isLoading ? 'Generating Citations...' : !librariesLoaded ? 'Loading Libraries...' : 'Generate Citations'}
+                {isLoading
+                  ? (dataLoaded ? 'Generating Citations...' : 'Loading Data...')
+                  : dataLoaded ? 'Generate Citations'
+                  : csvFile && !isWorkbookFile(csvFile.name) && detectFormat(csvFile.name) !== 'csv' ? 'Import References'
+                  : pastedReferences.trim() ? 'Parse References' : 'Load & Map Columns'}
               </button>
+              {isLoading && (
+                <div className="mt-3 flex items-center gap-3">
+                  <div className="flex-1">
+                    {generationProgress && (
+                      <>
+                        <div className="flex justify-between text-xs text-gray-500 mb-1">
+                          <span>
+                            {STAGE_LABELS[generationProgress.stage]}
+                            {generationProgress.style ? ` ${generationProgress.style}` : ''}
+                          </span>
+                          <span>{generationProgress.done} / {generationProgress.total}</span>
+                        </div>
+                        <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-blue-600 transition-all"
+                            style={{ width: `${generationProgress.total ? (100 * generationProgress.done) / generationProgress.total : 0}%` }}
+                          />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                  <button
+                    onClick={handleCancel}
+                    className="inline-flex items-center px-3 py-1.5 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md hover:bg-red-100 transition-colors"
+                  >
+                    <XCircle className="w-4 h-4 mr-1.5" />
+                    Cancel
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -731,10 +1385,22 @@ const App: React.FC = () => {
                status.type === 'success' ? <CheckCircle className="w-5 h-5 mr-2" /> :
                <Loader2 className="w-5 h-5 mr-2" />}
               {status.message}
+              {status.type === 'error' && !result && logEntries.length > 0 && (
+                <button onClick={() => setShowDebug(!showDebug)} className="ml-auto text-sm underline hover:no-underline">
+                  {showDebug ? 'Hide' : 'Show'} Debug Info
+                </button>
+              )}
             </div>
           </div>
         )}
 
+        {/* Debug Information for a load that failed before any results */}
+        {showDebug && !result && logEntries.length > 0 && (
+          <div className="mb-6">
+            <DiagnosticsPanel entries={logEntries} onDownload={downloadLog} />
+          </div>
+        )}
+
         {/* Results Section */}
         {result && (
           <div className="space-y-6">
@@ -842,21 +1508,21 @@ const App: React.FC = () => {
               <h3 className="text-xl font-semibold text-gray-900 mb-4">Generation Summary</h3>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="text-center p-4 bg-green-50 rounded-lg">
-                  <div className="text-2xl font-bold text-green-600">{result.citations.length}</div>
+                  <div className="text-2xl font-bold text-green-600">{result.styles.reduce((sum, styleResult) => sum + styleResult.citations.length, 0)}</div>
                   <div className="text-sm text-green-700">Citations Generated</div>
                 </div>
                 <div className="text-center p-4 bg-yellow-50 rounded-lg">
-                  <div className="text-2xl font-bold text-yellow-600">{result.warnings.length}</div>
+                  <div className="text-2xl font-bold text-yellow-600">{result.warnings.length + result.issues.filter(issue => issue.severity === 'warning').length}</div>
                   <div className="text-sm text-yellow-700">Warnings</div>
                 </div>
                 <div className="text-center p-4 bg-red-50 rounded-lg">
-                  <div className="text-2xl font-bold text-red-600">{result.errors.length}</div>
+                  <div className="text-2xl font-bold text-red-600">{result.errors.length + result.issues.filter(issue => issue.severity === 'error').length}</div>
                   <div className="text-sm text-red-700">Errors</div>
                 </div>
               </div>
 
-              {result.success && (
-                <div className="mt-6 flex flex-col sm:flex-row gap-4">
+              <div className="mt-6 flex flex-col sm:flex-row gap-4">
+                {result.success && (
                   <button
                     onClick={downloadCsv}
                     className="flex-1 flex items-center justify-center px-4 py-2 bg-emerald-600 text-white rounded-md hover:bg-emerald-700 transition-colors"
@@ -864,88 +1530,282 @@ const App: React.FC = () => {
                     <Download className="w-4 h-4 mr-2" />
                     Download Results CSV
                   </button>
-                  <button
-                    onClick={() => setShowDebug(!showDebug)}
-                    className="flex-1 flex items-center justify-center px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
-                  >
-                    {showDebug ? 'Hide' : 'Show'} Debug Info
-                  </button>
+                )}
+                <button
+                  onClick={() => setShowDebug(!showDebug)}
+                  className="flex-1 flex items-center justify-center px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
+                >
+                  {showDebug ? 'Hide' : 'Show'} Debug Info
+                </button>
+              </div>
+
+              {result.success && (
+                <label className="mt-3 inline-flex items-center text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={includeBibliographyOrder}
+                    onChange={(e) => setIncludeBibliographyOrder(e.target.checked)}
+                    className="mr-2 h-4 w-4 text-blue-600 rounded border-gray-300"
+                  />
+                  Also list each style's bibliography in its own order, in a column beside the per-row citations
+                </label>
+              )}
+
+              {result.success && hasTabs && (
+                <label className="mt-2 flex items-center text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={groupOutputByTab}
+                    onChange={(e) => setGroupOutputByTab(e.target.checked)}
+                    className="mr-2 h-4 w-4 text-blue-600 rounded border-gray-300"
+                  />
+                  Group citations by sheet tab (each row's tab is also in the "{SOURCE_TAB_COLUMN}" column of the results CSV)
+                </label>
+              )}
+
+              {result.items.length > 0 && (
+                <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <span className="text-sm font-medium text-gray-600">Export library:</span>
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => downloadReferences(format)}
+                      className="flex-1 flex items-center justify-center px-4 py-2 text-sm text-emerald-700 bg-emerald-50 border border-emerald-200 rounded-md hover:bg-emerald-100 transition-colors"
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      {EXPORT_FORMATS[format].label}
+                    </button>
+                  ))}
                 </div>
               )}
             </div>
 
             {/* Debug Information */}
-            {showDebug && (
+            {showDebug && <DiagnosticsPanel entries={logEntries} onDownload={downloadLog} />}
+
+            {/* Style Tabs */}
+            {result.styles.length > 1 && (
+              <div className="flex flex-wrap gap-1 bg-gray-100 p-1 rounded-lg">
+                {result.styles.map(styleResult => (
+                  <button
+                    key={styleResult.styleId}
+                    onClick={() => switchStyleTab(styleResult.styleId)}
+                    className={`flex-1 min-w-[10rem] py-2 px-3 rounded-md text-sm font-medium truncate transition-colors ${
+                      activeStyle?.styleId === styleResult.styleId
+                        ? 'bg-white text-blue-600 shadow-sm'
+                        : 'text-gray-600 hover:text-gray-800'
+                    }`}
+                    title={styleResult.title}
+                  >
+                    {styleResult.title}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Citations Display */}
+            {activeStyle && activeStyle.citations.length > 0 && (
               <div className="bg-white rounded-xl shadow-md border border-gray-200 p-6">
-                <h3 className="text-xl font-semibold text-gray-900 mb-4">Debug Information</h3>
-                <div className="bg-gray-50 rounded-md p-4 max-h-64 overflow-y-auto">
-                  <pre className="text-xs text-gray-700 whitespace-pre-wrap">
-                    {debugInfo.join('\n')}
-                  </pre>
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                  <div>
+                    <h3 className="text-xl font-semibold text-gray-900">Generated Citations</h3>
+                    <p className="text-sm text-gray-500">{activeStyle.title}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => copyFormattedCitations(activeStyle.citations.map((_, index) => index))}
+                      className="inline-flex items-center px-3 py-1.5 text-sm text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100 transition-colors"
+                    >
+                      <Copy className="w-4 h-4 mr-1.5" />
+                      Copy all (rich text)
+                    </button>
+                    <button
+                      onClick={downloadMarkdown}
+                      className="inline-flex items-center px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+                    >
+                      <FileText className="w-4 h-4 mr-1.5" />
+                      Download Markdown
+                    </button>
+                  </div>
                 </div>
+                <VirtualList
+                  items={citationListRows(activeStyle)}
+                  estimatedHeight={120}
+                  maxHeight={720}
+                  getKey={row => (row.kind === 'tab' ? `tab:${row.tab}` : `entry:${row.index}`)}
+                  itemClassName="pb-4"
+                  renderItem={row => {
+                    if (row.kind === 'tab') {
+                      return (
+                        <div className="flex items-center justify-between border-b border-gray-200 pt-2 pb-1">
+                          <h4 className="font-semibold text-gray-800">{row.tab}</h4>
+                          <button
+                            onClick={() => copyFormattedCitations(row.entries)}
+                            className="inline-flex items-center text-xs text-blue-600 hover:text-blue-800"
+                          >
+                            <Copy className="w-3.5 h-3.5 mr-1" />
+                            Copy tab
+                          </button>
+                        </div>
+                      );
+                    }
+                    const { index } = row;
+                    const citation = activeStyle.citations[index];
+                    return (
+                      <div className="p-4 bg-gray-50 rounded-lg">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <div className="text-sm font-medium text-gray-500 mb-1">
+                              Citation {index + 1}
+                              {activeStyle.ids[index] && <span className="ml-2 text-xs text-gray-400">row {activeStyle.ids[index].replace('item_', '')}</span>}
+                            </div>
+                            {activeStyle.formattedCitations[index] ? (
+                              <div
+                                className="text-gray-900 leading-relaxed font-serif pl-8 -indent-8"
+                                dangerouslySetInnerHTML={{ __html: activeStyle.formattedCitations[index] }}
+                              />
+                            ) : (
+                              <div className="text-gray-900 leading-relaxed">{citation}</div>
+                            )}
+                          </div>
+                          <div className="ml-4 flex flex-col">
+                            <button
+                              onClick={() => copyFormattedCitations([index])}
+                              className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                              title="Copy with formatting"
+                            >
+                              <Copy className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => copyToClipboard(htmlToMarkdown(activeStyle.formattedCitations[index] ?? citation))}
+                              className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                              title="Copy as Markdown"
+                            >
+                              <FileText className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  }}
+                />
               </div>
             )}
 
-            {/* Citations Display */}
-            {result.citations.length > 0 && (
+            {/* In-Text Citations */}
+            {activeStyle && activeStyle.inText.length > 0 && (
               <div className="bg-white rounded-xl shadow-md border border-gray-200 p-6">
-                <h3 className="text-xl font-semibold text-gray-900 mb-4">Generated Citations</h3>
-                <div className="space-y-4">
-                  {result.citations.map((citation, index) => (
-                    <div key={index} className="p-4 bg-gray-50 rounded-lg">
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="text-sm font-medium text-gray-500 mb-1">Citation {index + 1}</div>
-                          <div className="text-gray-900 leading-relaxed">{citation}</div>
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+                  <div>
+                    <h3 className="text-xl font-semibold text-gray-900">In-Text Citations</h3>
+                    <p className="text-sm text-gray-500">Select two or more rows to cite them together in one citation.</p>
+                  </div>
+                  <button
+                    onClick={handleGroupCitation}
+                    disabled={selectedInText.length < 2}
+                    className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <Layers className="w-4 h-4 mr-2" />
+                    Cite {selectedInText.length || ''} selected together
+                  </button>
+                </div>
+
+                {groupedCitation && (
+                  <div className="mb-4 p-4 bg-blue-50 border border-blue-200 rounded-lg space-y-2 text-sm">
+                    {(['parenthetical', 'narrative'] as const).map(form => (
+                      <div key={form} className="flex items-start justify-between">
+                        <div>
+                          <span className="font-medium text-blue-800 capitalize">Grouped {form}: </span>
+                          <span className="text-gray-900">{groupedCitation[form]}</span>
                         </div>
                         <button
-                          onClick={() => copyToClipboard(citation)}
-                          className="ml-4 p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                          onClick={() => copyToClipboard(groupedCitation[form])}
+                          className="ml-4 p-1 text-blue-400 hover:text-blue-600 transition-colors"
                           title="Copy to clipboard"
                         >
                           <Copy className="w-4 h-4" />
                         </button>
                       </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {/* Errors and Warnings */}
-            {(result.errors.length > 0 || result.warnings.length > 0) && (
-              <div className="bg-white rounded-xl shadow-md border border-gray-200 p-6">
-                <h3 className="text-xl font-semibold text-gray-900 mb-4">Issues Found</h3>
-                
-                {result.errors.length > 0 && (
-                  <div className="mb-4">
-                    <h4 className="text-lg font-medium text-red-700 mb-2">Errors</h4>
-                    <ul className="space-y-1 text-sm text-red-600">
-                      {result.errors.map((error, index) => (
-                        <li key={index} className="flex items-start">
-                          <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
-                          {error}
-                        </li>
-                      ))}
-                    </ul>
+                    ))}
                   </div>
                 )}
 
-                {result.warnings.length > 0 && (
-                  <div>
-                    <h4 className="text-lg font-medium text-yellow-700 mb-2">Warnings</h4>
-                    <ul className="space-y-1 text-sm text-yellow-600">
-                      {result.warnings.map((warning, index) => (
-                        <li key={index} className="flex items-start">
-                          <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
-                          {warning}
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                )}
+                <VirtualList
+                  items={activeStyle.inText}
+                  estimatedHeight={112}
+                  maxHeight={720}
+                  getKey={entry => entry.id}
+                  itemClassName="pb-3"
+                  renderItem={entry => (
+                    <label className={`flex items-start p-4 rounded-lg cursor-pointer transition-colors ${
+                      selectedInText.includes(entry.id) ? 'bg-blue-50 ring-1 ring-blue-300' : 'bg-gray-50 hover:bg-gray-100'
+                    }`}>
+                      <input
+                        type="checkbox"
+                        checked={selectedInText.includes(entry.id)}
+                        onChange={() => toggleInTextSelection(entry.id)}
+                        className="mt-1 mr-3 h-4 w-4 text-blue-600 rounded border-gray-300"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-gray-500 mb-1 truncate">
+                          Row {entry.row}: {entry.title}
+                          {entry.locator && <span className="ml-2 text-xs text-gray-400">({entry.locator.label} {entry.locator.locator})</span>}
+                        </div>
+                        {(['parenthetical', 'narrative'] as const).map(form => (
+                          <div key={form} className="flex items-start justify-between text-sm">
+                            <div>
+                              <span className="text-gray-500 capitalize">{form}: </span>
+                              <span className="text-gray-900">{entry[form]}</span>
+                            </div>
+                            <button
+                              onClick={(e) => { e.preventDefault(); copyToClipboard(entry[form]); }}
+                              className="ml-4 p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                              title="Copy to clipboard"
+                            >
+                              <Copy className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </label>
+                  )}
+                />
               </div>
             )}
+
+            {result.items.length > 0 && (
+              <ItemEditorGrid
+                items={result.items}
+                style={activeStyle}
+                issues={result.issues}
+                editErrors={editErrors}
+                onEdit={handleItemEdit}
+                readOnly={!isLiveRun}
+              />
+            )}
+
+            {/* Compare Runs */}
+            {result.success && (
+              <RunComparisonPanel
+                runs={projectRuns.filter(run => run.id !== activeRunId)}
+                onCompareRun={handleCompareRun}
+                onUpload={handleCompareUpload}
+                onClear={() => setComparisonBase(null)}
+                isComparing={isComparing}
+                comparedWith={comparisonBase?.label ?? null}
+                comparison={comparison}
+              />
+            )}
+
+            {/* Errors and Warnings */}
+            <IssuesPanel
+              issues={result.issues}
+              errors={result.errors}
+              warnings={result.warnings}
+              items={result.items}
+              onApplyFix={handleApplyFix}
+              readOnly={!isLiveRun}
+            />
           </div>
         )}
       </div>
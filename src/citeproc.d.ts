@@ -0,0 +1,31 @@
+/** The parts of citeproc-js used by the app. The package ships without type declarations. */
+declare module 'citeproc' {
+  interface CiteprocSys {
+    retrieveLocale: (lang: string) => string;
+    retrieveItem: (id: string) => unknown;
+  }
+
+  interface BibliographyMeta {
+    entry_ids: string[][];
+    bibstart: string;
+    bibend: string;
+    [key: string]: unknown;
+  }
+
+  interface BibliographySelection {
+    select?: Array<{ field: string; value: string }>;
+    include?: Array<{ field: string; value: string }>;
+    exclude?: Array<{ field: string; value: string }>;
+  }
+
+  class Engine {
+    constructor(sys: CiteprocSys, style: string, lang?: string, forceLang?: boolean);
+    updateItems(ids: string[]): void;
+    makeBibliography(selection?: BibliographySelection): [BibliographyMeta, string[]] | false;
+    makeCitationCluster(items: Array<Record<string, unknown>>): string;
+    getTerm(term: string): string;
+  }
+
+  const CSL: { Engine: typeof Engine };
+  export default CSL;
+}
@@ -0,0 +1,72 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UsageError, detectOutputFormat, main, resolveStyle } from './main';
+
+describe('resolveStyle', () => {
+  it('finds bundled styles by id or file name', () => {
+    expect(resolveStyle('apa').id).toBe('apa');
+    expect(resolveStyle('apa.csl').id).toBe('apa');
+  });
+
+  it('rejects unknown styles as a usage error', () => {
+    expect(() => resolveStyle('no-such-style')).toThrow(UsageError);
+  });
+});
+
+describe('detectOutputFormat', () => {
+  it('prefers --format, then the --out extension, then CSV', () => {
+    expect(detectOutputFormat('json', 'refs.html')).toBe('json');
+    expect(detectOutputFormat(undefined, 'refs.htm')).toBe('html');
+    expect(detectOutputFormat(undefined, 'refs.JSON')).toBe('json');
+    expect(detectOutputFormat(undefined, undefined)).toBe('csv');
+  });
+
+  it('rejects other formats', () => {
+    expect(() => detectOutputFormat(undefined, 'refs.docx')).toThrow(UsageError);
+  });
+});
+
+describe('main', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'citegen-'));
+    vi.spyOn(process.stderr, 'write').mockReturnValue(true);
+    vi.spyOn(process.stdout, 'write').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('renders a CSV sheet with a bundled style to the --out file', () => {
+    const input = join(dir, 'refs.csv');
+    const out = join(dir, 'refs.json');
+    writeFileSync(input, 'Type,Title,Authors,Year,Publisher\nBook,Deep work,"Newport, Cal",2016,Grand Central\n');
+
+    expect(main([input, '--style', 'apa.csl', '--out', out])).toBe(0);
+    const result = JSON.parse(readFileSync(out, 'utf8'));
+    expect(result.styles[0].formattedCitations[0]).toContain('Newport, C. (2016)');
+  });
+
+  it('exits with 1 when a row fails validation, still writing the others', () => {
+    const input = join(dir, 'refs.csv');
+    const out = join(dir, 'refs.json');
+    writeFileSync(input, 'Type,Title,Authors,Year,Publisher\nBook,Deep work,"Newport, Cal",2016,Grand Central\nBook,,,,\n');
+
+    expect(main([input, '--out', out])).toBe(1);
+    const result = JSON.parse(readFileSync(out, 'utf8'));
+    expect(result.styles[0].formattedCitations).toHaveLength(1);
+    expect(process.stderr.write).toHaveBeenCalledWith(expect.stringMatching(/^error: row 2/));
+  });
+
+  it('exits with 2 on a usage error', () => {
+    expect(main([])).toBe(2);
+    expect(main([join(dir, 'refs.csv'), '--style', 'no-such-style'])).toBe(2);
+    expect(main(['--no-such-option'])).toBe(2);
+    expect(process.stderr.write).toHaveBeenCalledWith(expect.stringContaining('Usage: citegen'));
+  });
+});
@@ -0,0 +1,173 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  BUNDLED_LOCALES,
+  BUNDLED_STYLES,
+  DEFAULT_STYLE_ID,
+  SOURCE_TAB_COLUMN,
+  citationsToHtml,
+  combineSheets,
+  groupByTab,
+  isWorkbookFile,
+  parseCsv,
+  parseCustomStyle,
+  readWorkbook,
+  rowsToCslItems,
+  runGeneration,
+  suggestMapping,
+  toCsv,
+  withBibliographyColumns,
+  type CitationStyle,
+  type ColumnMapping,
+  type CsvRow,
+  type GenerationResult
+} from '../lib';
+import { cslItemsToRows, detectFormat, importReferences } from '../lib/importers';
+
+type OutputFormat = 'csv' | 'json' | 'html';
+
+const USAGE = `Usage: citegen <input> [options]
+
+Converts a CSV sheet, an .xlsx/.ods workbook or a BibTeX, RIS, CSL-JSON or
+PubMed export into citations.
+
+Options:
+  -s, --style <id|file.csl>  Style to render; repeat for several (default: ${DEFAULT_STYLE_ID})
+  -l, --locale <tag>         Locale for terms and dates, e.g. fr-FR (default: the style's own)
+  -m, --mapping <file.json>  Column mapping for sheet input (default: suggested from the headers)
+  -t, --sheet <name>         Workbook tab to read; repeat for several (default: every tab)
+  -o, --out <file>           Output file (default: standard output)
+  -f, --format <format>      csv, json or html (default: from --out, else csv)
+  -b, --bibliography         Add a column per style with its bibliography in the style's order (CSV)
+  -h, --help                 Show this help
+
+Bundled styles: ${BUNDLED_STYLES.map(style => style.id).join(', ')}
+Bundled locales: ${BUNDLED_LOCALES.map(locale => locale.id).join(', ')}
+`;
+
+export class UsageError extends Error {}
+
+/** A path to a .csl file wins over a bundled style of the same name. */
+export const resolveStyle = (value: string): CitationStyle => {
+  if (existsSync(value)) return parseCustomStyle(readFileSync(value, 'utf8'), basename(value));
+  const bundled = BUNDLED_STYLES.find(style => style.id === value || `${style.id}.csl` === value);
+  if (!bundled) throw new UsageError(`Unknown style "${value}": not a bundled style id or a readable .csl file`);
+  return bundled;
+};
+
+export const detectOutputFormat = (format: string | undefined, out: string | undefined): OutputFormat => {
+  const chosen = format ?? (out ? extname(out).slice(1).toLowerCase().replace(/^htm$/, 'html') : 'csv');
+  if (chosen === 'csv' || chosen === 'json' || chosen === 'html') return chosen;
+  throw new UsageError(`Unsupported output format "${chosen}"; use csv, json or html`);
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** One bibliography, or one per sheet tab when the rows came from a workbook. */
+const renderBibliographyHtml = (result: GenerationResult, style: GenerationResult['styles'][number]): string => {
+  const indexes = style.formattedCitations.map((_, index) => index);
+  const tabOf = (index: number): string | undefined => result.csvData[Number(style.ids[index]?.replace('item_', '')) - 1]?.[SOURCE_TAB_COLUMN];
+  if (!indexes.some(tabOf)) return citationsToHtml(style.formattedCitations);
+  return groupByTab(indexes, tabOf)
+    .map(({ tab, entries }) => `<h3>${escapeHtml(tab)}</h3>\n${citationsToHtml(entries.map(index => style.formattedCitations[index]))}`)
+    .join('\n');
+};
+
+const renderOutput = (result: GenerationResult, format: OutputFormat, bibliography: boolean): string => {
+  switch (format) {
+    case 'csv':
+      return `${toCsv(bibliography ? withBibliographyColumns(result.csvData, result.styles) : result.csvData)}\n`;
+    case 'json':
+      return `${JSON.stringify({
+        items: result.items,
+        styles: result.styles,
+        issues: result.issues,
+        errors: result.errors,
+        warnings: result.warnings
+      }, null, 2)}\n`;
+    case 'html': {
+      const sections = result.styles.map(style =>
+        `<section>\n<h2>${escapeHtml(style.title)}</h2>\n${renderBibliographyHtml(result, style)}\n</section>`
+      );
+      return `<!doctype html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>References</title>\n</head>\n<body>\n${sections.join('\n')}\n</body>\n</html>\n`;
+    }
+  }
+};
+
+const readSheets = (path: string, tabs: string[] | undefined): { rows: CsvRow[]; headers: string[] } => {
+  const sheets = readWorkbook(readFileSync(path));
+  const unknown = (tabs ?? []).filter(tab => !sheets.some(sheet => sheet.name === tab));
+  if (unknown.length) {
+    throw new UsageError(`No tab named ${unknown.map(tab => `"${tab}"`).join(', ')} in ${path}; it has ${sheets.map(sheet => `"${sheet.name}"`).join(', ')}`);
+  }
+  return combineSheets(tabs ? sheets.filter(sheet => tabs.includes(sheet.name)) : sheets);
+};
+
+const run = (argv: string[]): number => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      style: { type: 'string', short: 's', multiple: true },
+      locale: { type: 'string', short: 'l' },
+      mapping: { type: 'string', short: 'm' },
+      sheet: { type: 'string', short: 't', multiple: true },
+      out: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      bibliography: { type: 'boolean', short: 'b' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) throw new UsageError('Expected exactly one input file');
+
+  const input = positionals[0];
+  const inputFormat = isWorkbookFile(input) ? 'workbook' : detectFormat(input);
+  if (!inputFormat) throw new UsageError(`Cannot tell the format of ${input} from its extension`);
+  const format = detectOutputFormat(values.format, values.out);
+  const styles = (values.style ?? [DEFAULT_STYLE_ID]).map(resolveStyle);
+
+  let generation;
+  if (inputFormat === 'csv' || inputFormat === 'workbook') {
+    const { rows, headers } = inputFormat === 'csv' ? parseCsv(readFileSync(input, 'utf8')) : readSheets(input, values.sheet);
+    const mapping: ColumnMapping = values.mapping
+      ? JSON.parse(readFileSync(values.mapping, 'utf8'))
+      : suggestMapping(headers);
+    const { items, locators, warnings } = rowsToCslItems(rows, mapping);
+    generation = runGeneration({ items, rows, mapping, styles, locale: values.locale ?? null, locators, warnings });
+  } else {
+    const { items, warnings } = importReferences(readFileSync(input, 'utf8'), inputFormat);
+    generation = runGeneration({ items, rows: cslItemsToRows(items), styles, locale: values.locale ?? null, warnings });
+  }
+
+  const { result } = generation;
+  const output = renderOutput(result, format, values.bibliography ?? false);
+  if (values.out) writeFileSync(values.out, output);
+  else process.stdout.write(output);
+
+  for (const warning of result.warnings) process.stderr.write(`warning: ${warning}\n`);
+  for (const issue of result.issues) {
+    process.stderr.write(`${issue.severity}: row ${issue.row}${issue.column ? ` (${issue.column})` : ''}: ${issue.message}\n`);
+  }
+  for (const error of result.errors) process.stderr.write(`error: ${error}\n`);
+  const failedRows = result.issues.some(issue => issue.severity === 'error');
+  return result.success && result.errors.length === 0 && !failedRows ? 0 : 1;
+};
+
+/** Runs citegen and returns its exit code: 0 on success, 1 on failed rows or errors, 2 on a usage error. */
+export const main = (argv: string[]): number => {
+  try {
+    return run(argv);
+  } catch (error) {
+    const usage = error instanceof UsageError || String((error as NodeJS.ErrnoException).code).startsWith('ERR_PARSE_ARGS');
+    process.stderr.write(`citegen: ${error instanceof Error ? error.message : error}\n`);
+    if (usage) process.stderr.write(`\n${USAGE}`);
+    return usage ? 2 : 1;
+  }
+};
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Columns3, Save, Sparkles, Trash2 } from 'lucide-react';
+import {
+  MAPPABLE_FIELDS,
+  applyPreset,
+  deletePreset,
+  loadPresets,
+  savePreset,
+  suggestField,
+  suggestMapping,
+  type ColumnMapping,
+  type MappableField,
+  type MappingPreset,
+} from '../lib/columnMapping';
+import type { CsvRow } from '../lib/types';
+
+interface ColumnMappingPanelProps {
+  headers: string[];
+  rows: CsvRow[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+const ColumnMappingPanel: React.FC<ColumnMappingPanelProps> = ({ headers, rows, mapping, onChange }) => {
+  const [presets, setPresets] = useState<MappingPreset[]>(() => loadPresets());
+  const [presetName, setPresetName] = useState('');
+  const [selectedPreset, setSelectedPreset] = useState('');
+
+  const sampleValue = (header: string): string => rows.find(row => row[header]?.trim())?.[header]?.trim() ?? '';
+  const mappedCount = headers.filter(header => mapping[header]).length;
+
+  const handleFieldChange = (header: string, value: string): void => {
+    onChange({ ...mapping, [header]: value ? (value as MappableField) : null });
+  };
+
+  const handleApplyPreset = (name: string): void => {
+    setSelectedPreset(name);
+    const preset = presets.find(p => p.name === name);
+    if (preset) {
+      onChange(applyPreset(headers, preset));
+      setPresetName(preset.name);
+    }
+  };
+
+  const handleSavePreset = (): void => {
+    const name = presetName.trim();
+    if (!name) return;
+    setPresets(savePreset(name, mapping));
+    setSelectedPreset(name);
+  };
+
+  const handleDeletePreset = (): void => {
+    if (!selectedPreset) return;
+    setPresets(deletePreset(selectedPreset));
+    setSelectedPreset('');
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Columns3 className="w-5 h-5 mr-2 text-blue-600" />
+            Column Mapping
+          </h3>
+          <p className="text-sm text-gray-500">
+            {mappedCount} of {headers.length} columns mapped from {rows.length} rows. Ignored columns are left out of the citations.
+          </p>
+        </div>
+        <button
+          onClick={() => onChange(suggestMapping(headers))}
+          className="inline-flex items-center px-3 py-1.5 text-sm text-blue-600 bg-blue-50 rounded-md hover:bg-blue-100 transition-colors"
+        >
+          <Sparkles className="w-4 h-4 mr-1.5" />
+          Reset to suggestions
+        </button>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-4 py-2 font-medium">Sheet column</th>
+              <th className="px-4 py-2 font-medium">Sample value</th>
+              <th className="px-4 py-2 font-medium">CSL-JSON variable</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {headers.map(header => {
+              const suggested = suggestField(header);
+              const current = mapping[header] ?? null;
+              return (
+                <tr key={header} className={current ? '' : 'bg-gray-50/60 text-gray-400'}>
+                  <td className="px-4 py-2 font-medium text-gray-800">{header}</td>
+                  <td className="px-4 py-2 max-w-xs truncate" title={sampleValue(header)}>
+                    {sampleValue(header) || <em className="text-gray-400">empty</em>}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={current ?? ''}
+                        onChange={(e) => handleFieldChange(header, e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Ignore column</option>
+                        <optgroup label="Common fields">
+                          {MAPPABLE_FIELDS.filter(({ advanced }) => !advanced).map(({ field, label }) => (
+                            <option key={field} value={field}>{label}</option>
+                          ))}
+                        </optgroup>
+                        <optgroup label="Other CSL variables">
+                          {MAPPABLE_FIELDS.filter(({ advanced }) => advanced).map(({ field, label }) => (
+                            <option key={field} value={field}>{label}</option>
+                          ))}
+                        </optgroup>
+                      </select>
+                      {suggested && suggested === current && (
+                        <span className="text-xs text-blue-600 bg-blue-50 px-2 py-0.5 rounded-full">suggested</span>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 flex flex-col md:flex-row gap-3">
+        <select
+          value={selectedPreset}
+          onChange={(e) => handleApplyPreset(e.target.value)}
+          className="md:w-64 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">{presets.length ? 'Apply a saved preset…' : 'No saved presets'}</option>
+          {presets.map(preset => (
+            <option key={preset.name} value={preset.name}>{preset.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name, e.g. Reading list layout"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={handleSavePreset}
+          disabled={!presetName.trim()}
+          className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          Save preset
+        </button>
+        <button
+          onClick={handleDeletePreset}
+          disabled={!selectedPreset}
+          className="inline-flex items-center justify-center px-4 py-2 text-sm text-red-600 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Trash2 className="w-4 h-4 mr-2" />
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingPanel;
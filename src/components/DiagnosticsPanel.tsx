@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, Download, Filter } from 'lucide-react';
+import { EMPTY_LOG_FILTER, LOG_LEVELS, LOG_STAGES, matchesLogFilter, type LogFilter } from '../lib/diagnostics';
+import type { LogEntry, LogLevel, LogStage } from '../lib/types';
+import VirtualList from './VirtualList';
+
+interface DiagnosticsPanelProps {
+  entries: LogEntry[];
+  /** Downloads the whole log, whatever the filters show. */
+  onDownload: () => void;
+}
+
+const LEVEL_CLASSES: Record<LogLevel, string> = {
+  debug: 'bg-gray-100 text-gray-600 border-gray-200',
+  info: 'bg-blue-50 text-blue-700 border-blue-200',
+  success: 'bg-green-50 text-green-700 border-green-200',
+  warning: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+  error: 'bg-red-50 text-red-700 border-red-200',
+};
+
+/** The diagnostics log of the last load or run, filterable down to one row's trace. */
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ entries, onDownload }) => {
+  const [filter, setFilter] = useState<LogFilter>(EMPTY_LOG_FILTER);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  // A new load or run starts a new log, whose entries reuse the old indexes.
+  const firstEntry = entries[0];
+  useEffect(() => setExpanded(new Set()), [firstEntry]);
+
+  const shown = entries.map((entry, index) => ({ entry, index })).filter(({ entry }) => matchesLogFilter(entry, filter));
+  const levelCounts = Object.fromEntries(LOG_LEVELS.map(level => [level, entries.filter(entry => entry.level === level).length]));
+
+  const toggleLevel = (level: LogLevel): void => {
+    setFilter(prev => ({
+      ...prev,
+      levels: prev.levels.includes(level) ? prev.levels.filter(other => other !== level) : [...prev.levels, level]
+    }));
+  };
+
+  const toggleExpanded = (index: number): void => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-gray-200 p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900">Debug Information</h3>
+          <p className="text-sm text-gray-500">
+            {entries.length} log entries. Filter by row to trace it from parsing to rendering; attach the JSON log to bug reports.
+          </p>
+        </div>
+        <button
+          onClick={onDownload}
+          disabled={entries.length === 0}
+          className="inline-flex items-center justify-center px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          Download log (JSON)
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        <Filter className="w-4 h-4 text-gray-400" />
+        {LOG_LEVELS.map(level => (
+          <button
+            key={level}
+            onClick={() => toggleLevel(level)}
+            className={`px-2 py-0.5 text-xs rounded border transition-colors ${
+              filter.levels.includes(level) ? LEVEL_CLASSES[level] : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            {level} ({levelCounts[level]})
+          </button>
+        ))}
+        <select
+          value={filter.stage ?? ''}
+          onChange={(e) => setFilter(prev => ({ ...prev, stage: (e.target.value || null) as LogStage | null }))}
+          className="ml-2 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All stages</option>
+          {LOG_STAGES.map(stage => (
+            <option key={stage} value={stage}>{stage}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={filter.row ?? ''}
+          onChange={(e) => setFilter(prev => ({ ...prev, row: e.target.value ? parseInt(e.target.value, 10) : null }))}
+          placeholder="Row"
+          className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {(filter.levels.length > 0 || filter.stage || filter.row !== null) && (
+          <button onClick={() => setFilter(EMPTY_LOG_FILTER)} className="text-xs text-blue-600 hover:underline">
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="bg-gray-50 rounded-md p-4 text-sm text-gray-500">No log entries match these filters.</p>
+      ) : (
+        <VirtualList
+          items={shown}
+          estimatedHeight={28}
+          maxHeight={384}
+          getKey={({ index }) => String(index)}
+          className="bg-gray-50 rounded-md p-2"
+          itemClassName="py-0.5"
+          renderItem={({ entry, index }) => (
+            <div className="text-xs text-gray-700 font-mono">
+              <div className="flex items-start gap-2">
+                {entry.payload !== undefined ? (
+                  <button onClick={() => toggleExpanded(index)} className="text-gray-400 hover:text-gray-700" title="Show details">
+                    {expanded.has(index) ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                  </button>
+                ) : (
+                  <span className="w-3.5 shrink-0" />
+                )}
+                <span className="text-gray-400 shrink-0">{new Date(entry.time).toLocaleTimeString()}</span>
+                <span className={`px-1.5 rounded border shrink-0 ${LEVEL_CLASSES[entry.level]}`}>{entry.level}</span>
+                {entry.stage && <span className="text-gray-500 shrink-0">{entry.stage}</span>}
+                {entry.row !== undefined && (
+                  <button
+                    onClick={() => setFilter(prev => ({ ...prev, row: entry.row ?? null }))}
+                    className="text-blue-600 hover:underline shrink-0"
+                    title="Show only this row"
+                  >
+                    row {entry.row}
+                  </button>
+                )}
+                <span className="whitespace-pre-wrap break-words min-w-0">{entry.message}</span>
+              </div>
+              {expanded.has(index) && (
+                <pre className="ml-6 mt-1 p-2 bg-white border border-gray-200 rounded whitespace-pre-wrap break-words">
+                  {JSON.stringify(entry.payload, null, 2)}
+                </pre>
+              )}
+            </div>
+          )}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { CopyCheck, Merge } from 'lucide-react';
+import { mergeableFields, type DuplicateGroup, type MergeSelection } from '../lib/duplicates';
+import { formatDate } from '../lib/importers';
+import { formatName } from '../lib/names';
+import type { CslDate, CslItem, CslName } from '../lib/types';
+
+interface DuplicatesPanelProps {
+  onRun: () => void;
+  groups: DuplicateGroup[] | null;
+  items: Record<string, CslItem>;
+  /** Ids of the groups that will be merged when generating. */
+  accepted: Set<string>;
+  onAcceptedChange: (accepted: Set<string>) => void;
+  selections: Record<string, MergeSelection>;
+  onSelect: (groupId: string, field: string, itemId: string) => void;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '';
+  if (Array.isArray(value)) return (value as CslName[]).map(formatName).join('; ');
+  if (typeof value === 'object' && value !== null) return formatDate(value as CslDate);
+  return String(value);
+};
+
+const describeGroup = (group: DuplicateGroup): string => {
+  switch (group.reason) {
+    case 'doi':
+      return 'Same DOI';
+    case 'url':
+      return 'Same URL';
+    case 'similar':
+      return `Similar title, same first author and year (${Math.round((group.similarity ?? 1) * 100)}%)`;
+  }
+};
+
+const rowLabel = (id: string): string => id.replace('item_', '');
+
+const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({
+  onRun, groups, items, accepted, onAcceptedChange, selections, onSelect,
+}) => {
+  const toggle = (id: string): void => {
+    const next = new Set(accepted);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    onAcceptedChange(next);
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <CopyCheck className="w-5 h-5 mr-2 text-blue-600" />
+            Duplicates (Optional)
+          </h3>
+          <p className="text-sm text-gray-500">Find sources entered more than once and merge them into one entry, choosing each field's value.</p>
+        </div>
+        <button
+          onClick={onRun}
+          className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition-colors"
+        >
+          <CopyCheck className="w-4 h-4 mr-2" />
+          Find duplicates
+        </button>
+      </div>
+
+      {groups && (
+        groups.length === 0 ? (
+          <p className="text-sm text-gray-500">No duplicate sources found.</p>
+        ) : (
+          <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+            <p className="text-sm text-gray-600">
+              {accepted.size} of {groups.length} groups will be merged. The lowest row is kept; the others point to it in the results CSV.
+            </p>
+            {groups.map(group => {
+              const members = group.itemIds.map(id => items[id]).filter((item): item is CslItem => Boolean(item));
+              const isAccepted = accepted.has(group.id);
+              return (
+                <div key={group.id} className="border border-gray-200 rounded-lg p-3">
+                  <label className="flex items-center text-sm font-medium text-gray-800 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isAccepted}
+                      onChange={() => toggle(group.id)}
+                      className="mr-2 h-4 w-4 text-blue-600 rounded border-gray-300"
+                    />
+                    <Merge className="w-4 h-4 mr-1.5 text-gray-500" />
+                    Merge rows {group.itemIds.map(rowLabel).join(', ')}
+                    <span className="ml-2 text-xs font-normal text-gray-400">{describeGroup(group)}</span>
+                  </label>
+                  {isAccepted && (
+                    <div className="mt-2 overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs text-gray-500">
+                            <th className="py-1 pr-3 font-medium w-36">Field</th>
+                            {members.map(item => (
+                              <th key={item.id} className="py-1 pr-3 font-medium">Row {rowLabel(item.id)}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {mergeableFields(members).map(field => {
+                            const values = members.map(item => formatValue(item[field]));
+                            const conflicting = new Set(values.filter(Boolean)).size > 1;
+                            return (
+                              <tr key={field} className={conflicting ? '' : 'text-gray-400'}>
+                                <td className="py-1 pr-3 font-mono text-xs text-gray-500">{field}</td>
+                                {members.map((item, index) => (
+                                  <td key={item.id} className="py-1 pr-3 align-top">
+                                    {values[index] && (
+                                      <label className="inline-flex items-start cursor-pointer">
+                                        <input
+                                          type="radio"
+                                          name={`${group.id}:${field}`}
+                                          checked={selections[group.id]?.[field] === item.id}
+                                          onChange={() => onSelect(group.id, field, item.id)}
+                                          className="mt-1 mr-1.5 h-3.5 w-3.5 text-blue-600 border-gray-300"
+                                        />
+                                        <span className={selections[group.id]?.[field] === item.id && conflicting ? 'text-emerald-700' : ''}>
+                                          {values[index]}
+                                        </span>
+                                      </label>
+                                    )}
+                                  </td>
+                                ))}
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default DuplicatesPanel;
@@ -0,0 +1,170 @@
+import React, { useRef } from 'react';
+import { CheckCheck, FileJson, Loader2, Search, XCircle } from 'lucide-react';
+import { changeKey, type EnrichmentProposal, type FieldChange } from '../lib/enrichment';
+import { formatName } from '../lib/names';
+import type { CslDate, CslItem, CslName } from '../lib/types';
+
+export interface EnrichmentOptions {
+  doi: boolean;
+  isbn: boolean;
+}
+
+interface EnrichmentPanelProps {
+  options: EnrichmentOptions;
+  onOptionsChange: (options: EnrichmentOptions) => void;
+  fixtureName: string | null;
+  onFixtureUpload: (file: File) => void;
+  onRun: () => void;
+  isRunning: boolean;
+  progress: { done: number; total: number } | null;
+  proposals: EnrichmentProposal[] | null;
+  items: Record<string, CslItem>;
+  accepted: Set<string>;
+  onAcceptedChange: (accepted: Set<string>) => void;
+}
+
+const formatValue = (value: FieldChange['value']): string => {
+  if (Array.isArray(value)) return (value as CslName[]).map(formatName).join('; ');
+  if (value && typeof value === 'object') {
+    const date = value as CslDate;
+    return date.literal ?? (date['date-parts'] ?? []).map(parts => parts.join('-')).join(' – ');
+  }
+  return String(value ?? '');
+};
+
+const EnrichmentPanel: React.FC<EnrichmentPanelProps> = ({
+  options, onOptionsChange, fixtureName, onFixtureUpload, onRun, isRunning, progress, proposals, items, accepted, onAcceptedChange,
+}) => {
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+  const allKeys = (proposals ?? []).flatMap(proposal => proposal.changes.map(change => changeKey(proposal.itemId, change.field)));
+
+  const toggle = (key: string): void => {
+    const next = new Set(accepted);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    onAcceptedChange(next);
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Search className="w-5 h-5 mr-2 text-blue-600" />
+            Metadata Enrichment (Optional)
+          </h3>
+          <p className="text-sm text-gray-500">Fill missing fields from DOI and ISBN lookups. Existing values are never overwritten.</p>
+        </div>
+        <button
+          onClick={onRun}
+          disabled={isRunning || (!options.doi && !options.isbn && !fixtureName)}
+          className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Search className="w-4 h-4 mr-2" />}
+          {isRunning && progress ? `Looking up ${progress.done}/${progress.total}…` : 'Look up missing metadata'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+        <label className="inline-flex items-center">
+          <input
+            type="checkbox"
+            checked={options.doi}
+            onChange={(e) => onOptionsChange({ ...options, doi: e.target.checked })}
+            className="mr-2 h-4 w-4 text-blue-600 rounded border-gray-300"
+          />
+          DOI (Crossref / DataCite)
+        </label>
+        <label className="inline-flex items-center">
+          <input
+            type="checkbox"
+            checked={options.isbn}
+            onChange={(e) => onOptionsChange({ ...options, isbn: e.target.checked })}
+            className="mr-2 h-4 w-4 text-blue-600 rounded border-gray-300"
+          />
+          ISBN (Open Library)
+        </label>
+        <input
+          ref={fixtureInputRef}
+          type="file"
+          accept=".json"
+          onChange={(e) => e.target.files?.[0] && onFixtureUpload(e.target.files[0])}
+          className="hidden"
+        />
+        <button
+          onClick={() => fixtureInputRef.current?.click()}
+          className="inline-flex items-center px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+        >
+          <FileJson className="w-4 h-4 mr-1.5" />
+          {fixtureName ? `Offline data: ${fixtureName}` : 'Use offline JSON data'}
+        </button>
+      </div>
+
+      {proposals && (
+        <div className="mt-4">
+          {proposals.length === 0 ? (
+            <p className="text-sm text-gray-500">No missing fields could be filled from the selected sources.</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm text-gray-600">
+                  {accepted.size} of {allKeys.length} proposed values accepted across {proposals.length} rows.
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onAcceptedChange(new Set(allKeys))}
+                    className="inline-flex items-center px-3 py-1 text-xs text-emerald-700 bg-emerald-50 rounded-md hover:bg-emerald-100 transition-colors"
+                  >
+                    <CheckCheck className="w-3.5 h-3.5 mr-1" />
+                    Accept all
+                  </button>
+                  <button
+                    onClick={() => onAcceptedChange(new Set())}
+                    className="inline-flex items-center px-3 py-1 text-xs text-red-600 bg-red-50 rounded-md hover:bg-red-100 transition-colors"
+                  >
+                    <XCircle className="w-3.5 h-3.5 mr-1" />
+                    Reject all
+                  </button>
+                </div>
+              </div>
+              <div className="space-y-3 max-h-96 overflow-y-auto">
+                {proposals.map(proposal => (
+                  <div key={proposal.itemId} className="border border-gray-200 rounded-lg p-3">
+                    <div className="text-sm font-medium text-gray-800 mb-2">
+                      Row {proposal.itemId.replace('item_', '')}: {items[proposal.itemId]?.title || <em className="text-gray-400">untitled</em>}
+                      <span className="ml-2 text-xs text-gray-400">via {proposal.resolverLabel}</span>
+                    </div>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {proposal.changes.map(change => {
+                          const key = changeKey(proposal.itemId, change.field);
+                          return (
+                            <tr key={key} className={accepted.has(key) ? '' : 'text-gray-400'}>
+                              <td className="py-1 pr-3 w-8">
+                                <input
+                                  type="checkbox"
+                                  checked={accepted.has(key)}
+                                  onChange={() => toggle(key)}
+                                  className="h-4 w-4 text-blue-600 rounded border-gray-300"
+                                />
+                              </td>
+                              <td className="py-1 pr-3 font-mono text-xs text-gray-500 w-36">{change.field}</td>
+                              <td className="py-1 pr-3 text-red-400 line-through w-16">empty</td>
+                              <td className={`py-1 ${accepted.has(key) ? 'text-emerald-700' : ''}`}>{formatValue(change.value)}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnrichmentPanel;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, Info, Wand2 } from 'lucide-react';
+import { groupIssuesByRow } from '../lib/lint';
+import type { CslItem, IssueSeverity, ReferenceIssue } from '../lib/types';
+
+interface IssuesPanelProps {
+  issues: ReferenceIssue[];
+  /** Failures not tied to a row. */
+  errors: string[];
+  warnings: string[];
+  items: CslItem[];
+  onApplyFix: (issue: ReferenceIssue) => void;
+  /** Fixes cannot be applied, e.g. to a saved run whose items can no longer be re-rendered. */
+  readOnly?: boolean;
+}
+
+const SEVERITY_STYLES: Record<IssueSeverity, { icon: typeof AlertCircle; text: string }> = {
+  error: { icon: AlertCircle, text: 'text-red-600' },
+  warning: { icon: AlertTriangle, text: 'text-yellow-700' },
+  info: { icon: Info, text: 'text-blue-600' },
+};
+
+const IssuesPanel: React.FC<IssuesPanelProps> = ({ issues, errors, warnings, items, onApplyFix, readOnly = false }) => {
+  if (issues.length === 0 && errors.length === 0 && warnings.length === 0) return null;
+  const titles = new Map(items.map(item => [item.id, item.title || 'Untitled']));
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-gray-200 p-6">
+      <h3 className="text-xl font-semibold text-gray-900 mb-4">Issues Found</h3>
+
+      {errors.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-lg font-medium text-red-700 mb-2">Errors</h4>
+          <ul className="space-y-1 text-sm text-red-600">
+            {errors.map((error, index) => (
+              <li key={index} className="flex items-start">
+                <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                {error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <div className="mb-4">
+          <h4 className="text-lg font-medium text-gray-800 mb-2">By row</h4>
+          <div className="space-y-3">
+            {groupIssuesByRow(issues).map(group => (
+              <div key={group.itemId} className="p-3 bg-gray-50 rounded-lg">
+                <div className="text-sm font-medium text-gray-700 mb-1 truncate">
+                  Row {group.row}: {titles.get(group.itemId) ?? 'Untitled'}
+                </div>
+                <ul className="space-y-1 text-sm">
+                  {group.issues.map(issue => {
+                    const { icon: Icon, text } = SEVERITY_STYLES[issue.severity];
+                    return (
+                      <li key={issue.ruleId} className={`flex items-start ${text}`}>
+                        <Icon className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                        <span className="flex-1">
+                          {issue.message}
+                          <span className="ml-2 text-xs text-gray-400">{issue.column ?? issue.field}</span>
+                        </span>
+                        {issue.fix && (
+                          <button
+                            onClick={() => onApplyFix(issue)}
+                            disabled={readOnly}
+                            title={readOnly ? 'Generate again to apply fixes' : undefined}
+                            className="ml-3 inline-flex items-center px-2 py-0.5 text-xs text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                          >
+                            <Wand2 className="w-3 h-3 mr-1" />
+                            {issue.fix.label}
+                          </button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {warnings.length > 0 && (
+        <div>
+          <h4 className="text-lg font-medium text-yellow-700 mb-2">Warnings</h4>
+          <ul className="space-y-1 text-sm text-yellow-600">
+            {warnings.map((warning, index) => (
+              <li key={index} className="flex items-start">
+                <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                {warning}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IssuesPanel;
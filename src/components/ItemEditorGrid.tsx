@@ -0,0 +1,147 @@
+import React, { useMemo } from 'react';
+import { AlertCircle, AlertTriangle, PencilLine } from 'lucide-react';
+import { CSL_TYPES, isCslType } from '../lib/cslSchema';
+import { EDITABLE_FIELDS, itemFieldText, type EditableField } from '../lib/itemEditing';
+import type { CslItem, ReferenceIssue, StyleResult } from '../lib/types';
+import VirtualList from './VirtualList';
+
+interface ItemEditorGridProps {
+  items: CslItem[];
+  /** The style whose citation is previewed under each row. */
+  style: StyleResult | undefined;
+  /** Lint issues of every item; errors and warnings are shown under their row. */
+  issues: ReferenceIssue[];
+  /** Parse errors from the last edit of a cell, keyed by `${id}:${field}`. */
+  editErrors: Record<string, string>;
+  onEdit: (id: string, field: EditableField, text: string) => void;
+  /** Cells cannot be edited, e.g. in a saved run whose items can no longer be re-rendered. */
+  readOnly?: boolean;
+}
+
+/** Rows are separate flex lines rather than one table, so cells get fixed widths to stay in columns. */
+const fieldWidth = (field: EditableField): string => {
+  if (field === 'type') return 'w-36';
+  return field === 'title' || field === 'author' || field === 'container-title' ? 'w-48' : 'w-24';
+};
+
+const ItemEditorGrid: React.FC<ItemEditorGridProps> = ({ items, style, issues, editErrors, onEdit, readOnly = false }) => {
+  const issuesByItem = useMemo(() => {
+    const grouped = new Map<string, ReferenceIssue[]>();
+    for (const issue of issues) grouped.set(issue.itemId, [...(grouped.get(issue.itemId) ?? []), issue]);
+    return grouped;
+  }, [issues]);
+  const entryIndexes = useMemo(() => new Map((style?.ids ?? []).map((id, index) => [id, index])), [style]);
+
+  // Cells are uncontrolled and keyed by their value, so a committed edit resets them to the parsed text.
+  const commit = (item: CslItem, field: EditableField, input: HTMLInputElement): void => {
+    if (input.value !== itemFieldText(item, field)) onEdit(item.id, field, input.value);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-gray-200 p-6">
+      <div className="mb-4">
+        <h3 className="text-xl font-semibold text-gray-900 flex items-center">
+          <PencilLine className="w-5 h-5 mr-2 text-blue-600" />
+          Edit Items
+        </h3>
+        <p className="text-sm text-gray-500">
+          {readOnly
+            ? 'This is a saved run. Generate again to edit its entries.'
+            : 'Fix a field and press Enter or leave the cell; only that row is re-rendered. Separate authors with semicolons. The CSV download includes your corrections.'}
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <div className="min-w-max text-sm">
+          <div className="flex text-left text-gray-500 border-b border-gray-200">
+            <div className="w-10 py-2 pr-2 font-medium">Row</div>
+            {EDITABLE_FIELDS.map(({ field, label }) => (
+              <div key={field} className={`${fieldWidth(field)} box-content py-2 px-1 font-medium whitespace-nowrap`}>{label}</div>
+            ))}
+          </div>
+          <VirtualList
+            items={items}
+            estimatedHeight={72}
+            maxHeight={640}
+            getKey={item => item.id}
+            renderItem={item => {
+              const rowIssues = (issuesByItem.get(item.id) ?? []).filter(issue => issue.severity !== 'info');
+              const blocked = rowIssues.some(issue => issue.severity === 'error');
+              const entryIndex = entryIndexes.get(item.id);
+              const preview = style && entryIndex !== undefined ? style.formattedCitations[entryIndex] : null;
+              const cellErrors = EDITABLE_FIELDS
+                .map(({ field, label }) => editErrors[`${item.id}:${field}`] && `${label}: ${editErrors[`${item.id}:${field}`]}`)
+                .filter((error): error is string => Boolean(error));
+              return (
+                <div className={`border-b border-gray-100 ${blocked ? 'bg-red-50' : ''}`}>
+                  <div className="flex pt-2">
+                    <div className="w-10 pr-2 text-gray-500">{item.id.replace('item_', '')}</div>
+                    {EDITABLE_FIELDS.map(({ field, label }) => (
+                      <div key={field} className="box-content px-1">
+                        {field === 'type' ? (
+                          <select
+                            value={item.type}
+                            onChange={(e) => onEdit(item.id, 'type', e.target.value)}
+                            disabled={readOnly}
+                            className={`${fieldWidth(field)} px-1 py-1 border border-gray-300 rounded bg-white focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                            aria-label={`${label}, row ${item.id.replace('item_', '')}`}
+                          >
+                            {!isCslType(item.type) && <option value={item.type}>{item.type}</option>}
+                            {CSL_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                          </select>
+                        ) : (
+                          <input
+                            key={itemFieldText(item, field)}
+                            defaultValue={itemFieldText(item, field)}
+                            onBlur={(e) => commit(item, field, e.currentTarget)}
+                            readOnly={readOnly}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') e.currentTarget.blur();
+                              if (e.key === 'Escape') {
+                                e.currentTarget.value = itemFieldText(item, field);
+                                e.currentTarget.blur();
+                              }
+                            }}
+                            className={`${fieldWidth(field)} px-1 py-1 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                              editErrors[`${item.id}:${field}`] ? 'border-red-400' : 'border-gray-300'
+                            }`}
+                            aria-label={`${label}, row ${item.id.replace('item_', '')}`}
+                          />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="pl-10 pb-2 px-1">
+                    {cellErrors.map(problem => (
+                      <div key={problem} className="flex items-center text-xs text-red-600">
+                        <AlertCircle className="w-3 h-3 mr-1 flex-shrink-0" />
+                        {problem}
+                      </div>
+                    ))}
+                    {rowIssues.map(issue => (
+                      <div
+                        key={issue.ruleId}
+                        className={`flex items-center text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}`}
+                      >
+                        {issue.severity === 'error'
+                          ? <AlertCircle className="w-3 h-3 mr-1 flex-shrink-0" />
+                          : <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />}
+                        {issue.message}
+                      </div>
+                    ))}
+                    {preview ? (
+                      <div className="text-xs text-gray-700 font-serif" dangerouslySetInnerHTML={{ __html: preview }} />
+                    ) : (
+                      !blocked && <div className="text-xs text-gray-400">Not rendered in this style.</div>
+                    )}
+                  </div>
+                </div>
+              );
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ItemEditorGrid;
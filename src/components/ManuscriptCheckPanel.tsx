@@ -0,0 +1,130 @@
+import React, { useRef } from 'react';
+import { BookOpenCheck, FileSearch, FileUp, Loader2 } from 'lucide-react';
+import { MANUSCRIPT_ACCEPT, type CitationMismatch, type CrossCheckReport, type ManuscriptCitation } from '../lib/manuscript';
+
+interface ManuscriptCheckPanelProps {
+  text: string;
+  onTextChange: (text: string) => void;
+  fileName: string | null;
+  onUpload: (file: File) => void;
+  onRun: () => void;
+  isRunning: boolean;
+  report: CrossCheckReport | null;
+}
+
+const MISMATCH_LABELS: Record<CitationMismatch['kind'], string> = {
+  year: 'Year differs',
+  spelling: 'Names differ',
+};
+
+const citationLabel = (citation: ManuscriptCitation): string =>
+  `${citation.authors.join(' & ')}${citation.etAl ? ' et al.' : ''}, ${citation.year}`;
+
+const ManuscriptCheckPanel: React.FC<ManuscriptCheckPanelProps> = ({
+  text, onTextChange, fileName, onUpload, onRun, isRunning, report,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <FileSearch className="w-5 h-5 mr-2 text-blue-600" />
+            Manuscript Cross-check (Optional)
+          </h3>
+          <p className="text-sm text-gray-500">
+            Match every (Author, Year) citation in a draft against the loaded references, and find references the draft never cites.
+          </p>
+        </div>
+        <button
+          onClick={onRun}
+          disabled={isRunning || !text.trim()}
+          className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <BookOpenCheck className="w-4 h-4 mr-2" />}
+          Check citations
+        </button>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => onTextChange(e.target.value)}
+        rows={5}
+        placeholder="Paste the manuscript text here, or upload it below."
+        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <div className="mt-2 flex items-center gap-3 text-sm">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={MANUSCRIPT_ACCEPT}
+          onChange={(e) => e.target.files?.[0] && onUpload(e.target.files[0])}
+          className="hidden"
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="inline-flex items-center px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+        >
+          <FileUp className="w-4 h-4 mr-1.5" />
+          {fileName ? `Manuscript: ${fileName}` : 'Upload .docx or .txt'}
+        </button>
+        <span className="text-gray-400">{text ? `${text.length.toLocaleString()} characters` : ''}</span>
+      </div>
+
+      {report && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-600">
+            {report.citations.length} citations found: {report.matched.length} matched, {report.mismatches.length} with a mismatch,{' '}
+            {report.missing.length} with no reference. {report.uncited.length} references are never cited.
+          </p>
+
+          {report.missing.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm font-medium text-red-800 mb-2">Cited but not in the reference list</p>
+              <ul className="space-y-1 text-sm text-red-700 max-h-60 overflow-y-auto">
+                {report.missing.map((citation, index) => (
+                  <li key={index}>
+                    <span className="font-medium">{citationLabel(citation)}</span>
+                    <span className="ml-2 text-red-500">line {citation.line}: {citation.text}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.mismatches.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <p className="text-sm font-medium text-yellow-800 mb-2">Year or spelling mismatches</p>
+              <ul className="space-y-1 text-sm text-yellow-800 max-h-60 overflow-y-auto">
+                {report.mismatches.map((mismatch, index) => (
+                  <li key={index}>
+                    <span className="text-xs font-medium bg-yellow-100 px-2 py-0.5 rounded-full mr-2">{MISMATCH_LABELS[mismatch.kind]}</span>
+                    <span className="font-medium">{citationLabel(mismatch.citation)}</span> on line {mismatch.citation.line}; row{' '}
+                    {mismatch.row} has <span className="font-medium">{mismatch.expected}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.uncited.length > 0 && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <p className="text-sm font-medium text-gray-800 mb-2">In the reference list but never cited</p>
+              <ul className="space-y-1 text-sm text-gray-700 max-h-60 overflow-y-auto">
+                {report.uncited.map(entry => (
+                  <li key={entry.itemId}>
+                    <span className="text-gray-400 mr-2">Row {entry.row}</span>
+                    {entry.label}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ManuscriptCheckPanel;
@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import { Users } from 'lucide-react';
+import type { ColumnMapping, MappableField } from '../lib/columnMapping';
+import { CSL_NAME_VARIABLES } from '../lib/cslSchema';
+import { describeName, parseNames } from '../lib/names';
+import type { CsvRow } from '../lib/types';
+
+interface NameParsingPreviewProps {
+  rows: CsvRow[];
+  mapping: ColumnMapping;
+}
+
+const NAME_FIELDS: MappableField[] = [...CSL_NAME_VARIABLES];
+
+const PREVIEW_LIMIT = 25;
+
+const PART_STYLES: Record<string, string> = {
+  family: 'font-semibold text-gray-900',
+  given: 'text-gray-700',
+  particle: 'italic text-purple-700',
+  'dropping particle': 'italic text-purple-500',
+  suffix: 'text-gray-500',
+  organisation: 'font-semibold text-emerald-700',
+};
+
+const NameParsingPreview: React.FC<NameParsingPreviewProps> = ({ rows, mapping }) => {
+  const [showAll, setShowAll] = useState(false);
+
+  // One entry per distinct cell of every column mapped to a name role.
+  const cells = useMemo(() => {
+    const seen = new Set<string>();
+    const entries: Array<{ header: string; cell: string }> = [];
+    for (const [header, field] of Object.entries(mapping)) {
+      if (!field || !NAME_FIELDS.includes(field)) continue;
+      for (const row of rows) {
+        const cell = row[header]?.trim();
+        if (cell && !seen.has(`${header}\u0000${cell}`)) {
+          seen.add(`${header}\u0000${cell}`);
+          entries.push({ header, cell });
+        }
+      }
+    }
+    return entries;
+  }, [rows, mapping]);
+
+  if (cells.length === 0) return null;
+  const visible = showAll ? cells : cells.slice(0, PREVIEW_LIMIT);
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+        <Users className="w-5 h-5 mr-2 text-blue-600" />
+        How Names Were Read
+      </h3>
+      <p className="text-sm text-gray-500 mb-3">
+        Check particles (<span className="italic text-purple-700">van</span>), suffixes and organisations.
+        Wrap an organisation in braces, e.g. {'{Johnson and Johnson}'}, if it is read as people.
+      </p>
+      <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+        {visible.map(({ header, cell }) => {
+          const { names, etAl } = parseNames(cell);
+          return (
+            <div key={`${header}:${cell}`} className="px-3 py-2 text-sm flex flex-col md:flex-row md:items-start gap-2">
+              <div className="md:w-1/3 min-w-0">
+                <div className="text-xs text-gray-400">{header}</div>
+                <div className="text-gray-700 truncate" title={cell}>{cell}</div>
+              </div>
+              <div className="flex-1 flex flex-wrap gap-1.5">
+                {names.map((name, index) => (
+                  <span key={index} className="inline-flex items-baseline gap-1 px-2 py-0.5 bg-gray-50 border border-gray-200 rounded">
+                    {describeName(name).map(({ part, value }) => (
+                      <span key={part} className={PART_STYLES[part]} title={part}>{value}</span>
+                    ))}
+                    {'literal' in name && <span className="text-[10px] uppercase text-emerald-600">org</span>}
+                  </span>
+                ))}
+                {etAl && (
+                  <span className="px-2 py-0.5 text-xs text-yellow-700 bg-yellow-50 border border-yellow-200 rounded" title="Dropped; list every name instead">
+                    et al. dropped
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {cells.length > PREVIEW_LIMIT && (
+        <button onClick={() => setShowAll(!showAll)} className="mt-2 text-sm text-blue-600 hover:text-blue-800">
+          {showAll ? 'Show fewer' : `Show all ${cells.length} name cells`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default NameParsingPreview;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { ListChecks } from 'lucide-react';
+import { LOW_CONFIDENCE, PARSED_REFERENCE_COLUMNS, type ParsedReference, type ParsedValue } from '../lib/importers';
+
+interface ParsedReferencesPanelProps {
+  references: ParsedReference[];
+}
+
+const STYLE_LABELS: Record<NonNullable<ParsedReference['style']>, string> = {
+  apa: 'APA',
+  mla: 'MLA',
+  chicago: 'Chicago',
+};
+
+const confidenceClass = ({ confidence }: ParsedValue): string => {
+  if (confidence >= 0.8) return 'bg-emerald-50 text-emerald-800 border-emerald-200';
+  if (confidence >= LOW_CONFIDENCE) return 'bg-yellow-50 text-yellow-800 border-yellow-200';
+  return 'bg-red-50 text-red-700 border-red-200';
+};
+
+/** What the parser read from each pasted reference, coloured by how sure it is of each field. */
+const ParsedReferencesPanel: React.FC<ParsedReferencesPanelProps> = ({ references }) => {
+  const lowCount = references.reduce(
+    (sum, reference) => sum + Object.values(reference.fields).filter(value => value.confidence < LOW_CONFIDENCE).length,
+    0
+  );
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+        <ListChecks className="w-5 h-5 mr-2 text-blue-600" />
+        Parsed References
+      </h3>
+      <p className="text-sm text-gray-500 mb-3">
+        {references.length} entries split from the pasted list.{' '}
+        {lowCount
+          ? `${lowCount} fields are guesses (red) and are listed in the Needs Review column; fix them in the item editor after generating.`
+          : 'Every field was read with reasonable confidence.'}
+      </p>
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        {references.map((reference, index) => (
+          <div key={index} className="border border-gray-200 rounded-lg p-3">
+            <div className="text-sm text-gray-700 mb-2">
+              <span className="text-gray-400 mr-2">Row {index + 1}</span>
+              {reference.text}
+              <span className="ml-2 text-xs text-gray-400">{reference.style ? `looks like ${STYLE_LABELS[reference.style]}` : 'style not recognised'}</span>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {PARSED_REFERENCE_COLUMNS.map(([field, header]) => {
+                const value = reference.fields[field];
+                if (!value) return null;
+                return (
+                  <span
+                    key={field}
+                    title={`${Math.round(value.confidence * 100)}% confident`}
+                    className={`inline-flex items-center px-2 py-0.5 text-xs rounded border ${confidenceClass(value)}`}
+                  >
+                    <span className="font-medium mr-1">{header}:</span>
+                    {value.value}
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ParsedReferencesPanel;
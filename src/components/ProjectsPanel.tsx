@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Download, Eye, FolderOpen, FolderPlus, History, Trash2 } from 'lucide-react';
+import type { Project, ProjectRun } from '../lib/projects';
+
+interface ProjectsPanelProps {
+  projects: Project[];
+  activeProjectId: string | null;
+  /** Runs of the active project, newest first. */
+  runs: ProjectRun[];
+  /** The run whose output is shown in the results. */
+  activeRunId: string | null;
+  onCreate: (name: string) => void;
+  onOpen: (projectId: string) => void;
+  onDelete: (projectId: string) => void;
+  onOpenRun: (run: ProjectRun) => void;
+  onDownloadRun: (run: ProjectRun) => void;
+  onDeleteRun: (run: ProjectRun) => void;
+}
+
+const formatTime = (iso: string): string => new Date(iso).toLocaleString();
+
+const ProjectsPanel: React.FC<ProjectsPanelProps> = ({
+  projects, activeProjectId, runs, activeRunId, onCreate, onOpen, onDelete, onOpenRun, onDownloadRun, onDeleteRun,
+}) => {
+  const [name, setName] = useState('');
+  const activeProject = projects.find(project => project.id === activeProjectId);
+
+  const handleCreate = (): void => {
+    if (!name.trim()) return;
+    onCreate(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-gray-200 mb-8">
+      <div className="p-6">
+        <div className="mb-4">
+          <h2 className="text-2xl font-semibold text-gray-900 flex items-center">
+            <FolderOpen className="w-6 h-6 mr-2 text-blue-600" />
+            Projects
+          </h2>
+          <p className="text-sm text-gray-500">
+            Saved in this browser: the loaded data, column mapping, styles and every generation run.
+          </p>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3">
+          <select
+            value={activeProjectId ?? ''}
+            onChange={(e) => e.target.value && onOpen(e.target.value)}
+            className="md:w-72 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">{projects.length ? 'Open a saved project…' : 'No saved projects'}</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="New project name, e.g. HIST 101 reading list"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim()}
+            className="inline-flex items-center justify-center px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <FolderPlus className="w-4 h-4 mr-2" />
+            New project
+          </button>
+          <button
+            onClick={() => activeProject && window.confirm(`Delete "${activeProject.name}" and its run history?`) && onDelete(activeProject.id)}
+            disabled={!activeProject}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm text-red-600 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </button>
+        </div>
+
+        {activeProject && (
+          <div className="mt-6">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center mb-1">
+              <History className="w-5 h-5 mr-2 text-blue-600" />
+              Run History
+            </h3>
+            <p className="text-sm text-gray-500 mb-3">
+              {activeProject.name}, saved {formatTime(activeProject.updatedAt)}.
+              {runs.length ? ' Reopen any run to review or download its output again.' : ' Runs appear here after generating citations.'}
+            </p>
+            {runs.length > 0 && (
+              <div className="overflow-x-auto border border-gray-200 rounded-lg max-h-72 overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-4 py-2 font-medium">Generated</th>
+                      <th className="px-4 py-2 font-medium">Styles</th>
+                      <th className="px-4 py-2 font-medium text-right">Rows</th>
+                      <th className="px-4 py-2 font-medium text-right">Citations</th>
+                      <th className="px-4 py-2 font-medium text-right">Issues</th>
+                      <th className="px-4 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {runs.map(run => (
+                      <tr key={run.id} className={run.id === activeRunId ? 'bg-blue-50/60' : ''}>
+                        <td className="px-4 py-2 whitespace-nowrap text-gray-800">
+                          {formatTime(run.createdAt)}
+                          {run.id === activeRunId && <span className="ml-2 text-xs text-blue-600 bg-blue-100 px-2 py-0.5 rounded-full">shown</span>}
+                        </td>
+                        <td className="px-4 py-2 text-gray-600 max-w-xs truncate" title={run.styles.join(', ')}>{run.styles.join(', ')}</td>
+                        <td className="px-4 py-2 text-right text-gray-600">{run.rowCount}</td>
+                        <td className="px-4 py-2 text-right text-gray-600">{run.citationCount}</td>
+                        <td className="px-4 py-2 text-right text-gray-600">
+                          {run.issueCount}
+                          {run.errorCount > 0 && <span className="ml-1 text-red-600">({run.errorCount} failed)</span>}
+                        </td>
+                        <td className="px-4 py-2">
+                          <div className="flex justify-end gap-1">
+                            <button
+                              onClick={() => onOpenRun(run)}
+                              title="Show this run's output"
+                              className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                            >
+                              <Eye className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => onDownloadRun(run)}
+                              title="Download this run's CSV"
+                              className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                            >
+                              <Download className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => onDeleteRun(run)}
+                              title="Delete this run"
+                              className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectsPanel;
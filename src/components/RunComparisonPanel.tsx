@@ -0,0 +1,192 @@
+import React, { useRef, useState } from 'react';
+import { GitCompare, Loader2, Upload, X } from 'lucide-react';
+import type { CitationChange, DiffSegment, RowChange, RowComparison, RunComparison } from '../lib/compare';
+import type { ProjectRun } from '../lib/projects';
+import VirtualList from './VirtualList';
+
+interface RunComparisonPanelProps {
+  /** Saved runs the current output can be compared with. */
+  runs: ProjectRun[];
+  onCompareRun: (run: ProjectRun) => void;
+  onUpload: (file: File) => void;
+  onClear: () => void;
+  isComparing: boolean;
+  /** What the current output is compared with, e.g. the uploaded file's name. */
+  comparedWith: string | null;
+  comparison: RunComparison | null;
+}
+
+const CHANGE_LABELS: Record<Exclude<RowChange, 'unchanged'>, string> = {
+  changed: 'Changed',
+  added: 'Added',
+  removed: 'Removed',
+  skipped: 'Newly skipped',
+};
+
+const CHANGE_CLASSES: Record<Exclude<RowChange, 'unchanged'>, string> = {
+  changed: 'bg-blue-100 text-blue-800',
+  added: 'bg-emerald-100 text-emerald-800',
+  removed: 'bg-red-100 text-red-700',
+  skipped: 'bg-yellow-100 text-yellow-800',
+};
+
+const FIELD_LABELS: Record<CitationChange['field'], string> = {
+  citation: 'Citation',
+  parenthetical: 'In-text (parenthetical)',
+  narrative: 'In-text (narrative)',
+};
+
+const SEGMENT_CLASSES: Record<DiffSegment['kind'], string> = {
+  same: '',
+  added: 'bg-emerald-100 text-emerald-900 rounded-sm',
+  removed: 'bg-red-100 text-red-700 line-through rounded-sm',
+};
+
+const rowLabel = ({ previousRow, currentRow }: RowComparison): string => {
+  if (currentRow === null) return `Row ${previousRow} of the previous output`;
+  if (previousRow === null || previousRow === currentRow) return `Row ${currentRow}`;
+  return `Row ${currentRow} (was ${previousRow})`;
+};
+
+const formatTime = (iso: string): string => new Date(iso).toLocaleString();
+
+/** Row-by-row differences between the current output and an earlier run or results CSV. */
+const RunComparisonPanel: React.FC<RunComparisonPanelProps> = ({
+  runs, onCompareRun, onUpload, onClear, isComparing, comparedWith, comparison,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [shownChanges, setShownChanges] = useState<RowChange[]>([]);
+  const multipleStyles = (comparison?.styles.length ?? 0) > 1;
+  const rows = comparison?.rows.filter(row => shownChanges.length === 0 || shownChanges.includes(row.change)) ?? [];
+
+  const toggleChange = (change: RowChange): void => {
+    setShownChanges(prev => (prev.includes(change) ? prev.filter(other => other !== change) : [...prev, change]));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-gray-200 p-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-semibold text-gray-900 flex items-center">
+            <GitCompare className="w-5 h-5 mr-2 text-blue-600" />
+            Compare Runs
+          </h3>
+          <p className="text-sm text-gray-500">
+            Review what a style change, a citeproc update or a data fix changed before using the results.
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <select
+            value=""
+            onChange={(e) => {
+              const run = runs.find(saved => saved.id === e.target.value);
+              if (run) onCompareRun(run);
+            }}
+            disabled={isComparing || runs.length === 0}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            <option value="">{runs.length ? 'Compare with an earlier run…' : 'No earlier runs saved'}</option>
+            {runs.map(run => (
+              <option key={run.id} value={run.id}>
+                {formatTime(run.createdAt)}: {run.styles.join(', ')}
+              </option>
+            ))}
+          </select>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv"
+            onChange={(e) => {
+              if (e.target.files?.[0]) onUpload(e.target.files[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isComparing}
+            className="inline-flex items-center justify-center px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {isComparing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            Upload previous CSV
+          </button>
+        </div>
+      </div>
+
+      {comparison && comparedWith && (
+        <div className="space-y-3">
+          <div className="flex items-start justify-between gap-3">
+            <p className="text-sm text-gray-600">
+              Compared with <span className="font-medium">{comparedWith}</span>
+              {comparison.styles.map(({ previous, current }) => (previous === current ? null : (
+                <span key={current}>; {previous} against {current}</span>
+              )))}
+              .{' '}
+              {comparison.unmatchedStyles.previous.length + comparison.unmatchedStyles.current.length > 0 &&
+                `Not compared: ${[...comparison.unmatchedStyles.previous, ...comparison.unmatchedStyles.current].join(', ')}.`}
+            </p>
+            <button onClick={onClear} title="Stop comparing" className="p-1 text-gray-400 hover:text-gray-700 rounded">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-2 text-sm">
+            {(Object.keys(CHANGE_LABELS) as Array<Exclude<RowChange, 'unchanged'>>).map(change => (
+              <button
+                key={change}
+                onClick={() => toggleChange(change)}
+                disabled={comparison.counts[change] === 0}
+                className={`px-3 py-1 rounded-full transition-colors disabled:opacity-50 ${
+                  shownChanges.includes(change) ? CHANGE_CLASSES[change] : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {CHANGE_LABELS[change]}: {comparison.counts[change]}
+              </button>
+            ))}
+            <span className="px-3 py-1 text-gray-500">Unchanged: {comparison.counts.unchanged}</span>
+          </div>
+
+          {comparison.rows.length === 0 ? (
+            <p className="bg-emerald-50 border border-emerald-200 rounded-lg p-4 text-sm text-emerald-800">
+              Every citation matches the previous output.
+            </p>
+          ) : (
+            <VirtualList
+              items={rows}
+              estimatedHeight={96}
+              maxHeight={560}
+              getKey={row => `${row.previousRow}:${row.currentRow}`}
+              className="border border-gray-200 rounded-lg"
+              itemClassName="border-b border-gray-100 last:border-b-0"
+              renderItem={row => (
+                <div className="p-3">
+                  <div className="flex items-center gap-2 mb-2 text-sm">
+                    <span className="font-medium text-gray-800">{rowLabel(row)}</span>
+                    {row.change !== 'unchanged' && (
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${CHANGE_CLASSES[row.change]}`}>{CHANGE_LABELS[row.change]}</span>
+                    )}
+                    {row.sourceChanged && <span className="text-xs text-gray-500">source data edited</span>}
+                  </div>
+                  <div className="space-y-1">
+                    {row.changes.map(change => (
+                      <div key={`${change.style}:${change.field}`} className="text-sm">
+                        <span className="text-xs text-gray-400 mr-2">
+                          {multipleStyles ? `${change.style}, ` : ''}{FIELD_LABELS[change.field]}
+                        </span>
+                        {change.diff.map((segment, index) => (
+                          <span key={index} className={SEGMENT_CLASSES[segment.kind]}>{segment.text}</span>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunComparisonPanel;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Sheet } from 'lucide-react';
+import type { WorkbookSheet } from '../lib/workbook';
+
+interface SheetTabPickerProps {
+  sheets: WorkbookSheet[];
+  /** Names of the tabs whose rows are loaded. */
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+const SheetTabPicker: React.FC<SheetTabPickerProps> = ({ sheets, selected, onChange }) => {
+  // Keep workbook order however the tabs were ticked.
+  const toggle = (name: string): void => {
+    const next = selected.includes(name) ? selected.filter(tab => tab !== name) : [...selected, name];
+    onChange(sheets.map(sheet => sheet.name).filter(tab => next.includes(tab)));
+  };
+  const allSelected = selected.length === sheets.length;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Sheet className="w-5 h-5 mr-2 text-blue-600" />
+          Sheet Tabs
+        </h3>
+        <button
+          onClick={() => onChange(allSelected ? [] : sheets.map(sheet => sheet.name))}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          {allSelected ? 'Clear' : 'Select all'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-3">
+        Rows from every ticked tab are loaded together and tagged with their tab, so results can be grouped by tab.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {sheets.map(sheet => (
+          <label
+            key={sheet.name}
+            className={`inline-flex items-center px-3 py-1.5 text-sm rounded-md border cursor-pointer transition-colors ${
+              selected.includes(sheet.name) ? 'bg-blue-50 border-blue-300 text-blue-800' : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(sheet.name)}
+              onChange={() => toggle(sheet.name)}
+              className="mr-2 h-4 w-4 text-blue-600 rounded border-gray-300"
+            />
+            {sheet.name}
+            <span className="ml-1.5 text-xs text-gray-400">{sheet.rows.length} rows</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SheetTabPicker;
@@ -0,0 +1,108 @@
+import React, { useRef } from 'react';
+import { Palette, Upload, X } from 'lucide-react';
+import type { CitationLocale } from '../lib/locales';
+import type { CitationStyle } from '../lib/styles';
+
+interface StylePickerProps {
+  styles: CitationStyle[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  onUpload: (files: File[]) => void;
+  onRemove: (id: string) => void;
+  locales: CitationLocale[];
+  /** Null leaves each style on its own default-locale. */
+  locale: string | null;
+  onLocaleChange: (locale: string | null) => void;
+}
+
+const StylePicker: React.FC<StylePickerProps> = ({
+  styles, selected, onChange, onUpload, onRemove, locales, locale, onLocaleChange,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Keep the picking order so the first chosen style leads the results.
+  const toggle = (id: string): void => {
+    onChange(selected.includes(id) ? selected.filter(selectedId => selectedId !== id) : [...selected, id]);
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Palette className="w-5 h-5 mr-2 text-blue-600" />
+            Citation Styles
+          </h3>
+          <p className="text-sm text-gray-500">Pick one or more styles. Each style gets its own results tab and CSV column.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={locale ?? ''}
+            onChange={(e) => onLocaleChange(e.target.value || null)}
+            className="px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            title="Language of terms such as “Retrieved from” and “n.d.”"
+          >
+            <option value="">Style's default language</option>
+            {locales.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csl"
+            multiple
+            onChange={(e) => {
+              if (e.target.files?.length) onUpload(Array.from(e.target.files));
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="inline-flex items-center justify-center px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+          >
+            <Upload className="w-4 h-4 mr-1.5" />
+            Upload custom .csl
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {styles.map(style => (
+          <label
+            key={style.id}
+            className={`flex items-center px-3 py-2 rounded-md border text-sm cursor-pointer transition-colors ${
+              selected.includes(style.id) ? 'border-blue-300 bg-blue-50 text-blue-900' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(style.id)}
+              onChange={() => toggle(style.id)}
+              className="mr-2 h-4 w-4 text-blue-600 rounded border-gray-300"
+            />
+            <span className="flex-1 truncate" title={style.title}>{style.title}</span>
+            {style.custom && (
+              <>
+                <span className="ml-2 text-xs text-gray-400">custom</span>
+                <button
+                  onClick={(e) => { e.preventDefault(); onRemove(style.id); }}
+                  className="ml-1 p-0.5 text-gray-400 hover:text-red-600 transition-colors"
+                  title="Remove custom style"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </>
+            )}
+          </label>
+        ))}
+      </div>
+      {selected.length === 0 && (
+        <p className="mt-2 text-sm text-red-600">Select at least one style to generate citations.</p>
+      )}
+    </div>
+  );
+};
+
+export default StylePicker;
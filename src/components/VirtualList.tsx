@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  /** Height in pixels assumed for rows that have not been measured yet. */
+  estimatedHeight: number;
+  /** Height in pixels of the scrolling viewport; shorter lists shrink to fit. */
+  maxHeight: number;
+  getKey: (item: T, index: number) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  /** Classes for the wrapper of each row. Use padding, not margin, to space rows: margins are not measured. */
+  itemClassName?: string;
+  className?: string;
+}
+
+/** Rows rendered beyond each edge of the viewport, so fast scrolling does not show gaps. */
+const OVERSCAN = 8;
+
+/**
+ * Scrolling list that only mounts the rows in view. Row heights may vary:
+ * each mounted row is measured and the measurement kept for placing the
+ * rows around it.
+ */
+const VirtualList = <T,>({
+  items, estimatedHeight, maxHeight, getKey, renderItem, itemClassName = '', className = '',
+}: VirtualListProps<T>): React.ReactElement => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [, setMeasureCount] = useState(0);
+  const heights = useRef(new Map<string, number>());
+  const observed = useRef(new Map<string, HTMLElement>());
+  const observer = useRef<ResizeObserver | null>(null);
+
+  useEffect(() => () => observer.current?.disconnect(), []);
+
+  const measure = (key: string, element: HTMLElement | null): void => {
+    observer.current ??= new ResizeObserver(entries => {
+      let changed = false;
+      for (const entry of entries) {
+        const target = entry.target as HTMLElement;
+        const rowKey = target.dataset.rowKey ?? '';
+        if (heights.current.get(rowKey) !== target.offsetHeight) {
+          heights.current.set(rowKey, target.offsetHeight);
+          changed = true;
+        }
+      }
+      if (changed) setMeasureCount(count => count + 1);
+    });
+    const previous = observed.current.get(key);
+    if (previous === element) return;
+    if (previous) observer.current.unobserve(previous);
+    if (element) {
+      observed.current.set(key, element);
+      observer.current.observe(element);
+    } else {
+      observed.current.delete(key);
+    }
+  };
+
+  const keys = items.map(getKey);
+  const starts: number[] = [];
+  let totalHeight = 0;
+  for (const key of keys) {
+    starts.push(totalHeight);
+    totalHeight += heights.current.get(key) ?? estimatedHeight;
+  }
+
+  // Last row starting at or above the top edge, by binary search over the row offsets.
+  let low = 0;
+  let high = items.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (starts[middle] <= scrollTop) low = middle;
+    else high = middle - 1;
+  }
+  const first = Math.max(0, low - OVERSCAN);
+  let last = low;
+  while (last < items.length && starts[last] < scrollTop + maxHeight) last++;
+  last = Math.min(items.length, last + OVERSCAN);
+
+  return (
+    <div
+      className={`overflow-y-auto ${className}`}
+      style={{ maxHeight }}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div style={{ height: totalHeight, position: 'relative' }}>
+        <div style={{ position: 'absolute', top: starts[first] ?? 0, left: 0, right: 0 }}>
+          {items.slice(first, last).map((item, offset) => {
+            const index = first + offset;
+            return (
+              <div
+                key={keys[index]}
+                data-row-key={keys[index]}
+                ref={(element) => measure(keys[index], element)}
+                className={itemClassName}
+              >
+                {renderItem(item, index)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VirtualList;
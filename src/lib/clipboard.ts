@@ -0,0 +1,41 @@
+export interface ClipboardPayload {
+  plain: string;
+  html?: string;
+  rtf?: string;
+}
+
+/**
+ * Puts plain text, HTML and RTF on the clipboard in one go. The async
+ * Clipboard API cannot carry RTF, so this goes through a copy event first
+ * and only falls back to `navigator.clipboard` when that is refused.
+ */
+export const copyRichText = async ({ plain, html, rtf }: ClipboardPayload): Promise<void> => {
+  let handled = false;
+  const onCopy = (event: ClipboardEvent): void => {
+    if (!event.clipboardData) return;
+    event.clipboardData.setData('text/plain', plain);
+    if (html) event.clipboardData.setData('text/html', html);
+    if (rtf) event.clipboardData.setData('text/rtf', rtf);
+    event.preventDefault();
+    handled = true;
+  };
+
+  document.addEventListener('copy', onCopy);
+  try {
+    document.execCommand('copy');
+  } finally {
+    document.removeEventListener('copy', onCopy);
+  }
+  if (handled) return;
+
+  if (html && typeof ClipboardItem !== 'undefined') {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        'text/plain': new Blob([plain], { type: 'text/plain' }),
+        'text/html': new Blob([html], { type: 'text/html' }),
+      }),
+    ]);
+    return;
+  }
+  await navigator.clipboard.writeText(plain);
+};
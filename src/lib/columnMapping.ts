@@ -0,0 +1,149 @@
+import { CSL_VARIABLES, type CslVariable } from './cslSchema';
+import type { CsvRow } from './types';
+
+/** A CSL variable, the source type, or a locator column for in-text citations. */
+export type MappableField =
+  | 'type'
+  | CslVariable
+  | 'locator-page'
+  | 'locator-paragraph'
+  | 'locator-timestamp'
+  | 'locator-chapter';
+
+/** Header -> CSL field, or null when the column should be ignored. */
+export type ColumnMapping = Record<string, MappableField | null>;
+
+export interface MappingPreset {
+  name: string;
+  mapping: ColumnMapping;
+  savedAt: string;
+}
+
+interface MappableFieldInfo {
+  field: MappableField;
+  label: string;
+  aliases: string[];
+  /**
+   * A CSL variable without a curated label, listed after the common fields.
+   * These are only mapped by hand: a "Status" or "Language" column seldom
+   * holds what CSL prints for that variable.
+   */
+  advanced?: boolean;
+}
+
+const COMMON_FIELDS: MappableFieldInfo[] = [
+  { field: 'type', label: 'Source type', aliases: ['Source Type', 'type', 'Item Type', 'Reference Type'] },
+  { field: 'title', label: 'Title', aliases: ['Title', 'Article Title'] },
+  { field: 'author', label: 'Author(s)', aliases: ['Author(s)', 'Authors', 'Author', 'Creator'] },
+  { field: 'editor', label: 'Editor(s)', aliases: ['Editor(s)', 'Editors', 'Editor', 'Ed', 'Eds'] },
+  { field: 'translator', label: 'Translator(s)', aliases: ['Translator(s)', 'Translators', 'Translator', 'Trans'] },
+  { field: 'container-author', label: 'Container author (book author)', aliases: ['Container Author', 'Book Author', 'Book Author(s)'] },
+  { field: 'collection-editor', label: 'Series editor(s)', aliases: ['Collection Editor', 'Series Editor', 'Series Editor(s)', 'Series Editors'] },
+  { field: 'director', label: 'Director(s)', aliases: ['Director(s)', 'Directors', 'Director'] },
+  { field: 'interviewer', label: 'Interviewer(s)', aliases: ['Interviewer(s)', 'Interviewers', 'Interviewer'] },
+  { field: 'reviewed-author', label: 'Reviewed author(s)', aliases: ['Reviewed Author(s)', 'Reviewed Authors', 'Reviewed Author'] },
+  { field: 'issued', label: 'Date issued', aliases: ['Year', 'Publication Year', 'Date', 'Issued', 'Published', 'Publication Date'] },
+  { field: 'accessed', label: 'Date accessed', aliases: ['Accessed', 'Access Date', 'Date Accessed', 'Retrieved', 'Retrieved Date'] },
+  { field: 'original-date', label: 'Original publication date', aliases: ['Original Date', 'Original Year', 'Originally Published', 'Original Publication Date'] },
+  { field: 'container-title', label: 'Container title (journal, site…)', aliases: ['Journal', 'Publication', 'Container Title', 'Source', 'Journal Title'] },
+  { field: 'volume', label: 'Volume (or volume-issue)', aliases: ['Volume', 'Volume-Issue', 'Vol'] },
+  { field: 'issue', label: 'Issue', aliases: ['Issue', 'No'] },
+  { field: 'page', label: 'Pages', aliases: ['Pages', 'Page Range', 'Page', 'pp'] },
+  { field: 'DOI', label: 'DOI', aliases: ['DOI', 'DOI/URL'] },
+  { field: 'ISBN', label: 'ISBN', aliases: ['ISBN', 'ISBN-13', 'ISBN13', 'ISBN-10'] },
+  { field: 'URL', label: 'URL', aliases: ['URL', 'Link'] },
+  { field: 'publisher', label: 'Publisher', aliases: ['Publisher'] },
+  { field: 'publisher-place', label: 'Publisher place', aliases: ['Publisher Place', 'Place of Publication', 'Publication Place', 'Place'] },
+  { field: 'number', label: 'Number (report, publication or case no.)', aliases: ['Number', 'Report Number', 'Report No', 'Publication Number', 'Publication No', 'Case Number', 'Case No', 'Case ID'] },
+  { field: 'genre', label: 'Genre (e.g. Doctoral dissertation)', aliases: ['Genre', 'Thesis Type', 'Report Type', 'Case Type'] },
+  { field: 'medium', label: 'Medium (e.g. Video, Podcast)', aliases: ['Medium', 'Format'] },
+  { field: 'edition', label: 'Edition', aliases: ['Edition', 'Edn'] },
+  { field: 'collection-title', label: 'Series title', aliases: ['Series', 'Series Title', 'Collection Title'] },
+  { field: 'collection-number', label: 'Series number', aliases: ['Series Number', 'Series No'] },
+  { field: 'ISSN', label: 'ISSN', aliases: ['ISSN', 'eISSN'] },
+  { field: 'event', label: 'Event (conference, meeting…)', aliases: ['Event', 'Event Name', 'Conference Name'] },
+  { field: 'event-place', label: 'Event place', aliases: ['Event Place', 'Event Location', 'Conference Location'] },
+  { field: 'archive', label: 'Archive or database', aliases: ['Archive', 'Repository', 'Database'] },
+  { field: 'archive_location', label: 'Archive location (box, folder…)', aliases: ['Archive Location', 'Location in Archive'] },
+  { field: 'note', label: 'Note (printed by some styles)', aliases: [] },
+  { field: 'locator-page', label: 'In-text locator: page', aliases: ['Cited Page', 'Cited Pages', 'Quote Page', 'Locator Page', 'In-Text Page'] },
+  { field: 'locator-paragraph', label: 'In-text locator: paragraph', aliases: ['Paragraph', 'Para', 'Cited Paragraph', 'Locator Paragraph'] },
+  { field: 'locator-timestamp', label: 'In-text locator: timestamp', aliases: ['Timestamp', 'Time Stamp', 'Cited Timestamp', 'Locator Timestamp'] },
+  { field: 'locator-chapter', label: 'In-text locator: chapter', aliases: ['Cited Chapter', 'Locator Chapter'] },
+];
+
+const variableLabel = (variable: string): string => {
+  const words = variable.replace(/[-_]/g, ' ');
+  return /^[A-Z]+$/.test(variable) ? variable : words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/** The common fields first, then every other CSL variable under its own name. */
+export const MAPPABLE_FIELDS: MappableFieldInfo[] = [
+  ...COMMON_FIELDS,
+  ...CSL_VARIABLES
+    .filter(variable => !COMMON_FIELDS.some(common => common.field === variable))
+    .map(variable => ({ field: variable, label: variableLabel(variable), aliases: [], advanced: true })),
+];
+
+/** A column header for `field` that `suggestField` reads back, or the variable's own name for fields it never suggests. */
+export const columnHeader = (field: MappableField): string =>
+  COMMON_FIELDS.find(info => info.field === field)?.aliases[0] ?? variableLabel(field);
+
+const PRESET_STORAGE_KEY = 'citeproc-citations:column-presets';
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const aliasIndex = new Map<string, MappableField>(
+  COMMON_FIELDS.flatMap(({ field, aliases }) => [field, ...aliases].map(alias => [normalizeHeader(alias), field] as const))
+);
+
+export const suggestField = (header: string): MappableField | null => aliasIndex.get(normalizeHeader(header)) ?? null;
+
+export const suggestMapping = (headers: string[]): ColumnMapping =>
+  Object.fromEntries(headers.map(header => [header, suggestField(header)]));
+
+/**
+ * Builds a mapping for the given headers from a saved preset. Headers the
+ * preset has never seen fall back to the auto-suggestion.
+ */
+export const applyPreset = (headers: string[], preset: MappingPreset): ColumnMapping =>
+  Object.fromEntries(headers.map(header => [
+    header,
+    header in preset.mapping ? preset.mapping[header] : suggestField(header),
+  ]));
+
+/** Returns the first non-empty value among the columns mapped to `field`. */
+export const getMappedValue = (row: CsvRow, mapping: ColumnMapping, field: MappableField): string => {
+  for (const [header, target] of Object.entries(mapping)) {
+    if (target !== field) continue;
+    const value = row[header];
+    if (value && String(value).trim()) return String(value).trim();
+  }
+  return '';
+};
+
+export const loadPresets = (): MappingPreset[] => {
+  try {
+    const raw = localStorage.getItem(PRESET_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as MappingPreset[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const storePresets = (presets: MappingPreset[]): void => {
+  localStorage.setItem(PRESET_STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const savePreset = (name: string, mapping: ColumnMapping): MappingPreset[] => {
+  const preset: MappingPreset = { name, mapping, savedAt: new Date().toISOString() };
+  const presets = [...loadPresets().filter(p => p.name !== name), preset].sort((a, b) => a.name.localeCompare(b.name));
+  storePresets(presets);
+  return presets;
+};
+
+export const deletePreset = (name: string): MappingPreset[] => {
+  const presets = loadPresets().filter(p => p.name !== name);
+  storePresets(presets);
+  return presets;
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { compareOutputs, type OutputTable } from './compare';
+
+const current: OutputTable = {
+  headers: ['Title', 'Year', 'APA', 'In-Text (Parenthetical)', 'In-Text (Narrative)'],
+  rows: [
+    { Title: 'Zebras', Year: '2020', APA: 'Smith, J. (2020). Zebras.', 'In-Text (Parenthetical)': '(Smith, 2020)', 'In-Text (Narrative)': 'Smith (2020)' },
+    { Title: 'Horses', Year: '2019', APA: 'Lee, M. (2019). Horses and ponies.', 'In-Text (Parenthetical)': '(Lee, 2019)', 'In-Text (Narrative)': 'Lee (2019)' },
+  ],
+};
+
+describe('compareOutputs', () => {
+  it('compares the bibliography column of a results file without in-text columns', () => {
+    const legacy: OutputTable = {
+      headers: ['Title', 'Year', 'APA 7 Citation'],
+      rows: [
+        { Title: 'Zebras', Year: '2020', 'APA 7 Citation': 'Smith, J. (2020). Zebras.' },
+        { Title: 'Horses', Year: '2019', 'APA 7 Citation': 'Lee, M. (2019). Horses.' },
+      ],
+    };
+    const comparison = compareOutputs(legacy, current);
+    expect(comparison.styles).toEqual([{ previous: 'APA 7 Citation', current: 'APA' }]);
+    expect(comparison.counts).toMatchObject({ unchanged: 1, changed: 1 });
+    expect(comparison.rows[0].changes.map(change => [change.field, change.before, change.after])).toEqual([
+      ['citation', 'Lee, M. (2019). Horses.', 'Lee, M. (2019). Horses and ponies.'],
+    ]);
+  });
+
+  it('rejects a file with no citation columns', () => {
+    expect(() => compareOutputs({ headers: ['Title'], rows: [{ Title: 'Zebras' }] }, current)).toThrow(/no citation columns/);
+  });
+
+  it('reports rows by their position in the file, counting blank rows', () => {
+    const blank = { Title: '', Year: '', APA: '', 'In-Text (Parenthetical)': '', 'In-Text (Narrative)': '' };
+    const previous: OutputTable = {
+      headers: current.headers,
+      rows: [current.rows[0], blank, { ...current.rows[1], APA: 'Lee, M. (2019). Horses.' }],
+    };
+    const withBlank: OutputTable = { headers: current.headers, rows: [blank, ...current.rows] };
+    const comparison = compareOutputs(previous, withBlank);
+    expect(comparison.rows.map(({ change, previousRow, currentRow }) => ({ change, previousRow, currentRow }))).toEqual([
+      { change: 'changed', previousRow: 3, currentRow: 3 },
+    ]);
+  });
+});
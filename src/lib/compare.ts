@@ -0,0 +1,291 @@
+import { MERGED_COLUMN, SKIPPED_CITATION } from './generate';
+import type { CsvRow, GenerationResult } from './types';
+
+/** A results CSV with its columns in file order, as `parseCsv` returns it. */
+export interface OutputTable {
+  rows: CsvRow[];
+  headers: string[];
+}
+
+export type CitationField = 'citation' | 'parenthetical' | 'narrative';
+
+/** How a row differs from the previous output. `skipped` rows rendered before but fail validation now. */
+export type RowChange = 'unchanged' | 'changed' | 'added' | 'removed' | 'skipped';
+
+export interface DiffSegment {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface CitationChange {
+  /** Style column in the current output, or the previous one for removed rows. */
+  style: string;
+  field: CitationField;
+  before: string;
+  after: string;
+  diff: DiffSegment[];
+}
+
+export interface RowComparison {
+  change: RowChange;
+  /** 1-based row in the previous output; null for added rows. */
+  previousRow: number | null;
+  /** 1-based row in the current output; null for removed rows. */
+  currentRow: number | null;
+  /** The source columns differ, e.g. a title was corrected in the sheet. */
+  sourceChanged: boolean;
+  /** Cells that differ. Added and removed rows list every citation cell they have. */
+  changes: CitationChange[];
+}
+
+export interface RunComparison {
+  /** Style columns compared with each other. */
+  styles: Array<{ previous: string; current: string }>;
+  /** Style columns only one of the outputs has. */
+  unmatchedStyles: { previous: string[]; current: string[] };
+  /** Every row that is not unchanged, in current order with removed rows where they used to be. */
+  rows: RowComparison[];
+  counts: Record<RowChange, number>;
+}
+
+const PARENTHETICAL = 'In-Text (Parenthetical)';
+const NARRATIVE = 'In-Text (Narrative)';
+const BIBLIOGRAPHY_ORDER = '(Bibliography Order)';
+const LEGACY_CITATION = /\S Citation$/;
+
+interface StyleColumns {
+  citation: string;
+  /** Unset for outputs without in-text columns. */
+  parenthetical?: string;
+  narrative?: string;
+}
+
+const FIELDS: CitationField[] = ['citation', 'parenthetical', 'narrative'];
+
+/**
+ * Finds the citation columns of a results CSV. Each style's column is
+ * followed by its in-text columns, which carry the style's name as a prefix
+ * when the run had more than one style. Files downloaded before in-text
+ * citations were added, such as apa7_citations_output.csv, only have a
+ * "<Style> Citation" column, which is read as a bibliography-only style.
+ */
+const readColumns = (headers: string[]): { styles: StyleColumns[]; source: string[] } => {
+  const styles = headers.flatMap((header, index): StyleColumns[] => {
+    if (headers[index + 1] === PARENTHETICAL) return [{ citation: header, parenthetical: PARENTHETICAL, narrative: NARRATIVE }];
+    if (headers[index + 1] === `${header} ${PARENTHETICAL}`) {
+      return [{ citation: header, parenthetical: `${header} ${PARENTHETICAL}`, narrative: `${header} ${NARRATIVE}` }];
+    }
+    return [];
+  });
+  if (styles.length === 0) styles.push(...headers.filter(header => LEGACY_CITATION.test(header)).map(citation => ({ citation })));
+  const output = new Set(styles.flatMap(style => FIELDS.map(field => style[field])));
+  const source = headers.filter(header => !output.has(header) && header !== MERGED_COLUMN && !header.endsWith(BIBLIOGRAPHY_ORDER));
+  return { styles, source };
+};
+
+/** The results CSV of a run, with the columns in the order they are downloaded. */
+export const resultTable = (result: GenerationResult): OutputTable => ({
+  rows: result.csvData,
+  headers: Object.keys(result.csvData[0] ?? {})
+});
+
+const cellOf = (row: CsvRow, style: StyleColumns, field: CitationField): string => {
+  const column = style[field];
+  return column ? row[column] ?? '' : '';
+};
+
+const tokenize = (text: string): string[] => text.match(/[\p{L}\p{N}]+|\s+|[^\p{L}\p{N}\s]/gu) ?? [];
+
+/** Word-level differences between two citations, as runs of kept, removed and added text. */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..].
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const steps: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      steps.push({ kind: 'same', text: a[i++] });
+      j++;
+    } else if (j >= b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      steps.push({ kind: 'removed', text: a[i++] });
+    } else {
+      steps.push({ kind: 'added', text: b[j++] });
+    }
+  }
+
+  // Each run of changes becomes one removal then one addition. A space between
+  // two changed words joins them, so a rewritten phrase reads as one replacement.
+  const segments: DiffSegment[] = [];
+  let removed = '';
+  let added = '';
+  const flush = (): void => {
+    if (removed) segments.push({ kind: 'removed', text: removed });
+    if (added) segments.push({ kind: 'added', text: added });
+    removed = '';
+    added = '';
+  };
+  steps.forEach((step, index) => {
+    const joinsChanges = step.kind === 'same' && /^\s+$/.test(step.text) &&
+      steps[index - 1]?.kind !== 'same' && steps[index + 1] && steps[index + 1].kind !== 'same';
+    if (step.kind === 'removed' || joinsChanges) removed += step.text;
+    if (step.kind === 'added' || joinsChanges) added += step.text;
+    if (step.kind !== 'same' || joinsChanges) return;
+    flush();
+    const last = segments[segments.length - 1];
+    if (last?.kind === 'same') last.text += step.text;
+    else segments.push({ kind: 'same', text: step.text });
+  });
+  flush();
+  return segments;
+};
+
+/** Longest run of pairs whose second index increases, so matched rows never cross. */
+const longestIncreasing = (pairs: Array<[number, number]>): Array<[number, number]> => {
+  const tails: number[] = [];
+  const previous: number[] = [];
+  pairs.forEach(([, current], index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (pairs[tails[middle]][1] < current) low = middle + 1;
+      else high = middle;
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+  const result: Array<[number, number]> = [];
+  for (let index = tails[tails.length - 1] ?? -1; index !== -1; index = previous[index]) result.push(pairs[index]);
+  return result.reverse();
+};
+
+/**
+ * Pairs the rows of two outputs. Rows whose source columns are unique and
+ * identical in both anchor the alignment; rows between two anchors are paired
+ * by position, and the rest of the longer side are added or removed rows.
+ */
+const alignRows = (previousKeys: string[], currentKeys: string[]): Array<[number | null, number | null]> => {
+  const count = (keys: string[]): Map<string, number> => {
+    const counts = new Map<string, number>();
+    for (const key of keys) counts.set(key, (counts.get(key) ?? 0) + 1);
+    return counts;
+  };
+  const previousCounts = count(previousKeys);
+  const currentCounts = count(currentKeys);
+  const currentIndex = new Map(currentKeys.map((key, index) => [key, index]));
+  const anchors = longestIncreasing(
+    previousKeys.flatMap((key, index): Array<[number, number]> =>
+      previousCounts.get(key) === 1 && currentCounts.get(key) === 1 ? [[index, currentIndex.get(key) ?? -1]] : []
+    )
+  );
+
+  const aligned: Array<[number | null, number | null]> = [];
+  let p = 0;
+  let c = 0;
+  for (const [anchorPrevious, anchorCurrent] of [...anchors, [previousKeys.length, currentKeys.length]]) {
+    const gap = Math.max(anchorPrevious - p, anchorCurrent - c);
+    for (let k = 0; k < gap; k++) {
+      aligned.push([p + k < anchorPrevious ? p + k : null, c + k < anchorCurrent ? c + k : null]);
+    }
+    if (anchorPrevious < previousKeys.length) aligned.push([anchorPrevious, anchorCurrent]);
+    p = anchorPrevious + 1;
+    c = anchorCurrent + 1;
+  }
+  return aligned;
+};
+
+/**
+ * Compares a previous results CSV with the current one row by row. Styles
+ * are compared by column name. When each output has one style left over, or
+ * no style is in both, the first leftover styles are compared with each
+ * other, so switching styles shows what changed. Throws when either output
+ * has no citation columns.
+ */
+export const compareOutputs = (previous: OutputTable, current: OutputTable): RunComparison => {
+  const before = readColumns(previous.headers);
+  const after = readColumns(current.headers);
+  if (before.styles.length === 0) throw new Error('The previous output has no citation columns; use a results CSV downloaded after generating.');
+  if (after.styles.length === 0) throw new Error('The current output has no citation columns; generate citations first.');
+
+  const pairs: Array<[StyleColumns, StyleColumns]> = after.styles.flatMap(style => {
+    const match = before.styles.find(other => other.citation === style.citation);
+    return match ? [[match, style] as [StyleColumns, StyleColumns]] : [];
+  });
+  const unmatchedPrevious = before.styles.filter(style => !pairs.some(([match]) => match === style));
+  const unmatchedCurrent = after.styles.filter(style => !pairs.some(([, match]) => match === style));
+  if (unmatchedPrevious.length && unmatchedCurrent.length && (pairs.length === 0 || (unmatchedPrevious.length === 1 && unmatchedCurrent.length === 1))) {
+    pairs.push([unmatchedPrevious.shift() as StyleColumns, unmatchedCurrent.shift() as StyleColumns]);
+  }
+
+  // Bibliography-order columns can run past the last source row; those rows have nothing to compare.
+  const hasContent = (columns: { styles: StyleColumns[]; source: string[] }) => (row: CsvRow): boolean =>
+    [...columns.source, ...columns.styles.map(style => style.citation)].some(column => row[column]);
+  // Rows are reported by their position in the file, blank rows included.
+  const contentIndexes = (table: OutputTable, columns: { styles: StyleColumns[]; source: string[] }): number[] =>
+    table.rows.flatMap((row, index) => (hasContent(columns)(row) ? [index] : []));
+  const previousIndexes = contentIndexes(previous, before);
+  const currentIndexes = contentIndexes(current, after);
+  const previousRows = previousIndexes.map(index => previous.rows[index]);
+  const currentRows = currentIndexes.map(index => current.rows[index]);
+
+  const shared = before.source.filter(column => after.source.includes(column));
+  const keyOf = (row: CsvRow): string => JSON.stringify(shared.map(column => row[column] ?? ''));
+  const previousKeys = previousRows.map(keyOf);
+  const currentKeys = currentRows.map(keyOf);
+
+  const cells = (row: CsvRow, columns: StyleColumns[]): CitationChange[] =>
+    columns.flatMap(style => FIELDS.filter(field => cellOf(row, style, field)).map(field => ({
+      style: style.citation, field, before: '', after: cellOf(row, style, field), diff: [{ kind: 'added' as const, text: cellOf(row, style, field) }]
+    })));
+
+  const counts: Record<RowChange, number> = { unchanged: 0, changed: 0, added: 0, removed: 0, skipped: 0 };
+  const rows: RowComparison[] = [];
+  for (const [p, c] of alignRows(previousKeys, currentKeys)) {
+    let comparison: RowComparison;
+    if (p === null && c !== null) {
+      comparison = { change: 'added', previousRow: null, currentRow: currentIndexes[c] + 1, sourceChanged: false, changes: cells(currentRows[c], after.styles) };
+    } else if (p !== null && c === null) {
+      const changes = cells(previousRows[p], before.styles).map(cell => ({
+        ...cell, before: cell.after, after: '', diff: [{ kind: 'removed' as const, text: cell.after }]
+      }));
+      comparison = { change: 'removed', previousRow: previousIndexes[p] + 1, currentRow: null, sourceChanged: false, changes };
+    } else if (p !== null && c !== null) {
+      const previousRow = previousRows[p];
+      const currentRow = currentRows[c];
+      // In-text citations are only compared when both outputs have them.
+      const changes = pairs.flatMap(([was, now]) => FIELDS.filter(field => was[field] && now[field]).flatMap(field => {
+        const oldText = cellOf(previousRow, was, field);
+        const newText = cellOf(currentRow, now, field);
+        return oldText === newText ? [] : [{ style: now.citation, field, before: oldText, after: newText, diff: diffWords(oldText, newText) }];
+      }));
+      const newlySkipped = pairs.some(([was, now]) => currentRow[now.citation] === SKIPPED_CITATION && previousRow[was.citation] !== SKIPPED_CITATION);
+      comparison = {
+        change: newlySkipped ? 'skipped' : changes.length ? 'changed' : 'unchanged',
+        previousRow: previousIndexes[p] + 1,
+        currentRow: currentIndexes[c] + 1,
+        sourceChanged: previousKeys[p] !== currentKeys[c],
+        changes
+      };
+    } else {
+      continue;
+    }
+    counts[comparison.change]++;
+    if (comparison.change !== 'unchanged') rows.push(comparison);
+  }
+
+  return {
+    styles: pairs.map(([was, now]) => ({ previous: was.citation, current: now.citation })),
+    unmatchedStyles: { previous: unmatchedPrevious.map(style => style.citation), current: unmatchedCurrent.map(style => style.citation) },
+    rows,
+    counts
+  };
+};
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { createCslItem, mapSourceType, parseAuthors, parseVolumeIssue, validateCslItems } from './cslItems';
+import type { ColumnMapping } from './columnMapping';
+import type { CslItem } from './types';
+
+const mapping: ColumnMapping = {
+  Title: 'title',
+  Authors: 'author',
+  Year: 'issued',
+  Type: 'type',
+  Journal: 'container-title',
+  'Vol(Issue)': 'volume',
+  Pages: 'page',
+  DOI: 'DOI',
+  Number: 'number',
+};
+
+describe('mapSourceType', () => {
+  it('treats an empty cell as a journal article', () => {
+    expect(mapSourceType('')).toBe('article-journal');
+  });
+
+  it('maps human labels and CSL type names case-insensitively', () => {
+    expect(mapSourceType('Journal Article')).toBe('article-journal');
+    expect(mapSourceType('Book Chapter')).toBe('chapter');
+    expect(mapSourceType('Court case')).toBe('legal_case');
+    expect(mapSourceType('motion_picture')).toBe('motion_picture');
+    expect(mapSourceType('Paper Conference')).toBe('paper-conference');
+  });
+
+  it('falls back to a generic document for unknown labels', () => {
+    expect(mapSourceType('gizmo')).toBe('document');
+  });
+});
+
+describe('parseAuthors', () => {
+  it('splits on semicolons and reads both name orders', () => {
+    expect(parseAuthors('Smith, John; Jane Doe')).toEqual([
+      { family: 'Smith', given: 'John' },
+      { family: 'Doe', given: 'Jane' },
+    ]);
+  });
+
+  it('keeps organisations whole', () => {
+    expect(parseAuthors('World Health Organization')).toEqual([{ literal: 'World Health Organization' }]);
+  });
+
+  it('returns no names for an empty cell', () => {
+    expect(parseAuthors('')).toEqual([]);
+  });
+});
+
+describe('parseVolumeIssue', () => {
+  it.each([
+    ['12(3)', '12', '3'],
+    ['Vol. 12 No. 3', '12', '3'],
+    ['v12 n3', '12', '3'],
+    ['12-3', '12', '3'],
+  ])('reads %s', (cell, volume, issue) => {
+    expect(parseVolumeIssue(cell)).toEqual({ volume, issue });
+  });
+
+  it('reads a bare volume', () => {
+    expect(parseVolumeIssue('42')).toEqual({ volume: '42', issue: null });
+  });
+
+  it('gives up on text it does not understand', () => {
+    expect(parseVolumeIssue('special issue')).toEqual({ volume: null, issue: null });
+  });
+});
+
+describe('createCslItem', () => {
+  it('converts a mapped row into a CSL item', () => {
+    const warnings: string[] = [];
+    const item = createCslItem({
+      Title: 'Sleep and memory',
+      Authors: 'Smith, John; Doe, Jane',
+      Year: '2020',
+      Type: 'Journal Article',
+      Journal: 'Nature',
+      'Vol(Issue)': '12(3)',
+      Pages: '45-67',
+      DOI: 'https://doi.org/10.1000/xyz',
+    }, 0, mapping, warnings);
+
+    expect(item).toEqual({
+      id: 'item_1',
+      type: 'article-journal',
+      title: 'Sleep and memory',
+      author: [{ family: 'Smith', given: 'John' }, { family: 'Doe', given: 'Jane' }],
+      issued: { 'date-parts': [[2020]] },
+      'container-title': 'Nature',
+      volume: '12',
+      issue: '3',
+      page: '45-67',
+      DOI: '10.1000/xyz',
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it('copies added CSL variables as written', () => {
+    const item = createCslItem({ Title: 'Water survey', Type: 'report', Number: 'WB-12' }, 4, mapping, []);
+    expect(item).toMatchObject({ id: 'item_5', type: 'report', number: 'WB-12' });
+  });
+
+  it('warns about unknown source types and bad dates', () => {
+    const warnings: string[] = [];
+    const item = createCslItem({ Title: 'Odd thing', Type: 'gizmo', Year: 'sometime' }, 2, mapping, warnings);
+    expect(item.type).toBe('document');
+    expect(item.issued).toBeUndefined();
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toContain('unknown source type "gizmo"');
+    expect(warnings[1]).toContain('sheet row 4');
+  });
+});
+
+describe('validateCslItems', () => {
+  const items: CslItem[] = [
+    { id: 'item_1', type: 'book', title: 'Complete', author: [{ family: 'Smith', given: 'J.' }], publisher: 'OUP', issued: { 'date-parts': [[2020]] } },
+    { id: 'item_2', type: 'book' },
+    { id: 'item_3', type: 'article-journal', title: 'No journal', author: [{ family: 'Lee', given: 'M.' }] },
+  ];
+
+  it('skips items with errors and keeps the rest', () => {
+    const { valid, issues } = validateCslItems(items);
+    expect(valid.map(item => item.id)).toEqual(['item_1']);
+    expect(issues.filter(issue => issue.severity === 'error').map(issue => [issue.itemId, issue.ruleId])).toEqual([
+      ['item_2', 'title-or-author'],
+      ['item_3', 'journal-container'],
+    ]);
+  });
+
+  it('reports rows 1-based', () => {
+    const { issues } = validateCslItems(items);
+    expect(issues.find(issue => issue.itemId === 'item_3')?.row).toBe(3);
+  });
+});
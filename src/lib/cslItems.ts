@@ -0,0 +1,245 @@
+import { getMappedValue, type ColumnMapping, type MappableField } from './columnMapping';
+import { CSL_DATE_VARIABLES, CSL_NAME_VARIABLES, CSL_TEXT_VARIABLES, CSL_TYPES, type CslType } from './cslSchema';
+import { parseDate } from './dates';
+import { readLocator } from './inText';
+import { lintItems } from './lint';
+import { parseNames } from './names';
+import type { CitationLocator, CslItem, CslName, CsvRow, DebugLog, ReferenceIssue } from './types';
+
+const noop: DebugLog = () => {};
+
+// Source-type labels as people write them, normalised by `normalizeTypeLabel`.
+// CSL's own type names are recognised as well, so "legal_case" works as a label.
+const TYPE_LABELS: Record<string, CslType> = {
+  'journal article': 'article-journal',
+  'journal': 'article-journal',
+  'article': 'article-journal',
+  'preprint': 'article',
+  'news article': 'article-newspaper',
+  'newspaper article': 'article-newspaper',
+  'newspaper': 'article-newspaper',
+  'magazine': 'article-magazine',
+  'magazine article': 'article-magazine',
+  'book': 'book',
+  'edited book': 'book',
+  'ebook': 'book',
+  'book chapter': 'chapter',
+  'chapter': 'chapter',
+  'encyclopedia entry': 'entry-encyclopedia',
+  'dictionary entry': 'entry-dictionary',
+  'conference paper': 'paper-conference',
+  'conference': 'paper-conference',
+  'conference proceedings': 'paper-conference',
+  'presentation': 'speech',
+  'conference presentation': 'speech',
+  'talk': 'speech',
+  'lecture': 'speech',
+  'poster': 'speech',
+  'thesis': 'thesis',
+  'dissertation': 'thesis',
+  'report': 'report',
+  'technical report': 'report',
+  'government report': 'report',
+  'working paper': 'report',
+  'white paper': 'report',
+  'case study': 'report',
+  'webpage': 'webpage',
+  'web page': 'webpage',
+  'website': 'webpage',
+  'blog post': 'post-weblog',
+  'blog': 'post-weblog',
+  'social media post': 'post',
+  'tweet': 'post',
+  'forum post': 'post',
+  'review': 'review',
+  'book review': 'review-book',
+  'video': 'motion_picture',
+  'online video': 'motion_picture',
+  'film': 'motion_picture',
+  'movie': 'motion_picture',
+  'podcast': 'broadcast',
+  'podcast episode': 'broadcast',
+  'tv episode': 'broadcast',
+  'television': 'broadcast',
+  'radio': 'broadcast',
+  'music': 'song',
+  'audio recording': 'song',
+  'sheet music': 'musical_score',
+  'interview': 'interview',
+  'personal communication': 'personal_communication',
+  'email': 'personal_communication',
+  'letter': 'personal_communication',
+  'unpublished manuscript': 'manuscript',
+  'brochure': 'pamphlet',
+  'data set': 'dataset',
+  'computer program': 'software',
+  'app': 'software',
+  'artwork': 'graphic',
+  'image': 'graphic',
+  'photograph': 'graphic',
+  'infographic': 'graphic',
+  'chart': 'figure',
+  'exhibition': 'event',
+  'court case': 'legal_case',
+  'case law': 'legal_case',
+  'statute': 'legislation',
+  'law': 'legislation'
+};
+
+const normalizeTypeLabel = (label: string): string => label.toLowerCase().trim().replace(/[\s_-]+/g, ' ');
+
+const CSL_TYPE_LABELS = new Map<string, CslType>(CSL_TYPES.map(type => [normalizeTypeLabel(type), type]));
+
+/** The CSL type a source-type label stands for, or null when the label is not recognised. */
+export const findSourceType = (rawType: string): CslType | null => {
+  const label = normalizeTypeLabel(rawType);
+  return TYPE_LABELS[label] ?? CSL_TYPE_LABELS.get(label) ?? null;
+};
+
+/** CSL type for a sheet's source-type cell. Empty cells are journal articles; unknown labels become generic documents. */
+export const mapSourceType = (rawType: string): string => {
+  if (!rawType || typeof rawType !== 'string') return 'article-journal';
+  return findSourceType(rawType) ?? 'document';
+};
+
+/** Names in a sheet cell; see `parseNames` for the notations understood. */
+export const parseAuthors = (authorCell: string): CslName[] =>
+  typeof authorCell === 'string' ? parseNames(authorCell).names : [];
+
+export const parseVolumeIssue = (cell: string): { volume: string | null; issue: string | null } => {
+  if (!cell || typeof cell !== 'string') return { volume: null, issue: null };
+  const text = cell.trim();
+  const patterns = [
+    /(\d+)\s*\(\s*(\d+)\s*\)/,
+    /vol\.?\s*(\d+)\s*no\.?\s*(\d+)/i,
+    /v\.?\s*(\d+)\s*n\.?\s*(\d+)/i,
+    /(\d+)\s*[-–—]\s*(\d+)/,
+  ];
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return { volume: match[1], issue: match[2] };
+  }
+  if (/^\d+$/.test(text)) return { volume: text, issue: null };
+  return { volume: null, issue: null };
+};
+
+// Variables with their own parsing below; every other text variable is copied as written.
+const PARSED_VARIABLES = new Set<string>(['title', 'volume', 'issue', 'DOI', 'URL']);
+
+/**
+ * Converts one mapped sheet row into a CSL item. Date problems and source
+ * types that are not recognised are appended to `warnings`.
+ */
+export const createCslItem = (
+  row: CsvRow,
+  index: number,
+  mapping: ColumnMapping,
+  warnings: string[],
+  debug: DebugLog = noop
+): CslItem => {
+  const field = (name: MappableField): string => getMappedValue(row, mapping, name);
+  const rawType = field('type');
+  const item: CslItem = {
+    id: `item_${index + 1}`,
+    type: mapSourceType(rawType)
+  };
+  if (rawType && !findSourceType(rawType)) {
+    warnings.push(`Item ${index + 1} (sheet row ${index + 2}): unknown source type "${rawType}" was cited as a generic document; use a CSL type such as "report" or "software"`);
+  }
+
+  // Essential fields validation
+  const title = field('title');
+  if (title) {
+    item.title = title;
+  } else {
+    debug({ level: 'warning', stage: 'validate', row: index + 1, message: 'Missing title' });
+  }
+
+  for (const role of CSL_NAME_VARIABLES) {
+    const { names, etAl } = parseNames(field(role));
+    if (names.length > 0) item[role] = names;
+    else if (role === 'author') debug({ level: 'warning', stage: 'validate', row: index + 1, message: 'No valid authors found' });
+    if (etAl) {
+      warnings.push(`Item ${index + 1} (sheet row ${index + 2}): "et al." in the ${role} column was dropped; list every name so styles can shorten the list themselves`);
+    }
+  }
+
+  for (const dateField of CSL_DATE_VARIABLES) {
+    const cell = field(dateField);
+    const { date, error } = parseDate(cell);
+    if (date) {
+      item[dateField] = date;
+    } else if (error) {
+      warnings.push(`Item ${index + 1} (sheet row ${index + 2}): ${error} in ${dateField} column`);
+    } else if (dateField === 'issued') {
+      debug({ level: 'warning', stage: 'validate', row: index + 1, message: `No publication date: ${cell || 'empty'}` });
+    }
+  }
+
+  const volIss = parseVolumeIssue(field('volume'));
+  if (volIss.volume) item.volume = volIss.volume;
+  if (volIss.issue) item.issue = volIss.issue;
+  else if (field('issue')) item.issue = field('issue');
+
+  // Handle DOI/URL
+  const doiField = field('DOI');
+  if (doiField) {
+    let doi = doiField;
+    if (doi.startsWith('http')) {
+      if (doi.includes('doi.org/')) {
+        doi = doi.replace(/^https?:\/\/doi\.org\//, '');
+        item.DOI = doi;
+      } else {
+        item.URL = doi;
+      }
+    } else if (doi.startsWith('10.')) {
+      item.DOI = doi;
+    }
+  }
+
+  const url = field('URL');
+  if (url && !item.DOI && !item.URL) {
+    if (url.startsWith('http')) {
+      item.URL = url;
+    }
+  }
+
+  for (const variable of CSL_TEXT_VARIABLES) {
+    if (PARSED_VARIABLES.has(variable)) continue;
+    const value = field(variable);
+    if (value) item[variable] = value;
+  }
+
+  return item;
+};
+
+/** Converts every mapped row and collects the locator columns keyed by item id. */
+export const rowsToCslItems = (
+  rows: CsvRow[],
+  mapping: ColumnMapping,
+  debug: DebugLog = noop,
+  onProgress?: (done: number, total: number) => void
+): { items: CslItem[]; locators: Record<string, CitationLocator>; warnings: string[] } => {
+  const warnings: string[] = [];
+  const locators: Record<string, CitationLocator> = {};
+  const items = rows.map((row, index) => {
+    const locator = readLocator(row, mapping);
+    if (locator) locators[`item_${index + 1}`] = locator;
+    const item = createCslItem(row, index, mapping, warnings, debug);
+    debug({ level: 'debug', stage: 'map', row: index + 1, message: `Mapped to a CSL ${item.type}`, payload: item });
+    onProgress?.(index + 1, rows.length);
+    return item;
+  });
+  debug({ level: 'info', stage: 'map', message: `Converted ${items.length} rows to CSL items` });
+  return { items, locators, warnings };
+};
+
+/**
+ * Lints the items and keeps those that can be rendered: any error-severity
+ * issue skips an item, while warnings and info only get reported.
+ */
+export const validateCslItems = (items: CslItem[], mapping: ColumnMapping = {}): { valid: CslItem[]; issues: ReferenceIssue[] } => {
+  const issues = lintItems(items, mapping);
+  const blocked = new Set(issues.filter(issue => issue.severity === 'error').map(issue => issue.itemId));
+  return { valid: items.filter(item => !blocked.has(item.id)), issues };
+};
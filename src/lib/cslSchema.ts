@@ -0,0 +1,50 @@
+/** Every item type defined by CSL 1.0.2. */
+export const CSL_TYPES = [
+  'article', 'article-journal', 'article-magazine', 'article-newspaper', 'bill', 'book', 'broadcast',
+  'chapter', 'classic', 'collection', 'dataset', 'document', 'entry', 'entry-dictionary',
+  'entry-encyclopedia', 'event', 'figure', 'graphic', 'hearing', 'interview', 'legal_case',
+  'legislation', 'manuscript', 'map', 'motion_picture', 'musical_score', 'pamphlet',
+  'paper-conference', 'patent', 'performance', 'periodical', 'personal_communication', 'post',
+  'post-weblog', 'regulation', 'report', 'review', 'review-book', 'software', 'song', 'speech',
+  'standard', 'thesis', 'treaty', 'webpage',
+] as const;
+
+export type CslType = (typeof CSL_TYPES)[number];
+
+/** CSL 1.0.2 name variables. */
+export const CSL_NAME_VARIABLES = [
+  'author', 'chair', 'collection-editor', 'compiler', 'composer', 'container-author', 'contributor',
+  'curator', 'director', 'editor', 'editorial-director', 'editor-translator', 'executive-producer',
+  'guest', 'host', 'illustrator', 'interviewer', 'narrator', 'organizer', 'original-author',
+  'performer', 'producer', 'recipient', 'reviewed-author', 'script-writer', 'series-creator',
+  'translator',
+] as const;
+
+/** CSL 1.0.2 date variables. */
+export const CSL_DATE_VARIABLES = ['issued', 'accessed', 'original-date', 'available-date', 'event-date', 'submitted'] as const;
+
+/**
+ * CSL 1.0.2 standard and number variables an item can carry. Those the
+ * processor fills in itself (citation-number, locator, year-suffix…) are left
+ * out, and events use `event`, the name citeproc-js reads, rather than 1.0.2's
+ * `event-title`.
+ */
+export const CSL_TEXT_VARIABLES = [
+  'title', 'title-short', 'container-title', 'container-title-short', 'collection-title', 'collection-number',
+  'volume', 'volume-title', 'volume-title-short', 'number-of-volumes', 'issue', 'page', 'number-of-pages',
+  'edition', 'chapter-number', 'part-number', 'part-title', 'printing-number', 'supplement-number', 'section',
+  'number', 'genre', 'medium', 'version', 'status', 'publisher', 'publisher-place', 'original-publisher',
+  'original-publisher-place', 'original-title', 'reviewed-title', 'reviewed-genre', 'event', 'event-place',
+  'archive', 'archive_collection', 'archive_location', 'archive-place', 'call-number', 'authority',
+  'jurisdiction', 'division', 'DOI', 'ISBN', 'ISSN', 'PMID', 'PMCID', 'URL', 'language', 'license',
+  'dimensions', 'scale', 'source', 'references', 'keyword', 'abstract', 'annote', 'note',
+] as const;
+
+export type CslNameVariable = (typeof CSL_NAME_VARIABLES)[number];
+export type CslDateVariable = (typeof CSL_DATE_VARIABLES)[number];
+export type CslTextVariable = (typeof CSL_TEXT_VARIABLES)[number];
+export type CslVariable = CslNameVariable | CslDateVariable | CslTextVariable;
+
+export const CSL_VARIABLES: CslVariable[] = [...CSL_NAME_VARIABLES, ...CSL_DATE_VARIABLES, ...CSL_TEXT_VARIABLES];
+
+export const isCslType = (type: string): type is CslType => (CSL_TYPES as readonly string[]).includes(type);
@@ -0,0 +1,17 @@
+import Papa from 'papaparse';
+import type { CsvRow } from './types';
+
+/** Parses CSV text with a header row. Throws on the first malformed row. */
+export const parseCsv = (csvText: string): { rows: CsvRow[]; headers: string[] } => {
+  const results = Papa.parse<CsvRow>(csvText, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header: string) => header.trim(),
+  });
+  if (results.errors.length) {
+    throw new Error(`CSV Parsing Error: ${results.errors[0].message}`);
+  }
+  return { rows: results.data, headers: results.meta.fields ?? [] };
+};
+
+export const toCsv = (rows: CsvRow[]): string => Papa.unparse(rows);
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseDate } from './dates';
+
+describe('parseDate', () => {
+  it.each([
+    ['2020', { 'date-parts': [[2020]] }],
+    ['2020-03-15', { 'date-parts': [[2020, 3, 15]] }],
+    ['15 March 2020', { 'date-parts': [[2020, 3, 15]] }],
+    ['March 15, 2020', { 'date-parts': [[2020, 3, 15]] }],
+    ['12–15 March 2024', { 'date-parts': [[2024, 3, 12], [2024, 3, 15]] }],
+  ])('reads %s', (cell, date) => {
+    expect(parseDate(cell)).toEqual({ date });
+  });
+
+  it('reads circa dates and "in press"', () => {
+    expect(parseDate('c. 1850')).toEqual({ date: { 'date-parts': [[1850]], circa: true } });
+    expect(parseDate('in press')).toEqual({ date: { literal: 'in press' } });
+  });
+
+  it('treats "n.d." and empty cells as no date', () => {
+    expect(parseDate('n.d.')).toEqual({});
+    expect(parseDate('')).toEqual({});
+  });
+
+  it('rejects ambiguous and invalid dates', () => {
+    expect(parseDate('03/04/2020').error).toMatch(/Ambiguous/);
+    expect(parseDate('2020-02-30').error).toBeDefined();
+    expect(parseDate('whenever').error).toMatch(/Unrecognised/);
+  });
+});
@@ -0,0 +1,159 @@
+import type { CslDate } from './types';
+
+export interface DateParseResult {
+  /** Undefined when the cell is empty or explicitly undated ("n.d."). */
+  date?: CslDate;
+  error?: string;
+}
+
+interface PartialDate {
+  year?: number;
+  month?: number;
+  day?: number;
+  season?: number;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, feb: 2, february: 2, mar: 3, march: 3, apr: 4, april: 4,
+  may: 5, jun: 6, june: 6, jul: 7, july: 7, aug: 8, august: 8, sep: 9, sept: 9,
+  september: 9, oct: 10, october: 10, nov: 11, november: 11, dec: 12, december: 12,
+};
+
+// CSL season codes: 1 spring, 2 summer, 3 autumn, 4 winter.
+const SEASONS: Record<string, number> = { spring: 1, summer: 2, autumn: 3, fall: 3, winter: 4 };
+
+const NO_DATE = /^(n\.?\s?d\.?|no date|undated|s\.?\s?d\.?)$/i;
+const IN_PRESS = /^(in press|forthcoming|in print)$/i;
+const CIRCA = /^(?:c\.|ca\.?|circa|approx\.?)\s*(.+)$/i;
+const ISO_DATE = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const NUMERIC_DATE = /^(\d{1,4})[/.](\d{1,2})[/.](\d{1,4})$/;
+const RANGE_SEPARATOR = /\s*[–—]\s*|\s+-\s+|\s+to\s+|(?<=^\d{4})-(?=\d{4}$)/i;
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const isValid = ({ year, month, day }: PartialDate): boolean => {
+  if (month !== undefined && (month < 1 || month > 12)) return false;
+  if (day !== undefined) {
+    if (month === undefined || day < 1) return false;
+    if (day > daysInMonth(year ?? 2000, month)) return false;
+  }
+  return true;
+};
+
+const toDateParts = ({ year, month, day }: PartialDate): number[] => {
+  const parts = [year as number];
+  if (month !== undefined) parts.push(month);
+  if (month !== undefined && day !== undefined) parts.push(day);
+  return parts;
+};
+
+const parseNumeric = (text: string): PartialDate | null => {
+  const match = NUMERIC_DATE.exec(text);
+  if (!match) return null;
+  const [a, b, c] = match.slice(1).map(n => parseInt(n, 10));
+  if (match[1].length === 4) return { year: a, month: b, day: c };
+  if (match[3].length !== 4) return null;
+  // Only accept day/month orders that cannot be read both ways.
+  if (a > 12 && b <= 12) return { year: c, month: b, day: a };
+  if (b > 12 && a <= 12) return { year: c, month: a, day: b };
+  if (a === b) return { year: c, month: a, day: b };
+  return null;
+};
+
+/**
+ * Reads one side of a date ("19 May 2025", "May 19, 2025", "2025, May 19",
+ * "Spring 2024", "2024-05") into its components. Returns null when any token
+ * is not recognised.
+ */
+const parsePartial = (text: string): PartialDate | null => {
+  const trimmed = text.trim();
+  const iso = ISO_DATE.exec(trimmed);
+  if (iso) {
+    return {
+      year: parseInt(iso[1], 10),
+      month: iso[2] ? parseInt(iso[2], 10) : undefined,
+      day: iso[3] ? parseInt(iso[3], 10) : undefined,
+    };
+  }
+
+  const numeric = parseNumeric(trimmed);
+  if (numeric) return numeric;
+
+  const tokens = trimmed.toLowerCase().replace(/[,.]/g, ' ').split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+
+  const result: PartialDate = {};
+  for (const token of tokens) {
+    const ordinal = /^(\d{1,2})(?:st|nd|rd|th)?$/.exec(token);
+    if (/^\d{4}$/.test(token) && result.year === undefined) {
+      result.year = parseInt(token, 10);
+    } else if (ordinal && result.day === undefined) {
+      result.day = parseInt(ordinal[1], 10);
+    } else if (token in MONTHS && result.month === undefined) {
+      result.month = MONTHS[token];
+    } else if (token in SEASONS && result.season === undefined) {
+      result.season = SEASONS[token];
+    } else if (token !== 'of') {
+      return null;
+    }
+  }
+  return result;
+};
+
+const finalise = (start: PartialDate, end?: PartialDate): CslDate | null => {
+  if (end) {
+    // "12–15 March 2024" and "May–June 2024" leave the start side incomplete;
+    // borrow the missing pieces from the end side.
+    if (start.year === undefined) start.year = end.year;
+    if (start.month === undefined && start.day !== undefined) start.month = end.month;
+    if (end.month === undefined && end.day !== undefined) end.month = start.month;
+    if (end.year === undefined) end.year = start.year;
+  }
+
+  const sides = end ? [start, end] : [start];
+  if (sides.some(side => side.year === undefined || !isValid(side))) return null;
+  if (sides.some(side => side.day !== undefined && side.season !== undefined)) return null;
+
+  const date: CslDate = { 'date-parts': sides.map(toDateParts) };
+  const season = start.season ?? end?.season;
+  if (season !== undefined) date.season = season;
+  return date;
+};
+
+/**
+ * Converts a spreadsheet date cell into a CSL date. Supports ISO dates,
+ * written-out day/month/year orders, seasons, ranges, circa dates, "n.d."
+ * and "in press".
+ */
+export const parseDate = (cell: string): DateParseResult => {
+  const text = (cell ?? '').trim().replace(/\s+/g, ' ');
+  if (!text || NO_DATE.test(text)) return {};
+  if (IN_PRESS.test(text)) return { date: { literal: 'in press' } };
+
+  const circaMatch = CIRCA.exec(text) ?? /^\[(.+)\?\]$/.exec(text);
+  const body = circaMatch ? circaMatch[1] : text;
+
+  const isoInterval = body.split('/');
+  const sides = isoInterval.length === 2 && isoInterval.every(part => ISO_DATE.test(part.trim()))
+    ? isoInterval
+    : body.split(RANGE_SEPARATOR);
+
+  if (sides.length > 2) {
+    return { error: `Unrecognised date "${text}"` };
+  }
+
+  const partials = sides.map(parsePartial);
+  if (partials.some(partial => partial === null)) {
+    if (NUMERIC_DATE.test(body)) {
+      return { error: `Ambiguous day/month order in "${text}"; use YYYY-MM-DD` };
+    }
+    return { error: `Unrecognised date "${text}"` };
+  }
+
+  const date = finalise(partials[0] as PartialDate, partials[1] ?? undefined);
+  if (!date) {
+    return { error: `Invalid or incomplete date "${text}"` };
+  }
+  if (circaMatch) date.circa = true;
+  return { date };
+};
@@ -0,0 +1,31 @@
+import type { LogEntry, LogEvent, LogLevel, LogStage } from './types';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'success', 'warning', 'error'];
+
+/** Pipeline stages in the order a run goes through them. */
+export const LOG_STAGES: LogStage[] = ['fetch', 'parse', 'map', 'validate', 'render'];
+
+export const stampLogEvent = (event: LogEvent, time: Date = new Date()): LogEntry => ({ time: time.toISOString(), ...event });
+
+export interface LogFilter {
+  /** Levels to show; every level when empty. */
+  levels: LogLevel[];
+  /** Null shows every stage, including entries with none. */
+  stage: LogStage | null;
+  /** Null shows every row, including entries about no row. */
+  row: number | null;
+}
+
+export const EMPTY_LOG_FILTER: LogFilter = { levels: [], stage: null, row: null };
+
+export const matchesLogFilter = (entry: LogEntry, { levels, stage, row }: LogFilter): boolean =>
+  (levels.length === 0 || levels.includes(entry.level)) &&
+  (stage === null || entry.stage === stage) &&
+  (row === null || entry.row === row);
+
+/**
+ * The log as pretty-printed JSON for attaching to a bug report. `context`
+ * is written above the entries, e.g. the styles and row count of the run.
+ */
+export const serializeLog = (entries: LogEntry[], context: Record<string, unknown> = {}): string =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), ...context, entries }, null, 2);
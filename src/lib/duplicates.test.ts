@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { defaultMergeSelection, mergeItems } from './duplicates';
+import type { CslItem } from './types';
+
+const items: CslItem[] = [
+  { id: 'item_1', type: 'article-journal', title: 'Sleep and memory', volume: '12' },
+  { id: 'item_4', type: 'article-journal', title: 'Sleep & memory', DOI: '10.1000/xyz', author: [{ family: 'Smith', given: 'J.' }] },
+];
+
+describe('mergeItems', () => {
+  it('fills each field from the first item that has it by default', () => {
+    expect(mergeItems(items, defaultMergeSelection(items))).toEqual({
+      id: 'item_1', type: 'article-journal', title: 'Sleep and memory', volume: '12', DOI: '10.1000/xyz', author: [{ family: 'Smith', given: 'J.' }],
+    });
+  });
+
+  it('takes selected fields from the chosen item under the first id', () => {
+    const merged = mergeItems(items, { ...defaultMergeSelection(items), title: 'item_4' });
+    expect(merged.id).toBe('item_1');
+    expect(merged.title).toBe('Sleep & memory');
+  });
+});
@@ -0,0 +1,181 @@
+import type { CslItem } from './types';
+
+export type DuplicateReason = 'doi' | 'url' | 'similar';
+
+/** Items that look like the same source. The first id, lowest row, is the one kept on merge. */
+export interface DuplicateGroup {
+  id: string;
+  itemIds: string[];
+  /** The strongest evidence linking the group. */
+  reason: DuplicateReason;
+  /** Lowest title similarity (0–1) among near matches in the group. */
+  similarity?: number;
+}
+
+/** Field name -> id of the item whose value the merged item takes. */
+export type MergeSelection = Record<string, string>;
+
+const REASON_RANK: Record<DuplicateReason, number> = { doi: 0, url: 1, similar: 2 };
+
+/** Titles at least this similar, by the same first author in the same year, count as near matches. */
+export const SIMILARITY_THRESHOLD = 0.85;
+
+const normalizeText = (text: string): string =>
+  text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const normalizeDoi = (doi: string): string =>
+  doi.trim().toLowerCase().replace(/^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)/, '');
+
+const normalizeUrl = (url: string): string =>
+  url.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/[/#?]+$/, '');
+
+const firstAuthorKey = (item: CslItem): string => {
+  const name = item.author?.[0];
+  if (!name) return '';
+  return normalizeText('literal' in name ? name.literal : name.family);
+};
+
+const yearOf = (item: CslItem): string => String(item.issued?.['date-parts']?.[0]?.[0] ?? '');
+
+const bigrams = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const compact = text.replace(/ /g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+};
+
+/** Sørensen–Dice coefficient over character bigrams of two normalised titles. */
+export const titleSimilarity = (a: string, b: string): number => {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  if (left === right) return 1;
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  let shared = 0;
+  let total = 0;
+  for (const [pair, count] of leftPairs) {
+    shared += Math.min(count, rightPairs.get(pair) ?? 0);
+    total += count;
+  }
+  for (const count of rightPairs.values()) total += count;
+  return total === 0 ? 0 : (2 * shared) / total;
+};
+
+/**
+ * Finds items entered more than once: exact DOI or URL matches, and near
+ * matches on title among items with the same first author and year.
+ */
+export const findDuplicates = (items: CslItem[]): DuplicateGroup[] => {
+  const parent = items.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const links: Array<{ a: number; b: number; reason: DuplicateReason; similarity?: number }> = [];
+  const link = (a: number, b: number, reason: DuplicateReason, similarity?: number): void => {
+    links.push({ a, b, reason, similarity });
+    parent[find(b)] = find(a);
+  };
+
+  const linkExact = (key: (item: CslItem) => string | undefined, reason: DuplicateReason): void => {
+    const seen = new Map<string, number>();
+    items.forEach((item, index) => {
+      const value = key(item);
+      if (!value) return;
+      const first = seen.get(value);
+      if (first === undefined) seen.set(value, index);
+      else link(first, index, reason);
+    });
+  };
+  linkExact(item => (item.DOI ? normalizeDoi(item.DOI) : undefined), 'doi');
+  linkExact(item => (item.URL ? normalizeUrl(item.URL) : undefined), 'url');
+
+  const buckets = new Map<string, number[]>();
+  items.forEach((item, index) => {
+    if (!item.title) return;
+    const key = `${firstAuthorKey(item)}|${yearOf(item)}`;
+    buckets.set(key, [...(buckets.get(key) ?? []), index]);
+  });
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = [bucket[i], bucket[j]];
+        if (find(a) === find(b)) continue;
+        const similarity = titleSimilarity(items[a].title ?? '', items[b].title ?? '');
+        if (similarity >= SIMILARITY_THRESHOLD) link(a, b, 'similar', similarity);
+      }
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  items.forEach((_, index) => {
+    const root = find(index);
+    members.set(root, [...(members.get(root) ?? []), index]);
+  });
+
+  return [...members.values()]
+    .filter(indexes => indexes.length > 1)
+    .map((indexes, groupIndex): DuplicateGroup => {
+      const groupLinks = links.filter(entry => indexes.includes(entry.a));
+      const reason = groupLinks.reduce<DuplicateReason>((best, entry) => (REASON_RANK[entry.reason] < REASON_RANK[best] ? entry.reason : best), 'similar');
+      const similarities = groupLinks.flatMap(entry => (entry.similarity === undefined ? [] : [entry.similarity]));
+      return {
+        id: `duplicate_${groupIndex + 1}`,
+        itemIds: indexes.map(index => items[index].id),
+        reason,
+        ...(similarities.length ? { similarity: Math.min(...similarities) } : {}),
+      };
+    });
+};
+
+/** Every field set on any of the items, in a stable order. */
+export const mergeableFields = (items: CslItem[]): Array<keyof CslItem> =>
+  [...new Set(items.flatMap(item => Object.keys(item) as Array<keyof CslItem>))].filter(field => field !== 'id');
+
+/** Takes each field from the first item, in group order, that has it. */
+export const defaultMergeSelection = (items: CslItem[]): MergeSelection =>
+  Object.fromEntries(mergeableFields(items).map(field => [
+    field,
+    (items.find(item => item[field] !== undefined) ?? items[0]).id,
+  ]));
+
+const copyField = <K extends keyof CslItem>(target: CslItem, source: CslItem, field: K): void => {
+  if (source[field] !== undefined) target[field] = source[field];
+};
+
+/** Builds the merged item under the first item's id. */
+export const mergeItems = (items: CslItem[], selection: MergeSelection): CslItem => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const merged: CslItem = { id: items[0].id, type: items[0].type };
+  for (const field of mergeableFields(items)) {
+    copyField(merged, byId.get(selection[field]) ?? items[0], field);
+  }
+  return merged;
+};
+
+/**
+ * Replaces each accepted group with its merged item. Returns the remaining
+ * items and, for every row folded into another, the id it was merged into.
+ */
+export const applyMerges = (
+  items: CslItem[],
+  groups: DuplicateGroup[],
+  selections: Record<string, MergeSelection>
+): { items: CslItem[]; mergedInto: Record<string, string> } => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const mergedInto: Record<string, string> = {};
+  const replacements = new Map<string, CslItem>();
+
+  for (const group of groups) {
+    const members = group.itemIds.map(id => byId.get(id)).filter((item): item is CslItem => Boolean(item));
+    if (members.length < 2) continue;
+    const selection = { ...defaultMergeSelection(members), ...selections[group.id] };
+    replacements.set(members[0].id, mergeItems(members, selection));
+    for (const member of members.slice(1)) mergedInto[member.id] = members[0].id;
+  }
+
+  return {
+    items: items.filter(item => !mergedInto[item.id]).map(item => replacements.get(item.id) ?? item),
+    mergedInto,
+  };
+};
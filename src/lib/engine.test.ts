@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { generateCitations } from './engine';
+import { BUNDLED_STYLES } from './styles';
+import type { CslItem } from './types';
+
+const styleXml = (id: string): string => BUNDLED_STYLES.find(style => style.id === id)!.xml;
+
+const book = (n: number, family: string, year: number): CslItem => ({
+  id: `item_${n}`,
+  type: 'book',
+  title: `Book by ${family}`,
+  author: [{ family, given: 'A.' }],
+  issued: { 'date-parts': [[year]] },
+  publisher: 'Press',
+});
+
+// Deliberately out of alphabetical order, so APA sorts them differently from the rows.
+const items = [book(1, 'Zimmer', 2020), book(2, 'Adams', 2019), book(3, 'Miller', 2018)];
+
+describe('generateCitations', () => {
+  it('matches sorted bibliography entries to items through entry_ids', () => {
+    const { ids, citations, errors } = generateCitations(items, styleXml('apa'), 'en-US', {});
+    expect(errors).toEqual([]);
+    expect(ids).toEqual(['item_2', 'item_3', 'item_1']);
+    expect(citations.map(citation => citation.split(',')[0])).toEqual(['Adams', 'Miller', 'Zimmer']);
+  });
+
+  it('keeps first-cite order for numeric styles', () => {
+    const { ids } = generateCitations(items, styleXml('ieee'), 'en-US', {});
+    expect(ids).toEqual(['item_1', 'item_2', 'item_3']);
+  });
+
+  it('renders in-text citations with locators', () => {
+    const { inText } = generateCitations(items, styleXml('apa'), 'en-US', { item_2: { locator: '12', label: 'page' } });
+    expect(inText.item_1.parenthetical).toBe('(Zimmer, 2020)');
+    expect(inText.item_2.parenthetical).toBe('(Adams, 2019, p. 12)');
+    expect(inText.item_3.narrative).toBe('Miller (2018)');
+  });
+
+  it('never prints the placeholder of an empty author-only or author-suppressed cluster', () => {
+    const two: CslItem[] = [{ ...book(1, 'Okonjo', 2024), author: [{ family: 'Okonjo', given: 'A.' }, { family: 'Adebayo', given: 'B.' }] }];
+    const ieee = generateCitations(two, styleXml('ieee'), 'en-US', {}).inText.item_1;
+    expect(ieee.narrative).toBe('[1]');
+    const vancouver = generateCitations(two, styleXml('vancouver'), 'en-US', {}).inText.item_1;
+    expect(vancouver.narrative).not.toContain('NO_PRINTED_FORM');
+    const mla = generateCitations(two, styleXml('modern-language-association'), 'fr-FR', {}).inText.item_1;
+    expect(mla.narrative).toBe('Okonjo et Adebayo');
+    const mlaPage = generateCitations(two, styleXml('modern-language-association'), 'en-US', { item_1: { locator: '12', label: 'page' } }).inText.item_1;
+    expect(mlaPage.narrative).toBe('Okonjo and Adebayo (12)');
+  });
+
+  it('reports an invalid style instead of throwing', () => {
+    const result = generateCitations(items, 'not a style', null, {});
+    expect(result.citations).toEqual([]);
+    expect(result.session).toBeNull();
+    expect(result.errors[0]).toMatch(/Invalid CSL style/);
+  });
+});
@@ -0,0 +1,169 @@
+import CSL from 'citeproc';
+import { makeInTextCitation } from './inText';
+import { resolveLocale, retrieveLocale } from './locales';
+import { htmlToPlainText, sanitizeCitationHtml } from './richText';
+import type { CitationLocator, CslItem, DebugLog, InTextCitation } from './types';
+
+type Engine = InstanceType<typeof CSL.Engine>;
+
+/** A live engine kept after a run, for grouped citations and for re-rendering edited items. */
+export interface CitationSession {
+  engine: Engine;
+  /** The items the engine reads through `sys.retrieveItem`. */
+  store: Map<string, CslItem>;
+  /** Registered item ids, in registration order. */
+  ids: string[];
+}
+
+export interface StyleCitations {
+  /** Item id of each bibliography entry, in the style's order. */
+  ids: string[];
+  citations: string[];
+  formattedCitations: string[];
+  inText: Record<string, InTextCitation>;
+  errors: string[];
+  /** Null when rendering failed. */
+  session: CitationSession | null;
+}
+
+export interface RenderedItem {
+  citation: string;
+  formattedCitation: string;
+  inText: InTextCitation;
+}
+
+const noop: DebugLog = () => {};
+
+/**
+ * Renders the bibliography and in-text citations of `cslItems` in one style.
+ * Failures are reported in `errors` rather than thrown, so one broken style
+ * does not stop the others in a multi-style run.
+ */
+export const generateCitations = (
+  cslItems: CslItem[],
+  cslStyle: string,
+  locale: string | null,
+  locators: Record<string, CitationLocator>,
+  debug: DebugLog = noop,
+  onProgress?: (done: number, total: number) => void
+): StyleCitations => {
+  const errors: string[] = [];
+
+  try {
+    debug({ level: 'debug', stage: 'render', message: `Initializing CSL engine with ${cslItems.length} items` });
+
+    // Validate and clean CSL style
+    if (!cslStyle || !cslStyle.includes('<style')) {
+      throw new Error('Invalid CSL style: not a valid XML document');
+    }
+
+    const store = new Map(cslItems.map(item => [item.id, item]));
+    const sys = {
+      retrieveLocale: (lang: string) => {
+        const resolved = resolveLocale(lang);
+        debug({ level: 'debug', stage: 'render', message: `Retrieving locale ${lang}${resolved === lang ? '' : ` (using ${resolved})`}` });
+        return retrieveLocale(lang);
+      },
+      retrieveItem: (id: string) => {
+        const item = store.get(id);
+        if (!item) debug({ level: 'warning', stage: 'render', row: parseInt(id.replace('item_', ''), 10), message: `Retrieving item ${id}: not found` });
+        return item;
+      }
+    };
+
+    // Initialize CSL engine with error handling
+    let engine;
+    try {
+      // An explicit locale overrides the style's default-locale; otherwise citeproc honours it.
+      engine = locale ? new CSL.Engine(sys, cslStyle, locale, true) : new CSL.Engine(sys, cslStyle);
+      debug({ level: 'debug', stage: 'render', message: 'CSL engine initialized successfully' });
+    } catch (engineError) {
+      debug({ level: 'error', stage: 'render', message: `CSL engine initialization failed: ${engineError}` });
+      throw new Error(`Failed to initialize citation engine: ${engineError}`);
+    }
+
+    const itemIDs = cslItems.map(item => item.id);
+    debug({ level: 'debug', stage: 'render', message: `Updating ${itemIDs.length} items` });
+
+    try {
+      engine.updateItems(itemIDs);
+      debug({ level: 'debug', stage: 'render', message: 'Items updated in engine' });
+    } catch (updateError) {
+      debug({ level: 'error', stage: 'render', message: `Failed to update items: ${updateError}` });
+      throw new Error(`Failed to update citation items: ${updateError}`);
+    }
+
+    try {
+      const bib = engine.makeBibliography();
+      debug({ level: 'debug', stage: 'render', message: `Bibliography generated: ${bib ? 'success' : 'failed'}` });
+
+      if (bib && bib[1] && Array.isArray(bib[1]) && bib[1].length > 0) {
+        // Styles sort their bibliography (APA alphabetically, numeric styles by first cite),
+        // so entries are matched back to items through citeproc's entry_ids, never by position.
+        const ids = bib[0].entry_ids.map(entryIds => String(entryIds[0]));
+        debug({ level: 'debug', stage: 'render', message: 'Bibliography order', payload: ids });
+        const citations = bib[1].map((citationHtml, index) => {
+          const cleanText = htmlToPlainText(citationHtml);
+          debug({ level: 'debug', stage: 'render', row: parseInt(ids[index].replace('item_', ''), 10), message: `Rendered: ${cleanText}` });
+          return cleanText;
+        });
+        const formattedCitations = bib[1].map(citationHtml => sanitizeCitationHtml(citationHtml));
+
+        const inText: Record<string, InTextCitation> = {};
+        cslItems.forEach((item, index) => {
+          try {
+            inText[item.id] = makeInTextCitation(engine, { id: item.id, locator: locators[item.id] }, htmlToPlainText);
+          } catch (inTextError) {
+            const errorMsg = `Failed to generate in-text citation for ${item.id}: ${inTextError}`;
+            debug({ level: 'error', stage: 'render', row: parseInt(item.id.replace('item_', ''), 10), message: errorMsg });
+            errors.push(errorMsg);
+          }
+          onProgress?.(index + 1, cslItems.length);
+        });
+        debug({ level: 'debug', stage: 'render', message: `In-text citations generated: ${Object.keys(inText).length}` });
+
+        return { ids, citations, formattedCitations, inText, errors, session: { engine, store, ids: itemIDs } };
+      } else {
+        debug({ level: 'error', stage: 'render', message: 'No bibliography generated or empty result' });
+        throw new Error('Bibliography generation returned empty result');
+      }
+    } catch (bibError) {
+      debug({ level: 'error', stage: 'render', message: `Bibliography generation failed: ${bibError}` });
+      throw new Error(`Failed to generate bibliography: ${bibError}`);
+    }
+
+  } catch (error) {
+    const errorMsg = `Citation generation failed: ${error}`;
+    debug({ level: 'error', stage: 'render', message: errorMsg });
+    errors.push(errorMsg);
+    return { ids: [], citations: [], formattedCitations: [], inText: {}, errors, session: null };
+  }
+};
+
+/** citeproc only fetches ids it has not registered, so an edited item is dropped and registered again. */
+const refresh = (session: CitationSession, id: string): void => {
+  session.engine.updateItems(session.ids.filter(registered => registered !== id));
+  session.engine.updateItems(session.ids);
+};
+
+/** Re-renders one edited item in a live session without rebuilding the engine. */
+export const rerenderItem = (session: CitationSession, item: CslItem, locator?: CitationLocator): RenderedItem => {
+  session.store.set(item.id, item);
+  if (!session.ids.includes(item.id)) session.ids.push(item.id);
+  refresh(session, item.id);
+
+  const bib = session.engine.makeBibliography({ select: [{ field: 'id', value: item.id }] });
+  const html = bib ? bib[1].join('') : '';
+  return {
+    citation: htmlToPlainText(html),
+    formattedCitation: sanitizeCitationHtml(html),
+    inText: makeInTextCitation(session.engine, { id: item.id, locator }, htmlToPlainText)
+  };
+};
+
+/** Removes an item that no longer passes validation from a live session. */
+export const dropItem = (session: CitationSession, id: string): void => {
+  session.ids = session.ids.filter(registered => registered !== id);
+  session.store.delete(id);
+  session.engine.updateItems(session.ids);
+};
@@ -0,0 +1,20 @@
+import type { MetadataResolver } from './types';
+import { normalizeCslRecord } from './normalize';
+
+/**
+ * Resolves DOIs through doi.org content negotiation, which answers with
+ * CSL-JSON for both Crossref and DataCite registered DOIs.
+ */
+export const createDoiResolver = (fetchImpl: typeof fetch = fetch.bind(globalThis)): MetadataResolver => ({
+  id: 'doi',
+  label: 'DOI (Crossref / DataCite)',
+  canResolve: item => Boolean(item.DOI),
+  resolve: async item => {
+    const response = await fetchImpl(`https://doi.org/${encodeURIComponent(item.DOI as string).replace(/%2F/g, '/')}`, {
+      headers: { Accept: 'application/vnd.citationstyles.csl+json' },
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`DOI lookup failed for ${item.DOI}: ${response.status} ${response.statusText}`);
+    return normalizeCslRecord(await response.json());
+  },
+});
@@ -0,0 +1,28 @@
+import type { MetadataResolver } from './types';
+import { normalizeIsbn } from './isbnResolver';
+import { normalizeCslRecord } from './normalize';
+
+/**
+ * Serves metadata from a local JSON object keyed by DOI or ISBN, e.g.
+ * `{ "10.1234/abc": { "title": "…", "author": [...] } }`. Useful offline and in tests.
+ */
+export const createFixtureResolver = (fixtures: Record<string, Record<string, unknown>>, label = 'Local fixture file'): MetadataResolver => {
+  const byKey = new Map<string, Record<string, unknown>>();
+  for (const [key, record] of Object.entries(fixtures)) {
+    const isDoi = key.trim().startsWith('10.');
+    byKey.set(isDoi ? key.trim().toLowerCase() : normalizeIsbn(key), record);
+  }
+
+  const lookup = (doi?: string, isbn?: string): Record<string, unknown> | undefined =>
+    (doi ? byKey.get(doi.trim().toLowerCase()) : undefined) ?? (isbn ? byKey.get(normalizeIsbn(isbn)) : undefined);
+
+  return {
+    id: 'fixture',
+    label,
+    canResolve: item => Boolean(lookup(item.DOI, item.ISBN)),
+    resolve: async item => {
+      const record = lookup(item.DOI, item.ISBN);
+      return record ? normalizeCslRecord(record) : null;
+    },
+  };
+};
@@ -0,0 +1,75 @@
+import type { CslItem } from '../types';
+import type { EnrichableField, EnrichmentProposal, FieldChange, MetadataResolver, ResolvedMetadata } from './types';
+
+export { createDoiResolver } from './doiResolver';
+export { createFixtureResolver } from './fixtureResolver';
+export { createIsbnResolver } from './isbnResolver';
+export type { EnrichableField, EnrichmentProposal, FieldChange, MetadataResolver, ResolvedMetadata } from './types';
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/** Only items missing a core field are worth a lookup. */
+const needsEnrichment = (item: CslItem): boolean =>
+  isEmpty(item.title) || isEmpty(item.author) || isEmpty(item.issued) ||
+  (item.type === 'article-journal' && isEmpty(item['container-title'])) ||
+  ((item.type === 'book' || item.type === 'chapter') && isEmpty(item.publisher));
+
+/**
+ * Asks each resolver in turn (first match wins) for metadata on items with
+ * gaps, and returns the fields it would fill in. Existing values are never
+ * overwritten. Lookups run a few at a time.
+ */
+export const enrichItems = async (
+  items: CslItem[],
+  resolvers: MetadataResolver[],
+  options: { concurrency?: number; onProgress?: (done: number, total: number) => void; onError?: (item: CslItem, error: unknown) => void } = {}
+): Promise<EnrichmentProposal[]> => {
+  const candidates = items.filter(item => needsEnrichment(item) && resolvers.some(resolver => resolver.canResolve(item)));
+  const proposals: EnrichmentProposal[] = [];
+  let next = 0;
+  let done = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < candidates.length) {
+      const item = candidates[next++];
+      for (const resolver of resolvers.filter(r => r.canResolve(item))) {
+        try {
+          const metadata = await resolver.resolve(item);
+          if (!metadata) continue;
+          const changes = (Object.entries(metadata) as Array<[EnrichableField, ResolvedMetadata[EnrichableField]]>)
+            .filter(([field, value]) => !isEmpty(value) && isEmpty(item[field]))
+            .map(([field, value]): FieldChange => ({ field, value }));
+          if (changes.length) {
+            proposals.push({ itemId: item.id, resolverId: resolver.id, resolverLabel: resolver.label, changes });
+          }
+          break;
+        } catch (error) {
+          options.onError?.(item, error);
+        }
+      }
+      options.onProgress?.(++done, candidates.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(options.concurrency ?? 4, candidates.length) }, worker));
+  const order = new Map(items.map((item, index) => [item.id, index]));
+  return proposals.sort((a, b) => (order.get(a.itemId) ?? 0) - (order.get(b.itemId) ?? 0));
+};
+
+export const changeKey = (itemId: string, field: EnrichableField): string => `${itemId}:${field}`;
+
+/** Folds the accepted changes (by `changeKey`) into per-item overrides. */
+export const acceptedOverrides = (proposals: EnrichmentProposal[], accepted: Set<string>): Record<string, ResolvedMetadata> => {
+  const overrides: Record<string, ResolvedMetadata> = {};
+  for (const proposal of proposals) {
+    for (const change of proposal.changes) {
+      if (!accepted.has(changeKey(proposal.itemId, change.field))) continue;
+      overrides[proposal.itemId] = { ...overrides[proposal.itemId], [change.field]: change.value };
+    }
+  }
+  return overrides;
+};
+
+export const applyOverrides = (items: CslItem[], overrides: Record<string, ResolvedMetadata>): CslItem[] =>
+  items.map(item => (overrides[item.id] ? { ...item, ...overrides[item.id] } : item));
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { createIsbnResolver } from './isbnResolver';
+
+const resolverFor = (book: unknown) =>
+  createIsbnResolver(async () => new Response(JSON.stringify({ 'ISBN:9780306406157': book })));
+
+describe('createIsbnResolver', () => {
+  it('reads author names like sheet input', async () => {
+    const resolver = resolverFor({
+      title: 'Collected letters',
+      authors: [{ name: 'Vincent van Gogh' }, { name: 'Martin Luther King Jr.' }, { name: 'World Health Organization' }, { name: 'Plato' }],
+    });
+    const metadata = await resolver.resolve({ id: 'item_1', type: 'book', ISBN: '978-0-306-40615-7' });
+    expect(metadata?.author).toEqual([
+      { family: 'Gogh', given: 'Vincent', 'non-dropping-particle': 'van' },
+      { family: 'King', given: 'Martin Luther', suffix: 'Jr.' },
+      { literal: 'World Health Organization' },
+      { literal: 'Plato' },
+    ]);
+  });
+});
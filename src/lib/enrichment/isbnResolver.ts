@@ -0,0 +1,44 @@
+import { parseDate } from '../dates';
+import { parseName } from '../names';
+import type { MetadataResolver, ResolvedMetadata } from './types';
+
+interface OpenLibraryBook {
+  title?: string;
+  subtitle?: string;
+  authors?: Array<{ name?: string }>;
+  publishers?: Array<{ name?: string }>;
+  publish_date?: string;
+  url?: string;
+}
+
+export const normalizeIsbn = (isbn: string): string => isbn.replace(/[^0-9Xx]/g, '').toUpperCase();
+
+const toMetadata = (book: OpenLibraryBook): ResolvedMetadata => {
+  const result: ResolvedMetadata = {};
+  if (book.title) result.title = book.subtitle ? `${book.title}: ${book.subtitle}` : book.title;
+  const authors = (book.authors ?? []).map(author => author.name?.trim()).filter((name): name is string => Boolean(name));
+  // Read like sheet names, so particles, suffixes and organisations come out the same.
+  if (authors.length) result.author = authors.map(name => parseName(name));
+  const publisher = book.publishers?.[0]?.name;
+  if (publisher) result.publisher = publisher;
+  if (book.publish_date) {
+    const { date } = parseDate(book.publish_date);
+    if (date) result.issued = date;
+  }
+  return result;
+};
+
+/** Resolves ISBNs through the Open Library books API. */
+export const createIsbnResolver = (fetchImpl: typeof fetch = fetch.bind(globalThis)): MetadataResolver => ({
+  id: 'isbn',
+  label: 'ISBN (Open Library)',
+  canResolve: item => Boolean(item.ISBN && normalizeIsbn(item.ISBN).length >= 10),
+  resolve: async item => {
+    const isbn = normalizeIsbn(item.ISBN as string);
+    const response = await fetchImpl(`https://openlibrary.org/api/books?bibkeys=ISBN:${isbn}&format=json&jscmd=data`);
+    if (!response.ok) throw new Error(`ISBN lookup failed for ${isbn}: ${response.status} ${response.statusText}`);
+    const data = (await response.json()) as Record<string, OpenLibraryBook>;
+    const book = data[`ISBN:${isbn}`];
+    return book ? toMetadata(book) : null;
+  },
+});
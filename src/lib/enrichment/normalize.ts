@@ -0,0 +1,45 @@
+import type { CslName } from '../types';
+import type { EnrichableField, ResolvedMetadata } from './types';
+
+const ENRICHABLE_FIELDS: EnrichableField[] = [
+  'title', 'author', 'editor', 'issued', 'container-title', 'volume', 'issue', 'page', 'publisher', 'DOI', 'ISBN', 'URL',
+];
+
+const firstString = (value: unknown): string | undefined => {
+  if (Array.isArray(value)) return firstString(value[0]);
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const toNames = (value: unknown): CslName[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const names = value.flatMap((entry): CslName[] => {
+    if (typeof entry !== 'object' || entry === null) return [];
+    const { family, given, literal, name } = entry as Record<string, unknown>;
+    if (typeof family === 'string' && family) return [{ family, given: typeof given === 'string' ? given : '' }];
+    const single = firstString(literal) ?? firstString(name);
+    return single ? [{ literal: single }] : [];
+  });
+  return names.length ? names : undefined;
+};
+
+/** Picks the enrichable fields out of a loosely-typed CSL-JSON record. */
+export const normalizeCslRecord = (record: Record<string, unknown>): ResolvedMetadata => {
+  const result: ResolvedMetadata = {};
+  for (const field of ENRICHABLE_FIELDS) {
+    const value = record[field];
+    if (field === 'author' || field === 'editor') {
+      const names = toNames(value);
+      if (names) result[field] = names;
+    } else if (field === 'issued') {
+      const issued = value as { 'date-parts'?: unknown } | undefined;
+      const parts = Array.isArray(issued?.['date-parts']) ? (issued?.['date-parts'] as unknown[][]) : undefined;
+      const numeric = parts?.map(part => part.map(Number).filter(n => !Number.isNaN(n))).filter(part => part.length);
+      if (numeric?.length) result.issued = { 'date-parts': numeric };
+    } else {
+      const text = firstString(value);
+      if (text) result[field] = text;
+    }
+  }
+  return result;
+};
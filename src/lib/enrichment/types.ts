@@ -0,0 +1,43 @@
+import type { CslItem } from '../types';
+
+/** Fields a resolver may fill in. Type and id always stay as the sheet had them. */
+export type EnrichableField =
+  | 'title'
+  | 'author'
+  | 'editor'
+  | 'issued'
+  | 'container-title'
+  | 'volume'
+  | 'issue'
+  | 'page'
+  | 'publisher'
+  | 'DOI'
+  | 'ISBN'
+  | 'URL';
+
+export type ResolvedMetadata = Partial<Pick<CslItem, EnrichableField>>;
+
+/**
+ * Looks up bibliographic metadata for an item from an external or local
+ * source. Resolvers return null when they have nothing for the item and
+ * throw only on transport errors.
+ */
+export interface MetadataResolver {
+  id: string;
+  label: string;
+  canResolve: (item: CslItem) => boolean;
+  resolve: (item: CslItem) => Promise<ResolvedMetadata | null>;
+}
+
+/** A value for a field the sheet left blank; enrichment never overwrites data. */
+export interface FieldChange {
+  field: EnrichableField;
+  value: ResolvedMetadata[EnrichableField];
+}
+
+export interface EnrichmentProposal {
+  itemId: string;
+  resolverId: string;
+  resolverLabel: string;
+  changes: FieldChange[];
+}
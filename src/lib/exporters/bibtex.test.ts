@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { parseBibtex } from '../importers/bibtex';
+import { exportBibtex } from './bibtex';
+
+describe('exportBibtex', () => {
+  it('escapes LaTeX special characters in one pass', () => {
+    const bibtex = exportBibtex([{ id: 'item_1', type: 'book', title: 'C:\\temp {draft} 50% & ~x^2_1' }]);
+    expect(bibtex).toContain('title = {C:\\textbackslash{}temp \\{draft\\} 50\\% \\& \\textasciitilde{}x\\textasciicircum{}2\\_1}');
+  });
+
+  it('leaves out missing given names', () => {
+    const bibtex = exportBibtex([{ id: 'item_1', type: 'book', title: 'A', author: [{ family: 'Smith', given: '' }, { family: 'King', given: '', suffix: 'Jr' }] }]);
+    expect(bibtex).toContain('author = {Smith and King, Jr, }');
+  });
+
+  it('round-trips report numbers and the other added variables', () => {
+    const item = {
+      id: 'item_1', type: 'report', title: 'Water survey', number: 'WB-12', edition: '2', 'collection-title': 'Working papers',
+      publisher: 'World Bank', 'publisher-place': 'Washington, DC', ISSN: '1234-5678', note: 'Draft',
+    };
+    const { items, warnings } = parseBibtex(exportBibtex([item]));
+    expect(items).toEqual([item]);
+    expect(warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import type { CslDate, CslItem, CslName } from '../types';
+import { generateCitationKeys } from './citationKeys';
+
+const ENTRY_TYPES: Record<string, string> = {
+  'article-journal': 'article',
+  'article-magazine': 'article',
+  'article-newspaper': 'article',
+  article: 'article',
+  book: 'book',
+  chapter: 'incollection',
+  'paper-conference': 'inproceedings',
+  thesis: 'phdthesis',
+  report: 'techreport',
+  manuscript: 'unpublished',
+  pamphlet: 'booklet',
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+};
+
+// One pass, so the braces of an inserted command are not escaped again.
+const escapeLatex = (value: string): string =>
+  value.replace(/[\\{}&%$#_~^]/g, char => LATEX_ESCAPES[char] ?? `\\${char}`);
+
+/** "von Last, Jr, First", with particles, suffix and given names only when the name has them. */
+const formatNames = (names: CslName[]): string =>
+  names
+    .map(name => {
+      if ('literal' in name) return `{${escapeLatex(name.literal)}}`;
+      const last = [name['non-dropping-particle'], name.family].filter(Boolean).join(' ');
+      const first = [name.given, name['dropping-particle']].filter(Boolean).join(' ');
+      // With a suffix the first part stays, even empty, so the suffix is not read as given names.
+      return (name.suffix ? [last, name.suffix, first] : [last, first].filter(Boolean)).map(escapeLatex).join(', ');
+    })
+    .join(' and ');
+
+const isoDate = (date?: CslDate): string | undefined => {
+  const parts = date?.['date-parts']?.[0];
+  if (!parts) return undefined;
+  return parts.map((part, i) => (i === 0 ? String(part) : String(part).padStart(2, '0'))).join('-');
+};
+
+/** Writes items as BibTeX entries keyed by generated citation keys. */
+export const exportBibtex = (items: CslItem[]): string => {
+  const keys = generateCitationKeys(items);
+
+  return items
+    .map(item => {
+      const entryType = ENTRY_TYPES[item.type] ?? (item.URL ? 'online' : 'misc');
+      // BibTeX has one `number` field for a journal issue and a report or series number.
+      const number = item.issue ?? item.number;
+      const fields: Array<[string, string | undefined]> = [
+        ['author', item.author && formatNames(item.author)],
+        ['editor', item.editor && formatNames(item.editor)],
+        ['translator', item.translator && formatNames(item.translator)],
+        ['title', item.title && escapeLatex(item.title)],
+        [entryType === 'article' ? 'journal' : entryType === 'online' || entryType === 'misc' ? 'howpublished' : 'booktitle',
+          item['container-title'] && escapeLatex(item['container-title'])],
+        ['year', item.issued?.['date-parts']?.[0]?.[0]?.toString() ?? (item.issued?.literal && escapeLatex(item.issued.literal))],
+        ['month', item.issued?.['date-parts']?.[0]?.[1] ? MONTHS[item.issued['date-parts'][0][1] - 1] : undefined],
+        // BibLaTeX reads the full date; classic BibTeX ignores the field.
+        ['date', (item.issued?.['date-parts']?.[0]?.length ?? 0) > 2 ? isoDate(item.issued) : undefined],
+        ['volume', item.volume && escapeLatex(item.volume)],
+        ['number', number && escapeLatex(number)],
+        ['edition', item.edition && escapeLatex(item.edition)],
+        ['series', item['collection-title'] && escapeLatex(item['collection-title'])],
+        ['pages', item.page && escapeLatex(item.page.replace(/[–—]/g, '--'))],
+        [entryType === 'phdthesis' ? 'school' : entryType === 'techreport' ? 'institution' : 'publisher',
+          item.publisher && escapeLatex(item.publisher)],
+        ['address', item['publisher-place'] && escapeLatex(item['publisher-place'])],
+        ['doi', item.DOI],
+        ['isbn', item.ISBN],
+        ['issn', item.ISSN],
+        ['url', item.URL],
+        ['urldate', isoDate(item.accessed)],
+        ['note', item.note && escapeLatex(item.note)],
+      ];
+
+      const body = fields
+        .filter((field): field is [string, string] => Boolean(field[1]))
+        .map(([name, value]) => (name === 'month' ? `  ${name} = ${value}` : `  ${name} = {${value}}`))
+        .join(',\n');
+      return `@${entryType}{${keys.get(item.id)},\n${body}\n}`;
+    })
+    .join('\n\n')
+    .concat('\n');
+};
@@ -0,0 +1,31 @@
+import type { CslItem } from '../types';
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'on', 'of', 'in', 'and', 'for', 'to', 'from', 'with', 'la', 'le', 'les', 'el', 'los', 'o', 'os', 'um', 'uma']);
+
+const asciiWord = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Builds Better BibTeX-style keys ("okonjo2024impact"): first author's family
+ * name, year and first significant title word. Clashes get a, b, c… suffixes.
+ */
+export const generateCitationKeys = (items: CslItem[]): Map<string, string> => {
+  const keys = new Map<string, string>();
+  const used = new Map<string, number>();
+
+  for (const item of items) {
+    const firstName = item.author?.[0] ?? item.editor?.[0];
+    const name = firstName ? asciiWord('literal' in firstName ? firstName.literal.split(/\s+/)[0] : firstName.family) : '';
+    const year = item.issued?.['date-parts']?.[0]?.[0];
+    const titleWord = (item.title ?? '')
+      .split(/\s+/)
+      .map(asciiWord)
+      .find(word => word && !STOP_WORDS.has(word)) ?? '';
+
+    const base = `${name || 'anon'}${year ?? 'nd'}${titleWord}`;
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    keys.set(item.id, count === 0 ? base : `${base}${count <= 26 ? String.fromCharCode(96 + count) : `_${count}`}`);
+  }
+  return keys;
+};
@@ -0,0 +1,8 @@
+import type { CslItem } from '../types';
+import { generateCitationKeys } from './citationKeys';
+
+/** Writes items as CSL-JSON, using the generated citation keys as ids so pandoc and Zotero can cite them. */
+export const exportCslJson = (items: CslItem[]): string => {
+  const keys = generateCitationKeys(items);
+  return JSON.stringify(items.map(item => ({ ...item, id: keys.get(item.id) ?? item.id })), null, 2);
+};
@@ -0,0 +1,22 @@
+import type { CslItem } from '../types';
+import { exportBibtex } from './bibtex';
+import { exportCslJson } from './cslJson';
+import { exportRis } from './ris';
+
+export type ExportFormat = 'csl-json' | 'bibtex' | 'ris';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; filename: string; mimeType: string }> = {
+  'csl-json': { label: 'CSL-JSON', filename: 'references.json', mimeType: 'application/json;charset=utf-8;' },
+  bibtex: { label: 'BibTeX', filename: 'references.bib', mimeType: 'application/x-bibtex;charset=utf-8;' },
+  ris: { label: 'RIS', filename: 'references.ris', mimeType: 'application/x-research-info-systems;charset=utf-8;' },
+};
+
+export const exportReferences = (items: CslItem[], format: ExportFormat): string => {
+  switch (format) {
+    case 'csl-json': return exportCslJson(items);
+    case 'bibtex': return exportBibtex(items);
+    case 'ris': return exportRis(items);
+  }
+};
+
+export { generateCitationKeys } from './citationKeys';
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseRis } from '../importers/ris';
+import { exportRis } from './ris';
+
+describe('exportRis', () => {
+  it('leaves out missing given names', () => {
+    const ris = exportRis([{ id: 'item_1', type: 'book', title: 'A', author: [{ family: 'Smith', given: '' }] }]);
+    expect(ris).toContain('AU  - Smith\r\n');
+  });
+
+  it('writes ISBN and ISSN as SN lines that the importer reads back', () => {
+    const item = { id: 'item_1', type: 'book', title: 'A', ISBN: '978-0-306-40615-7', ISSN: '1234-5678', edition: '2', 'publisher-place': 'Oslo' };
+    const ris = exportRis([item]);
+    expect(ris).toContain('SN  - 978-0-306-40615-7\r\nSN  - 1234-5678\r\n');
+    expect(parseRis(ris).items).toEqual([item]);
+  });
+
+  it('round-trips report numbers, series, genre and notes', () => {
+    const item = {
+      id: 'item_1',
+      type: 'report',
+      title: 'Water quality survey',
+      number: 'TR-2021-04',
+      'collection-title': 'Technical reports',
+      genre: 'Technical report',
+      note: 'Prepared for the county council',
+      publisher: 'Institute of Hydrology',
+    };
+    const ris = exportRis([item]);
+    expect(ris).toContain('M1  - TR-2021-04\r\n');
+    const { items, warnings } = parseRis(ris);
+    expect(items).toEqual([item]);
+    expect(items[0].number).toBe('TR-2021-04');
+    expect(warnings).toEqual([]);
+  });
+
+  it('writes the medium of a film as M3', () => {
+    const item = { id: 'item_1', type: 'motion_picture', title: 'Film', medium: 'DVD' };
+    expect(parseRis(exportRis([item])).items).toEqual([item]);
+  });
+});
@@ -0,0 +1,88 @@
+import type { CslDate, CslItem, CslName } from '../types';
+
+const RIS_TYPES: Record<string, string> = {
+  'article-journal': 'JOUR',
+  'article-magazine': 'MGZN',
+  'article-newspaper': 'NEWS',
+  book: 'BOOK',
+  chapter: 'CHAP',
+  'paper-conference': 'CPAPER',
+  thesis: 'THES',
+  report: 'RPRT',
+  webpage: 'ELEC',
+  'post-weblog': 'BLOG',
+  motion_picture: 'VIDEO',
+  dataset: 'DATA',
+  software: 'COMP',
+  patent: 'PAT',
+  map: 'MAP',
+  manuscript: 'UNPB',
+  personal_communication: 'PCOMM',
+  legal_case: 'CASE',
+  legislation: 'STAT',
+  bill: 'BILL',
+};
+
+/** Types whose M3 ("Type of Work") holds the format, such as "DVD", rather than a genre. */
+const MEDIUM_TYPES = new Set(['motion_picture', 'song', 'broadcast']);
+
+/** "Last, First, Suffix", with particles kept in the part they belong to. */
+const formatName = (name: CslName): string => {
+  if ('literal' in name) return name.literal;
+  const last = [name['non-dropping-particle'], name.family].filter(Boolean).join(' ');
+  const first = [name.given, name['dropping-particle']].filter(Boolean).join(' ');
+  return [last, first, name.suffix].filter(Boolean).join(', ');
+};
+
+/** RIS dates are "YYYY/MM/DD/" with empty slots for unknown parts. */
+const formatDate = (date?: CslDate): string | undefined => {
+  const parts = date?.['date-parts']?.[0];
+  if (!parts) return date?.literal;
+  const [year, month, day] = parts;
+  return `${year}/${month ? String(month).padStart(2, '0') : ''}/${day ? String(day).padStart(2, '0') : ''}/`;
+};
+
+/** Writes items as an RIS file (CRLF line endings, as EndNote expects). */
+export const exportRis = (items: CslItem[]): string =>
+  items
+    .map(item => {
+      const lines: Array<[string, string | undefined]> = [['TY', RIS_TYPES[item.type] ?? 'GEN']];
+      const names: Array<[string, CslName[] | undefined]> = [
+        ['AU', item.author],
+        ['A2', item.type === 'chapter' || item.type === 'paper-conference' ? item.editor : item['collection-editor']],
+        ['ED', item.type === 'chapter' || item.type === 'paper-conference' ? undefined : item.editor],
+        ['A4', item.translator],
+      ];
+      names.forEach(([tag, list]) => list?.forEach(name => lines.push([tag, formatName(name)])));
+
+      const [startPage, endPage] = (item.page ?? '').split(/\s*[-–—]+\s*/);
+      const typeOfWork = MEDIUM_TYPES.has(item.type) ? item.medium ?? item.genre : item.genre ?? item.medium;
+      lines.push(
+        ['TI', item.title],
+        ['T2', item['container-title']],
+        ['T3', item['collection-title']],
+        ['PY', item.issued?.['date-parts']?.[0]?.[0]?.toString()],
+        ['DA', formatDate(item.issued)],
+        ['VL', item.volume],
+        ['IS', item.issue],
+        ['SP', startPage || undefined],
+        ['EP', endPage || undefined],
+        ['M1', item.number],
+        ['M3', typeOfWork],
+        ['ET', item.edition],
+        ['PB', item.publisher],
+        ['CY', item['publisher-place']],
+        ['SN', item.ISBN],
+        ['SN', item.ISSN],
+        ['DO', item.DOI],
+        ['UR', item.URL],
+        ['Y2', formatDate(item.accessed)],
+        ['N1', item.note],
+      );
+
+      return [...lines.filter((line): line is [string, string] => Boolean(line[1])), ['ER', '']]
+        .map(([tag, value]) => `${tag}  - ${value}`)
+        .join('\r\n');
+    })
+    .join('\r\n\r\n')
+    .concat('\r\n');
@@ -0,0 +1,228 @@
+import { suggestMapping, type ColumnMapping } from './columnMapping';
+import { validateCslItems } from './cslItems';
+import { generateCitations, type CitationSession, type RenderedItem } from './engine';
+import { getStyleDefaultLocale, isLanguageBundled, resolveLocale } from './locales';
+import type { CitationStyle } from './styles';
+import type { CitationLocator, CslItem, CsvRow, DebugLog, GenerationProgress, GenerationResult, InTextResult, StyleResult } from './types';
+
+export interface GenerationInput {
+  /** Normalised items, with ids `item_1`, `item_2`, … matching the order of `rows`. */
+  items: CslItem[];
+  /** Source rows copied into the results CSV alongside the citation columns. */
+  rows: CsvRow[];
+  /** How `rows` map to CSL fields, so issues can name a column. Defaults to the suggestion for the row headers. */
+  mapping?: ColumnMapping;
+  styles: CitationStyle[];
+  /** Null keeps each style on its own default-locale. */
+  locale: string | null;
+  locators?: Record<string, CitationLocator>;
+  /** Rows merged into another as duplicates; they share the kept item's citation. */
+  mergedInto?: Record<string, string>;
+  /** Warnings raised while building `items`, carried into the result. */
+  warnings?: string[];
+  debug?: DebugLog;
+  /** Called as each style's items are rendered and as result rows are assembled. */
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+export interface GenerationOutput {
+  result: GenerationResult;
+  /** One live engine per rendered style id, for grouped citations and per-row re-rendering. */
+  sessions: Record<string, CitationSession>;
+}
+
+const noop: DebugLog = () => {};
+
+/** Results CSV column recording duplicate merges; only added when rows were merged. */
+export const MERGED_COLUMN = 'Merged Rows';
+
+/** Citation cell of a row whose item failed validation. */
+export const SKIPPED_CITATION = 'Skipped due to validation errors.';
+
+const rowOf = (id: string): number => parseInt(id.replace('item_', ''), 10);
+
+const mergeNote = (id: string, mergedInto: Record<string, string>): string => {
+  if (mergedInto[id]) return `Merged into row ${rowOf(mergedInto[id])}`;
+  const folded = Object.keys(mergedInto).filter(removed => mergedInto[removed] === id).map(rowOf);
+  return folded.length ? `Merged with row${folded.length > 1 ? 's' : ''} ${folded.join(', ')}` : '';
+};
+
+const toInTextResult = (item: CslItem, inText: RenderedItem['inText'], locator?: CitationLocator): InTextResult => ({
+  ...inText,
+  id: item.id,
+  row: rowOf(item.id),
+  title: item.title || 'Untitled',
+  locator
+});
+
+/** CSV column per style. Two styles can share a title (e.g. an uploaded copy of a bundled style). */
+export const styleColumnNames = (styleResults: StyleResult[]): string[] =>
+  styleResults.map((styleResult, index) =>
+    styleResults.slice(0, index).some(other => other.title === styleResult.title) ? `${styleResult.title} (${index + 1})` : styleResult.title
+  );
+
+/** A style's bibliography entry index and in-text citation by item id. */
+export interface StyleLookup {
+  entries: Map<string, number>;
+  inText: Map<string, InTextResult>;
+}
+
+/** Indexes each style's output by item id, so building every result row stays linear. */
+export const indexStyleResults = (styleResults: StyleResult[]): StyleLookup[] =>
+  styleResults.map(styleResult => ({
+    entries: new Map(styleResult.ids.map((id, index) => [id, index])),
+    inText: new Map(styleResult.inText.map(entry => [entry.id, entry]))
+  }));
+
+/**
+ * Appends each style's citation and in-text columns for `itemId` to a source
+ * row. Pass `lookups` from `indexStyleResults` when building many rows.
+ */
+export const buildResultRow = (
+  row: CsvRow,
+  itemId: string | undefined,
+  styleResults: StyleResult[],
+  lookups: StyleLookup[] = indexStyleResults(styleResults)
+): CsvRow => {
+  const columnNames = styleColumnNames(styleResults);
+  const multipleStyles = styleResults.length > 1;
+  const output: CsvRow = { ...row };
+
+  styleResults.forEach((styleResult, styleIndex) => {
+    const entryIndex = itemId ? lookups[styleIndex].entries.get(itemId) ?? -1 : -1;
+    let citation = SKIPPED_CITATION;
+    if (entryIndex !== -1) {
+      citation = styleResult.citations[entryIndex] || 'Error: Could not generate citation.';
+    }
+    const rowInText = itemId ? lookups[styleIndex].inText.get(itemId) : undefined;
+    const inTextPrefix = multipleStyles ? `${columnNames[styleIndex]} ` : '';
+    output[columnNames[styleIndex]] = citation;
+    output[`${inTextPrefix}In-Text (Parenthetical)`] = rowInText?.parenthetical ?? '';
+    output[`${inTextPrefix}In-Text (Narrative)`] = rowInText?.narrative ?? '';
+  });
+  return output;
+};
+
+/**
+ * Adds a column per style listing its bibliography in the style's own order,
+ * one entry per row from the top, next to the per-row citation column.
+ */
+export const withBibliographyColumns = (csvData: CsvRow[], styleResults: StyleResult[]): CsvRow[] => {
+  const columnNames = styleColumnNames(styleResults);
+  const length = Math.max(csvData.length, ...styleResults.map(styleResult => styleResult.citations.length));
+  return Array.from({ length }, (_, index) => {
+    const output: CsvRow = { ...(csvData[index] ?? {}) };
+    styleResults.forEach((styleResult, styleIndex) => {
+      output[`${columnNames[styleIndex]} (Bibliography Order)`] = styleResult.citations[index] ?? '';
+    });
+    return output;
+  });
+};
+
+/**
+ * Replaces one item's entry in a style's output after it was re-rendered,
+ * appending it if it was skipped before. A null `rendered` removes it.
+ */
+export const replaceStyleEntry = (
+  styleResult: StyleResult,
+  item: CslItem,
+  rendered: RenderedItem | null,
+  locator?: CitationLocator
+): StyleResult => {
+  const index = styleResult.ids.indexOf(item.id);
+  const splice = <T>(list: T[], value: T | null): T[] => {
+    if (index === -1) return value === null ? list : [...list, value];
+    return value === null ? list.filter((_, i) => i !== index) : list.map((entry, i) => (i === index ? value : entry));
+  };
+  const inText = styleResult.inText.filter(entry => entry.id !== item.id);
+  if (rendered) inText.push(toInTextResult(item, rendered.inText, locator));
+  inText.sort((a, b) => a.row - b.row);
+
+  return {
+    ...styleResult,
+    ids: splice(styleResult.ids, rendered ? item.id : null),
+    citations: splice(styleResult.citations, rendered?.citation ?? null),
+    formattedCitations: splice(styleResult.formattedCitations, rendered?.formattedCitation ?? null),
+    inText
+  };
+};
+
+/**
+ * Validates the items and renders them in every requested style. Throws
+ * when there is nothing to render; per-style failures land in `errors`.
+ */
+export const runGeneration = ({
+  items, rows, mapping, styles, locale, locators = {}, mergedInto = {}, warnings: conversionWarnings = [], debug = noop, onProgress,
+}: GenerationInput): GenerationOutput => {
+  if (styles.length === 0) {
+    throw new Error('Select at least one citation style.');
+  }
+
+  const { valid: validItems, issues } = validateCslItems(items, mapping ?? suggestMapping(Object.keys(rows[0] ?? {})));
+  for (const issue of issues) {
+    debug({ level: issue.severity, stage: 'validate', row: issue.row, message: `${issue.field}: ${issue.message}`, payload: issue });
+  }
+  if (validItems.length === 0) {
+    throw new Error('No valid citation items found. Please check your data format.');
+  }
+
+  const sessions: Record<string, CitationSession> = {};
+  const styleResults: StyleResult[] = [];
+  const citationErrors: string[] = [];
+  for (const style of styles) {
+    debug({ level: 'info', stage: 'render', message: `Rendering ${style.title}` });
+    onProgress?.({ stage: 'rendering', done: 0, total: validItems.length, style: style.title });
+    const { ids, citations, formattedCitations, inText, errors, session } = generateCitations(
+      validItems, style.xml, locale, locators, debug,
+      (done, total) => onProgress?.({ stage: 'rendering', done, total, style: style.title })
+    );
+    if (session) sessions[style.id] = session;
+    citationErrors.push(...errors.map(error => `${style.title}: ${error}`));
+    styleResults.push({
+      styleId: style.id,
+      title: style.title,
+      ids,
+      citations,
+      formattedCitations,
+      inText: validItems
+        .filter(item => inText[item.id])
+        .map(item => toInTextResult(item, inText[item.id], locators[item.id]))
+    });
+  }
+
+  const warnings: string[] = [...conversionWarnings];
+  for (const style of styles) {
+    const requested = locale ?? getStyleDefaultLocale(style.xml);
+    if (requested && !isLanguageBundled(requested)) {
+      warnings.push(`${style.title}: locale ${requested} is not bundled, so ${resolveLocale(requested)} terms were used`);
+    }
+  }
+  if (validItems.length < items.length) {
+    warnings.push(`${items.length - validItems.length} items were skipped due to validation errors`);
+  }
+
+  const hasMerges = Object.keys(mergedInto).length > 0;
+  const itemIds = new Set(items.map(item => item.id));
+  const lookups = indexStyleResults(styleResults);
+  const csvData = rows.map((row, index) => {
+    const id = `item_${index + 1}`;
+    const output = buildResultRow(row, mergedInto[id] ?? (itemIds.has(id) ? id : undefined), styleResults, lookups);
+    onProgress?.({ stage: 'assembling', done: index + 1, total: rows.length });
+    return hasMerges ? { ...output, [MERGED_COLUMN]: mergeNote(id, mergedInto) } : output;
+  });
+
+  const generatedCount = styleResults.reduce((sum, styleResult) => sum + styleResult.citations.length, 0);
+  return {
+    result: {
+      success: generatedCount > 0,
+      styles: styleResults,
+      items,
+      merged: mergedInto,
+      issues,
+      errors: citationErrors,
+      warnings,
+      csvData
+    },
+    sessions
+  };
+};
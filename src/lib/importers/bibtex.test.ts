@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parseBibtex } from './bibtex';
+
+describe('parseBibtex', () => {
+  it('reads numeric months as months, not days', () => {
+    const { items, warnings } = parseBibtex('@article{a, title = {T}, year = {2024}, month = {5}}');
+    expect(items[0].issued).toEqual({ 'date-parts': [[2024, 5]] });
+    expect(warnings).toEqual([]);
+  });
+
+  it('reads month macros and days', () => {
+    const { items } = parseBibtex('@article{a, title = {T}, year = 2024, month = dec, day = {03}}');
+    expect(items[0].issued).toEqual({ 'date-parts': [[2024, 12, 3]] });
+  });
+
+  it('maps entry types, names and report numbers', () => {
+    const { items } = parseBibtex([
+      '@techreport{r,',
+      '  author = {van der Berg, Jan and {World Health Organization}},',
+      '  title = {Caf\\\'{e} report},',
+      '  number = {TR-7},',
+      '  institution = {WHO},',
+      '  year = {2020}',
+      '}',
+    ].join('\n'));
+    expect(items[0]).toMatchObject({
+      type: 'report',
+      title: 'Café report',
+      number: 'TR-7',
+      publisher: 'WHO',
+      issued: { 'date-parts': [[2020]] },
+    });
+    expect(items[0].author?.[1]).toEqual({ literal: 'World Health Organization' });
+  });
+});
@@ -0,0 +1,256 @@
+import { parseDate } from '../dates';
+import { parseName, splitTopLevel } from '../names';
+import type { CslItem, CslName } from '../types';
+import type { ImportResult } from './types';
+
+const ENTRY_TYPES: Record<string, string> = {
+  article: 'article-journal',
+  book: 'book',
+  proceedings: 'book',
+  manual: 'book',
+  booklet: 'pamphlet',
+  inbook: 'chapter',
+  incollection: 'chapter',
+  inproceedings: 'paper-conference',
+  conference: 'paper-conference',
+  phdthesis: 'thesis',
+  mastersthesis: 'thesis',
+  thesis: 'thesis',
+  techreport: 'report',
+  report: 'report',
+  online: 'webpage',
+  electronic: 'webpage',
+  www: 'webpage',
+  unpublished: 'manuscript',
+  misc: 'document',
+};
+
+const MONTH_MACROS: Record<string, string> = {
+  jan: 'January', feb: 'February', mar: 'March', apr: 'April', may: 'May', jun: 'June',
+  jul: 'July', aug: 'August', sep: 'September', oct: 'October', nov: 'November', dec: 'December',
+};
+
+const ACCENTS: Record<string, Record<string, string>> = {
+  "'": { a: 'á', e: 'é', i: 'í', o: 'ó', u: 'ú', y: 'ý', c: 'ć', n: 'ń', s: 'ś', z: 'ź', A: 'Á', E: 'É', I: 'Í', O: 'Ó', U: 'Ú', C: 'Ć', S: 'Ś', Z: 'Ź' },
+  '`': { a: 'à', e: 'è', i: 'ì', o: 'ò', u: 'ù', A: 'À', E: 'È', I: 'Ì', O: 'Ò', U: 'Ù' },
+  '^': { a: 'â', e: 'ê', i: 'î', o: 'ô', u: 'û', A: 'Â', E: 'Ê', I: 'Î', O: 'Ô', U: 'Û' },
+  '"': { a: 'ä', e: 'ë', i: 'ï', o: 'ö', u: 'ü', y: 'ÿ', A: 'Ä', E: 'Ë', I: 'Ï', O: 'Ö', U: 'Ü' },
+  '~': { a: 'ã', n: 'ñ', o: 'õ', A: 'Ã', N: 'Ñ', O: 'Õ' },
+  c: { c: 'ç', s: 'ş', C: 'Ç', S: 'Ş' },
+  v: { c: 'č', s: 'š', z: 'ž', r: 'ř', e: 'ě', C: 'Č', S: 'Š', Z: 'Ž', R: 'Ř' },
+  '.': { z: 'ż', Z: 'Ż', I: 'İ' },
+};
+
+/** Fields that carry no citation data and are dropped without a warning. */
+const SILENT_FIELDS = new Set(['abstract', 'keywords', 'file', 'mendeley-tags', 'annote', 'owner', 'timestamp', 'langid']);
+
+interface RawEntry {
+  type: string;
+  key: string;
+  fields: Record<string, string>;
+}
+
+/** Converts the LaTeX markup that commonly appears in .bib files into plain Unicode. */
+const latexToUnicode = (value: string): string =>
+  value
+    .replace(/\\([`'^"~.])\{?\\?([a-zA-Z])\}?/g, (match, accent: string, letter: string) => ACCENTS[accent]?.[letter] ?? match)
+    .replace(/\\([cv])\{([a-zA-Z])\}/g, (match, accent: string, letter: string) => ACCENTS[accent]?.[letter] ?? match)
+    .replace(/\\(ss|ae|AE|oe|OE|o|O|l|L|aa|AA)\b\s?/g, (_, ligature: string) => (
+      ({ ss: 'ß', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', o: 'ø', O: 'Ø', l: 'ł', L: 'Ł', aa: 'å', AA: 'Å' } as Record<string, string>)[ligature]
+    ))
+    .replace(/\\&/g, '&')
+    .replace(/\\([%$#_])/g, '$1')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/~/g, ' ')
+    .replace(/\\(?:textit|emph|textbf|textsc|mkbibquote)\{([^{}]*)\}/g, '$1')
+    .replace(/\\[a-zA-Z]+\s?/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * BibTeX separates names with "and"; each name is "First von Last",
+ * "von Last, First" or "von Last, Jr, First". A fully braced name is an
+ * organisation.
+ */
+export const parseBibtexNames = (value: string): CslName[] =>
+  splitTopLevel(value, /^\s+and\s+/i).map(name => {
+    if (/^\{.*\}$/.test(name) && !/\}.*\{/.test(name.slice(1, -1))) {
+      return { literal: latexToUnicode(name) };
+    }
+    return parseName(splitTopLevel(name, /^,/).map(latexToUnicode).join(', '));
+  });
+
+/** Matches `pattern` (compiled sticky) exactly at `index`, without slicing the source. */
+const matchAt = (pattern: RegExp, source: string, index: number): RegExpExecArray | null => {
+  const sticky = new RegExp(pattern.source, `${pattern.flags.replace('y', '')}y`);
+  sticky.lastIndex = index;
+  return sticky.exec(source);
+};
+
+/** Reads one value expression: braced, quoted, number or macro, joined with `#`. */
+const readValue = (source: string, start: number, macros: Record<string, string>): { value: string; end: number } => {
+  let i = start;
+  let value = '';
+  for (;;) {
+    while (/\s/.test(source[i] ?? '')) i++;
+    const char = source[i];
+    if (char === '{' || char === '"') {
+      const close = char === '{' ? '}' : '"';
+      let depth = 0;
+      let j = i + 1;
+      for (; j < source.length; j++) {
+        if (source[j] === '{') depth++;
+        else if (source[j] === '}' && (close !== '}' || depth > 0)) depth--;
+        else if (source[j] === close && depth === 0) break;
+      }
+      value += source.slice(i + 1, j);
+      i = j + 1;
+    } else {
+      const match = matchAt(/[^\s,#}]+/, source, i);
+      const token = match ? match[0] : '';
+      value += macros[token.toLowerCase()] ?? token;
+      i += token.length;
+    }
+    while (/\s/.test(source[i] ?? '')) i++;
+    if (source[i] !== '#') break;
+    i++;
+  }
+  return { value, end: i };
+};
+
+const parseEntries = (text: string): { entries: RawEntry[]; warnings: string[] } => {
+  const entries: RawEntry[] = [];
+  const warnings: string[] = [];
+  const macros: Record<string, string> = { ...MONTH_MACROS };
+  const entryStart = /@\s*([a-zA-Z]+)\s*[{(]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = entryStart.exec(text))) {
+    const type = match[1].toLowerCase();
+    let i = entryStart.lastIndex;
+    if (type === 'comment' || type === 'preamble') continue;
+
+    if (type === 'string') {
+      const nameMatch = matchAt(/\s*([^\s=]+)\s*=/, text, i);
+      if (nameMatch) {
+        const { value, end } = readValue(text, i + nameMatch[0].length, macros);
+        macros[nameMatch[1].toLowerCase()] = value;
+        entryStart.lastIndex = end;
+      }
+      continue;
+    }
+
+    const keyMatch = matchAt(/\s*([^,\s]*)\s*,/, text, i);
+    const key = keyMatch ? keyMatch[1] : `entry${entries.length + 1}`;
+    if (keyMatch) i += keyMatch[0].length;
+
+    const fields: Record<string, string> = {};
+    for (;;) {
+      const fieldMatch = matchAt(/\s*([^\s=,}]+)\s*=/, text, i);
+      if (!fieldMatch) break;
+      const { value, end } = readValue(text, i + fieldMatch[0].length, macros);
+      fields[fieldMatch[1].toLowerCase()] = value;
+      i = end;
+      const separator = matchAt(/\s*,?/, text, i);
+      i += separator ? separator[0].length : 0;
+    }
+    if (Object.keys(fields).length === 0) {
+      warnings.push(`BibTeX entry ${key}: no fields could be read`);
+    }
+    entries.push({ type, key, fields });
+    entryStart.lastIndex = i;
+  }
+  return { entries, warnings };
+};
+
+/** Numeric months ("5", "05") would read as a day once joined with the year. */
+const monthName = (month: string | undefined): string | undefined => {
+  const trimmed = month?.trim();
+  if (!trimmed || !/^\d{1,2}$/.test(trimmed)) return trimmed;
+  return Object.values(MONTH_MACROS)[parseInt(trimmed, 10) - 1] ?? trimmed;
+};
+
+const toDate = (fields: Record<string, string>, key: string, warnings: string[]): CslItem['issued'] => {
+  const raw = fields.date
+    ?? [fields.day, monthName(fields.month), fields.year].filter(Boolean).join(' ');
+  if (!raw) return undefined;
+  const { date, error } = parseDate(latexToUnicode(raw));
+  if (error) warnings.push(`BibTeX entry ${key}: ${error}`);
+  return date;
+};
+
+export const parseBibtex = (text: string): ImportResult => {
+  const { entries, warnings } = parseEntries(text);
+  const items: CslItem[] = [];
+
+  entries.forEach(({ type, key, fields }) => {
+    const cslType = ENTRY_TYPES[type];
+    if (!cslType) warnings.push(`BibTeX entry ${key}: unsupported entry type @${type}, imported as a generic document`);
+
+    const item: CslItem = { id: `item_${items.length + 1}`, type: cslType ?? 'document' };
+    const unmapped: string[] = [];
+
+    for (const [field, raw] of Object.entries(fields)) {
+      const value = latexToUnicode(raw);
+      switch (field) {
+        case 'title': item.title = value; break;
+        case 'author': item.author = parseBibtexNames(raw); break;
+        case 'editor': item.editor = parseBibtexNames(raw); break;
+        case 'translator': item.translator = parseBibtexNames(raw); break;
+        case 'bookauthor': item['container-author'] = parseBibtexNames(raw); break;
+        case 'journal':
+        case 'journaltitle':
+        case 'booktitle':
+          item['container-title'] = value;
+          break;
+        case 'volume': item.volume = value; break;
+        case 'number':
+        case 'issue':
+          // Elsewhere `number` is a report, standard or series number.
+          if (cslType === 'article-journal' || field === 'issue') item.issue = value;
+          else item.number = value;
+          break;
+        case 'edition': item.edition = value; break;
+        case 'series': item['collection-title'] = value; break;
+        case 'address':
+        case 'location':
+          item['publisher-place'] = value;
+          break;
+        case 'issn': item.ISSN = value; break;
+        case 'note': item.note = value; break;
+        case 'pages': item.page = value; break;
+        case 'doi': item.DOI = value.replace(/^https?:\/\/(dx\.)?doi\.org\//i, ''); break;
+        case 'url': item.URL = value; break;
+        case 'isbn': item.ISBN = value; break;
+        case 'publisher':
+        case 'institution':
+        case 'school':
+        case 'organization':
+          item.publisher = item.publisher ?? value;
+          break;
+        case 'urldate': {
+          const { date, error } = parseDate(value);
+          if (date) item.accessed = date;
+          else if (error) warnings.push(`BibTeX entry ${key}: ${error} in urldate`);
+          break;
+        }
+        case 'year':
+        case 'month':
+        case 'day':
+        case 'date':
+          break;
+        default:
+          if (!SILENT_FIELDS.has(field)) unmapped.push(field);
+      }
+    }
+
+    item.issued = toDate(fields, key, warnings);
+    if (!item.issued) delete item.issued;
+    if (unmapped.length > 0) warnings.push(`BibTeX entry ${key}: ignored fields ${unmapped.join(', ')}`);
+    items.push(item);
+  });
+
+  return { items, warnings };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parseCslJson } from './cslJson';
+
+describe('parseCslJson', () => {
+  it('keeps well-formed names, dates and text', () => {
+    const { items, warnings } = parseCslJson(JSON.stringify([{
+      id: 'a', type: 'book', title: 'Zebras', volume: 3,
+      author: [{ family: 'Smith', given: 'J.' }, { literal: 'WHO' }],
+      issued: { 'date-parts': [['2020', 5]] },
+    }]));
+    expect(items).toEqual([{
+      id: 'item_1', type: 'book', title: 'Zebras', volume: '3',
+      author: [{ family: 'Smith', given: 'J.' }, { literal: 'WHO' }],
+      issued: { 'date-parts': [[2020, 5]] },
+    }]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('reads dates written as text', () => {
+    const { items } = parseCslJson('[{"type":"book","title":"A","issued":"2021-03-04","accessed":{"raw":"2022"}}]');
+    expect(items[0].issued).toEqual({ 'date-parts': [[2021, 3, 4]] });
+    expect(items[0].accessed).toEqual({ 'date-parts': [[2022]] });
+  });
+
+  it('drops malformed names and dates with a warning', () => {
+    const { items, warnings } = parseCslJson(JSON.stringify([{
+      id: 'x', type: 'book', title: 'Zebras', author: 'Smith, J.', editor: [{ given: 'Ann' }],
+      issued: 'sometime', 'original-date': { 'date-parts': 2020 }, publisher: { name: 'OUP' },
+    }]));
+    expect(items).toEqual([{ id: 'item_1', type: 'book', title: 'Zebras' }]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatch(/^CSL-JSON entry x: dropped malformed variables author .*editor .*issued .*original-date .*publisher/);
+  });
+});
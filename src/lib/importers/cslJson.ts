@@ -0,0 +1,121 @@
+import {
+  CSL_DATE_VARIABLES, CSL_NAME_VARIABLES, CSL_TEXT_VARIABLES, isCslType,
+  type CslDateVariable, type CslNameVariable, type CslTextVariable,
+} from '../cslSchema';
+import { parseDate } from '../dates';
+import type { CslDate, CslItem, CslName } from '../types';
+import type { ImportResult } from './types';
+
+const NAME_KEYS = new Set<string>(CSL_NAME_VARIABLES);
+const DATE_KEYS = new Set<string>(CSL_DATE_VARIABLES);
+const TEXT_KEYS = new Set<string>(CSL_TEXT_VARIABLES);
+const NAME_PARTS = ['non-dropping-particle', 'dropping-particle', 'suffix'] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readName = (value: unknown): CslName | null => {
+  if (!isRecord(value)) return null;
+  if (typeof value.literal === 'string') return { literal: value.literal };
+  if (typeof value.family !== 'string') return null;
+  const name: CslName = { family: value.family, given: typeof value.given === 'string' ? value.given : '' };
+  for (const part of NAME_PARTS) {
+    if (typeof value[part] === 'string') name[part] = value[part];
+  }
+  return name;
+};
+
+/** A name list, or null when it is not an array of name objects. */
+const readNames = (value: unknown): CslName[] | null => {
+  if (!Array.isArray(value)) return null;
+  const names = value.map(readName);
+  return names.every((name): name is CslName => name !== null) ? names : null;
+};
+
+const readDateParts = (value: unknown): number[][] | null => {
+  if (!Array.isArray(value) || value.length < 1 || value.length > 2) return null;
+  const parts = value.map(side => (Array.isArray(side) && side.length >= 1 && side.length <= 3 ? side.map(Number) : null));
+  return parts.every((side): side is number[] => side !== null && side.every(Number.isInteger)) ? parts : null;
+};
+
+/**
+ * A date object, or a date written as text (a bare string or `raw`), which is
+ * read like a sheet cell. Returns an error for anything else.
+ */
+const readDate = (value: unknown): { date?: CslDate; error?: string } => {
+  if (typeof value === 'string' || typeof value === 'number') return parseDate(String(value));
+  if (!isRecord(value)) return { error: 'not a date object' };
+  let date: CslDate;
+  if (value['date-parts'] !== undefined) {
+    const dateParts = readDateParts(value['date-parts']);
+    if (!dateParts) return { error: 'malformed date-parts' };
+    date = { 'date-parts': dateParts };
+  } else if (typeof value.literal === 'string') {
+    date = { literal: value.literal };
+  } else if (typeof value.raw === 'string') {
+    const parsed = parseDate(value.raw);
+    if (!parsed.date) return parsed;
+    date = parsed.date;
+  } else {
+    return { error: 'no date-parts, literal or raw' };
+  }
+  if (typeof value.season === 'string' || typeof value.season === 'number') date.season = value.season;
+  if (value.circa === true || value.circa === 1 || value.circa === '1') date.circa = true;
+  return { date };
+};
+
+/**
+ * Accepts a CSL-JSON array, a single item, or an object with an `items`
+ * array (as exported by some Zotero plugins). Item ids are reassigned so they
+ * line up with the rest of the pipeline.
+ */
+export const parseCslJson = (text: string): ImportResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid CSL-JSON file: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const entries = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.items) ? data.items : [data];
+  const items: CslItem[] = [];
+  const warnings: string[] = [];
+
+  entries.forEach((entry: unknown, index: number) => {
+    if (!isRecord(entry)) {
+      warnings.push(`CSL-JSON entry ${index + 1}: not an object, skipped`);
+      return;
+    }
+    const label = `CSL-JSON entry ${typeof entry.id === 'string' || typeof entry.id === 'number' ? entry.id : index + 1}`;
+    const type = typeof entry.type === 'string' ? entry.type : '';
+    if (!isCslType(type)) {
+      warnings.push(`${label}: unknown type "${type || 'missing'}", imported as a generic document`);
+    }
+
+    const item: CslItem = { id: `item_${items.length + 1}`, type: isCslType(type) ? type : 'document' };
+    const unmapped: string[] = [];
+    const malformed: string[] = [];
+    for (const [key, value] of Object.entries(entry)) {
+      if (key === 'id' || key === 'type' || value === null || value === '') continue;
+      if (NAME_KEYS.has(key)) {
+        const names = readNames(value);
+        if (names) item[key as CslNameVariable] = names;
+        else malformed.push(`${key} (not a list of names)`);
+      } else if (DATE_KEYS.has(key)) {
+        const { date, error } = readDate(value);
+        if (date) item[key as CslDateVariable] = date;
+        else if (error) malformed.push(`${key} (${error})`);
+      } else if (TEXT_KEYS.has(key)) {
+        if (typeof value === 'string' || typeof value === 'number') item[key as CslTextVariable] = String(value);
+        else malformed.push(`${key} (not text)`);
+      } else {
+        unmapped.push(key);
+      }
+    }
+    if (malformed.length > 0) warnings.push(`${label}: dropped malformed variables ${malformed.join(', ')}`);
+    if (unmapped.length > 0) warnings.push(`${label}: ignored variables ${unmapped.join(', ')}`);
+    items.push(item);
+  });
+
+  return { items, warnings };
+};
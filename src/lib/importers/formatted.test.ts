@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { NEEDS_REVIEW_COLUMN, parseReference, parsedReferencesToRows, splitReferences } from './formatted';
+
+/** The parsed values without their confidence scores. */
+const values = (entry: string): Record<string, string> =>
+  Object.fromEntries(Object.entries(parseReference(entry).fields).map(([field, parsed]) => [field, parsed.value]));
+
+describe('parseReference', () => {
+  it('reads an APA journal article', () => {
+    const entry = 'Smith, J. A., & Jones, K. (2020). Learning in the wild. Journal of Field Studies, 12(3), 45–67. https://doi.org/10.1234/jfs.2020.12';
+    expect(parseReference(entry).style).toBe('apa');
+    expect(values(entry)).toEqual({
+      type: 'journal article',
+      author: 'Smith, J. A.; Jones, K.',
+      issued: '2020',
+      title: 'Learning in the wild',
+      'container-title': 'Journal of Field Studies',
+      volume: '12',
+      issue: '3',
+      page: '45–67',
+      DOI: '10.1234/jfs.2020.12',
+    });
+  });
+
+  it('reads an APA book chapter with its editors and pages', () => {
+    expect(values('Lee, M. (2019). Coastal change. In A. Editor & B. Editor (Eds.), Handbook of coasts (pp. 10–25). Sea Press.')).toEqual({
+      type: 'book chapter',
+      author: 'Lee, M.',
+      issued: '2019',
+      title: 'Coastal change',
+      editor: 'A. Editor; B. Editor',
+      'container-title': 'Handbook of coasts',
+      page: '10–25',
+      publisher: 'Sea Press',
+    });
+  });
+
+  it('reads an APA book, with lower confidence in the type and publisher', () => {
+    const { style, fields } = parseReference('Brown, T. (2018). The long road. Penguin.');
+    expect(style).toBe('apa');
+    expect(fields.type).toEqual({ value: 'book', confidence: 0.6 });
+    expect(fields.publisher).toEqual({ value: 'Penguin', confidence: 0.65 });
+    expect(fields.author?.confidence).toBe(0.9);
+  });
+
+  it('reads an MLA journal article from its labelled parts', () => {
+    const entry = 'Smith, John, and Jane Doe. "Learning in the Wild." Journal of Field Studies, vol. 12, no. 3, 2020, pp. 45-67.';
+    expect(parseReference(entry).style).toBe('mla');
+    expect(values(entry)).toEqual({
+      type: 'journal article',
+      author: 'Smith, John; Jane Doe',
+      issued: '2020',
+      title: 'Learning in the Wild',
+      'container-title': 'Journal of Field Studies',
+      volume: '12',
+      issue: '3',
+      page: '45-67',
+    });
+  });
+
+  it('reads a Chicago notes-bibliography article with the year in brackets', () => {
+    const entry = 'Smith, John. "Learning in the Wild." Journal of Field Studies 12, no. 3 (2020): 45–67.';
+    expect(parseReference(entry).style).toBe('chicago');
+    expect(values(entry)).toEqual({
+      type: 'journal article',
+      author: 'Smith, John',
+      issued: '2020',
+      title: 'Learning in the Wild',
+      'container-title': 'Journal of Field Studies',
+      volume: '12',
+      issue: '3',
+      page: '45–67',
+    });
+  });
+
+  it('reads a Chicago author-date article with the year after the authors', () => {
+    const entry = 'Smith, John. 2020. "Learning in the Wild." Journal of Field Studies 12 (3): 45–67.';
+    const { style, fields } = parseReference(entry);
+    expect(style).toBe('chicago');
+    expect(fields.issued).toEqual({ value: '2020', confidence: 0.95 });
+    expect(values(entry)).toMatchObject({ 'container-title': 'Journal of Field Studies', volume: '12', issue: '3', page: '45–67' });
+  });
+
+  it('strips list numbering from the entry', () => {
+    expect(parseReference('[3] Brown, T. (2018). The long road. Penguin.').text).toBe('Brown, T. (2018). The long road. Penguin.');
+  });
+});
+
+describe('splitReferences', () => {
+  it('splits a numbered list and joins wrapped lines to their entry', () => {
+    expect(splitReferences('1. Brown, T. (2018). The long road.\nPenguin.\n2. Lee, M. (2019). Coasts. Sea Press.')).toEqual([
+      'Brown, T. (2018). The long road. Penguin.',
+      'Lee, M. (2019). Coasts. Sea Press.',
+    ]);
+  });
+
+  it('splits an unnumbered list where a line ends like a reference', () => {
+    expect(splitReferences('Brown, T. (2018). The long road: A history of\nroads. Penguin.\nLee, M. (2019). Coasts. Sea Press.')).toEqual([
+      'Brown, T. (2018). The long road: A history of roads. Penguin.',
+      'Lee, M. (2019). Coasts. Sea Press.',
+    ]);
+  });
+
+  it('splits on blank lines when there are any', () => {
+    expect(splitReferences('Brown, T. (2018).\nThe long road. Penguin.\n\nLee, M. (2019). Coasts. Sea Press.\n')).toEqual([
+      'Brown, T. (2018). The long road. Penguin.',
+      'Lee, M. (2019). Coasts. Sea Press.',
+    ]);
+  });
+});
+
+describe('parsedReferencesToRows', () => {
+  it('lists the fields below the confidence threshold for review', () => {
+    const { rows } = parsedReferencesToRows([
+      parseReference('Brown, T. (2018). The long road. Penguin.'),
+      parseReference('Brown, T. (n.d.). The long road.'),
+    ]);
+    expect(rows[0][NEEDS_REVIEW_COLUMN]).toBe('');
+    expect(rows[1][NEEDS_REVIEW_COLUMN]).toBe('Source Type');
+    expect(rows[1].Year).toBe('n.d.');
+  });
+});
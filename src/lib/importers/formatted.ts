@@ -0,0 +1,328 @@
+import type { CsvRow } from '../types';
+
+export type ReferenceStyle = 'apa' | 'mla' | 'chicago';
+
+export type ParsedReferenceField =
+  | 'type'
+  | 'author'
+  | 'editor'
+  | 'issued'
+  | 'title'
+  | 'container-title'
+  | 'volume'
+  | 'issue'
+  | 'page'
+  | 'publisher'
+  | 'DOI'
+  | 'URL';
+
+/** A value read from a formatted reference, with how sure the parser is of it (0–1). */
+export interface ParsedValue {
+  value: string;
+  confidence: number;
+}
+
+export interface ParsedReference {
+  /** The entry as pasted, without list numbering. */
+  text: string;
+  /** The style the entry looks like, or null when no style's pattern fits. */
+  style: ReferenceStyle | null;
+  fields: Partial<Record<ParsedReferenceField, ParsedValue>>;
+}
+
+/** Values below this confidence are flagged for review. */
+export const LOW_CONFIDENCE = 0.6;
+
+/** Results CSV columns, in the order the fields are written to rows; the headers map to CSL fields automatically. */
+export const PARSED_REFERENCE_COLUMNS: Array<[ParsedReferenceField, string]> = [
+  ['type', 'Source Type'],
+  ['author', 'Author(s)'],
+  ['issued', 'Year'],
+  ['title', 'Title'],
+  ['container-title', 'Container Title'],
+  ['editor', 'Editor(s)'],
+  ['volume', 'Volume'],
+  ['issue', 'Issue'],
+  ['page', 'Pages'],
+  ['publisher', 'Publisher'],
+  ['DOI', 'DOI'],
+  ['URL', 'URL'],
+];
+export const ORIGINAL_REFERENCE_COLUMN = 'Original Reference';
+export const NEEDS_REVIEW_COLUMN = 'Needs Review';
+
+const NUMBERING = /^\s*(?:\[\d+\]|\d+[.)])\s+/;
+const DOI = /(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)(10\.\d{4,9}\/\S+)|\b(10\.\d{4,9}\/\S+)/i;
+const URL = /https?:\/\/\S+/;
+const TRAILING_ACCESS = /\s*(?:Retrieved(?: [^,]+,)? from|Available (?:at|from):?|Accessed [^.]+\.?)\s*$/i;
+const PAGES = '[A-Za-z]?\\d+(?:\\s*[-–—]\\s*[A-Za-z]?\\d+)?';
+const YEAR = /\b(1[5-9]\d{2}|20\d{2})[a-z]?\b/;
+
+const APA_HEAD = /^([^"“”]+?)\s*\((\d{4}[a-z]?|n\.\s?d\.)(?:,[^)]*)?\)\.(?:\s+(.*))?$/;
+const CHICAGO_DATE_HEAD = /^([^"“”]+?)\.\s+(\d{4}[a-z]?|n\.\s?d\.)\.\s+(.*)$/;
+const QUOTED_TITLE = /^[“"](.+?)[,.]?[”"]\s*[,.]?\s*(.*)$/;
+const APA_ARTICLE = new RegExp(`^(.+?),\\s*(\\d+)(?:\\s*\\(([^)]+)\\))?(?:,\\s*(${PAGES}|e\\d+|Article \\w+))?\\.?$`);
+const APA_CHAPTER = /^In\s+(?:(.+?)\s*\((?:Eds?\.)\),\s*)?(.+?)(?:\s*\((?:[^)]*?)(?:pp?\.\s*)?([A-Za-z]?\d+(?:\s*[-–—]\s*[A-Za-z]?\d+)?)\))?\.\s*(.*)$/;
+const CHICAGO_ARTICLE = new RegExp(`^(.+?)\\s+(\\d+)(?:,\\s*no\\.\\s*(\\w+)|\\s*\\((\\w+)\\))?(?:\\s*\\(([^)]*)\\))?:\\s*(${PAGES})\\.?$`);
+const CHICAGO_BOOK = /^(?:([^:,.]+(?:,\s*[A-Z][A-Za-z.]+)?):\s*)?(.+?)(?:,\s*(\d{4}))?\.?$/;
+
+/**
+ * Splits a pasted reference list into entries. Blank lines separate entries
+ * when there are any; otherwise a line starts a new entry when it is
+ * numbered, or when the line before ends like a reference does.
+ */
+export const splitReferences = (text: string): string[] => {
+  const normalised = text.replace(/\r\n?/g, '\n');
+  const blocks = normalised.split(/\n\s*\n/).map(block => block.trim()).filter(Boolean);
+  if (blocks.length > 1) return blocks.map(block => block.replace(/\s*\n\s*/g, ' ').replace(NUMBERING, ''));
+
+  const lines = normalised.split('\n').map(line => line.trim()).filter(Boolean);
+  const numbered = lines.filter(line => NUMBERING.test(line)).length * 2 >= lines.length;
+  const entries: string[] = [];
+  for (const line of lines) {
+    const previous = entries[entries.length - 1];
+    const startsEntry = numbered
+      ? NUMBERING.test(line)
+      : previous === undefined || (/(?:[.)”"]|\/\S*)$/.test(previous) && /^[\p{Lu}"“]/u.test(line));
+    if (startsEntry || previous === undefined) entries.push(line.replace(NUMBERING, ''));
+    else entries[entries.length - 1] = `${previous} ${line}`;
+  }
+  return entries;
+};
+
+const trimEnd = (text: string): string => text.trim().replace(/[\s,;:]+$/, '');
+/** Drops a final full stop, but not one closing an initial such as "Smith, J.". */
+const dropPeriod = (text: string): string => {
+  const trimmed = trimEnd(text);
+  return /(?:^|[\s.])\p{Lu}\.$/u.test(trimmed) ? trimmed : trimmed.replace(/\.$/, '');
+};
+
+/** Splits where the author list ends: the first full stop that does not close an initial or "Jr.". */
+const splitAtAuthors = (text: string): [string, string] | null => {
+  const boundary = /\.\s+/g;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text))) {
+    const before = text.slice(0, match.index);
+    if (/(?:^|[\s.,-])\p{Lu}$/u.test(before) || /\b(?:Jr|Sr|St|Dr)$/.test(before)) continue;
+    return [before, text.slice(match.index + match[0].length)];
+  }
+  return null;
+};
+
+/** "Smith, J. A., Jones, K., & Lee, M." as "Smith, J. A.; Jones, K.; Lee, M.". */
+const apaNames = (text: string): string =>
+  dropPeriod(text)
+    .replace(/\s*(?:\.\.\.|…)\s*/g, ', ')
+    .split(/(?<=\.)\s*,\s*(?:&\s*)?|,?\s+&\s+/)
+    .map(name => name.trim())
+    .filter(Boolean)
+    .join('; ');
+
+/** "Smith, John, and Jane Doe" as "Smith, John; Jane Doe". Only the first name is inverted. */
+const invertedFirstNames = (text: string): string => {
+  const cleaned = dropPeriod(text);
+  const etAl = /,?\s+et al\.?$/.test(cleaned);
+  const names = cleaned.replace(/,?\s+et al\.?$/, '');
+  const [family, given, ...rest] = names.split(/\s*,\s*/);
+  if (given === undefined) return [family, ...(etAl ? ['et al.'] : [])].join('; ');
+  const others = rest.join(', ').split(/,\s*(?:and\s+)?|^and\s+|\s+and\s+/).map(name => name.trim()).filter(Boolean);
+  // "Smith, John and Jane Doe": the second person is joined to the given names by "and".
+  const [firstGiven, ...joined] = given.split(/\s+and\s+/);
+  return [`${family}, ${firstGiven}`, ...joined, ...others, ...(etAl ? ['et al.'] : [])].join('; ');
+};
+
+/** Given-first names: "Jane Doe and John Roe" or "E. Editor & F. Editor". */
+const givenFirstNames = (text: string): string =>
+  dropPeriod(text)
+    .split(/,\s*(?:and\s+|&\s*)?|\s+(?:and|&)\s+/)
+    .map(name => name.trim())
+    .filter(Boolean)
+    .join('; ');
+
+const looksLikePeople = (text: string): boolean => /^\p{Lu}[\p{L}'’-]+(?:\s\p{Lu}[\p{L}'’-]+)?,\s*\p{Lu}/u.test(text);
+
+/** Splits a title off the front, keeping a final "?" or "!". */
+const splitTitle = (text: string): { title: string; rest: string; quoted: boolean } => {
+  const quoted = QUOTED_TITLE.exec(text);
+  if (quoted) return { title: quoted[1].trim(), rest: quoted[2], quoted: true };
+  const plain = /^(.+?)([.?!])(?:\s+|$)(.*)$/.exec(text);
+  if (!plain) return { title: dropPeriod(text), rest: '', quoted: false };
+  return { title: plain[2] === '.' ? plain[1] : plain[1] + plain[2], rest: plain[3], quoted: false };
+};
+
+/** MLA's comma-separated source: "Journal, vol. 12, no. 3, 2020, pp. 45-67" or "Publisher, 2020". */
+const parseMlaSource = (
+  source: string,
+  hasUrl: boolean,
+  set: (field: ParsedReferenceField, value: string, confidence: number) => void
+): string => {
+  const parts = dropPeriod(source).split(/,\s*/);
+  const unlabelled: string[] = [];
+  for (const part of parts) {
+    const labelled = /^(vol|no|pp?)\.\s*(.+)$/.exec(part);
+    if (labelled) {
+      set(labelled[1] === 'vol' ? 'volume' : labelled[1] === 'no' ? 'issue' : 'page', labelled[2], 0.9);
+    } else if (/^edited by\s/i.test(part)) {
+      set('editor', givenFirstNames(part.replace(/^edited by\s+/i, '')), 0.8);
+    } else if (YEAR.test(part) && /^(?:\d{1,2}\s+)?(?:[A-Z][a-z]{2,}\.?\s+)?\d{4}$/.test(part)) {
+      set('issued', YEAR.exec(part)?.[1] ?? part, 0.85);
+    } else {
+      unlabelled.push(part);
+    }
+  }
+  // The container comes first, then the publisher. A lone part is a book's publisher, or the site of a web page.
+  const isVolume = parts.some(part => /^(?:vol|no)\.\s/.test(part));
+  const hasPages = parts.some(part => /^pp?\.\s/.test(part));
+  const isChapter = parts.some(part => /^edited by\s/i.test(part)) || (hasPages && !isVolume && unlabelled.length >= 2);
+  if (unlabelled.length >= 2 || isVolume || hasPages || hasUrl) {
+    set('container-title', unlabelled.shift() ?? '', isVolume || isChapter ? 0.8 : 0.6);
+  }
+  if (unlabelled.length) set('publisher', unlabelled.join(', '), isChapter ? 0.7 : 0.6);
+  if (isVolume) return 'journal article';
+  if (isChapter) return 'book chapter';
+  return hasUrl ? 'webpage' : 'book';
+};
+
+/**
+ * Reads one formatted reference in APA, MLA or Chicago style into its parts.
+ * Each value carries a confidence: high where the style's punctuation pins
+ * the field down, lower where it is a best guess.
+ */
+export const parseReference = (entry: string): ParsedReference => {
+  const text = entry.trim().replace(NUMBERING, '');
+  const fields: ParsedReference['fields'] = {};
+  const set = (field: ParsedReferenceField, value: string, confidence: number): void => {
+    const cleaned = trimEnd(value);
+    if (cleaned && (fields[field]?.confidence ?? -1) < confidence) fields[field] = { value: cleaned, confidence };
+  };
+
+  let body = text;
+  const doi = DOI.exec(body);
+  if (doi) {
+    set('DOI', (doi[1] ?? doi[2]).replace(/[.,;]+$/, ''), 0.99);
+    body = body.replace(doi[0], '');
+  }
+  const url = URL.exec(body);
+  if (url) {
+    set('URL', url[0].replace(/[.,;]+$/, ''), 0.95);
+    body = body.replace(url[0], '');
+  }
+  body = trimEnd(body.replace(TRAILING_ACCESS, ''));
+
+  let style: ReferenceStyle | null = null;
+  const apa = APA_HEAD.exec(body);
+  const chicagoDate = apa ? null : CHICAGO_DATE_HEAD.exec(body);
+
+  if (apa || chicagoDate) {
+    const [, authors, year, rest] = (apa ?? chicagoDate) as RegExpExecArray;
+    style = apa ? 'apa' : 'chicago';
+    set('author', apa ? apaNames(authors) : invertedFirstNames(authors), looksLikePeople(authors) ? 0.9 : 0.7);
+    set('issued', year.replace(/\s/g, ''), 0.95);
+    const { title, rest: source, quoted } = splitTitle(rest);
+    set('title', title, quoted || apa ? 0.85 : 0.75);
+
+    const chapter = apa ? APA_CHAPTER.exec(source) : null;
+    const article = apa ? APA_ARTICLE.exec(dropPeriod(source)) : CHICAGO_ARTICLE.exec(dropPeriod(source));
+    if (chapter) {
+      set('type', 'book chapter', 0.85);
+      if (chapter[1]) set('editor', givenFirstNames(chapter[1]), 0.85);
+      set('container-title', chapter[2], 0.8);
+      if (chapter[3]) set('page', chapter[3], 0.85);
+      set('publisher', dropPeriod(chapter[4]), 0.7);
+    } else if (article) {
+      set('type', 'journal article', 0.85);
+      set('container-title', article[1], 0.85);
+      set('volume', article[2], 0.9);
+      if (apa) {
+        if (article[3]) set('issue', article[3], 0.9);
+        if (article[4]) set('page', article[4], 0.85);
+      } else {
+        if (article[3] ?? article[4]) set('issue', article[3] ?? article[4], 0.85);
+        set('page', article[6], 0.85);
+      }
+    } else if (source) {
+      const chicagoSource = /^In\s+(.+?),\s*(?:edited by\s+(.+?),\s*)?(\d+\s*[-–—]\s*\d+)\.\s*(.*)$/.exec(source);
+      if (chicagoSource) {
+        set('type', 'book chapter', 0.8);
+        set('container-title', chicagoSource[1], 0.8);
+        if (chicagoSource[2]) set('editor', givenFirstNames(chicagoSource[2]), 0.8);
+        set('page', chicagoSource[3], 0.85);
+        set('publisher', CHICAGO_BOOK.exec(dropPeriod(chicagoSource[4]))?.[2] ?? chicagoSource[4], 0.65);
+      } else {
+        set('type', 'book', 0.6);
+        set('publisher', apa ? dropPeriod(source) : CHICAGO_BOOK.exec(dropPeriod(source))?.[2] ?? source, 0.65);
+      }
+    } else {
+      set('type', url ? 'webpage' : 'book', 0.4);
+    }
+  } else {
+    const split = splitAtAuthors(body);
+    const authors = split?.[0] ?? '';
+    const afterAuthors = split?.[1] ?? body;
+    if (split) set('author', invertedFirstNames(authors), looksLikePeople(authors) ? 0.85 : 0.45);
+    const { title, rest: source, quoted } = splitTitle(afterAuthors);
+    set('title', title, quoted ? 0.9 : 0.65);
+
+    // Chicago notes-bibliography puts the year in brackets before a colon: "Journal 12, no. 3 (2020): 45–67."
+    const chicago = CHICAGO_ARTICLE.exec(dropPeriod(source));
+    const chicagoBook = /^(?:[^:,.]+(?:,\s*[A-Z][A-Za-z.]+)?):\s*[^,]+,\s*\d{4}\.?$/.test(source);
+    const chicagoChapter = /^In\s+(.+?),\s*(?:edited by\s+(.+?),\s*)?(\d+\s*[-–—]\s*\d+)\.\s*(.*)$/.exec(source);
+    if (chicago) {
+      style = 'chicago';
+      set('type', 'journal article', 0.85);
+      set('container-title', chicago[1], 0.85);
+      set('volume', chicago[2], 0.9);
+      if (chicago[3] ?? chicago[4]) set('issue', chicago[3] ?? chicago[4], 0.85);
+      if (chicago[5]) set('issued', YEAR.exec(chicago[5])?.[1] ?? chicago[5], 0.9);
+      set('page', chicago[6], 0.85);
+    } else if (chicagoChapter) {
+      style = 'chicago';
+      set('type', 'book chapter', 0.8);
+      set('container-title', chicagoChapter[1], 0.8);
+      if (chicagoChapter[2]) set('editor', givenFirstNames(chicagoChapter[2]), 0.8);
+      set('page', chicagoChapter[3], 0.85);
+      const book = CHICAGO_BOOK.exec(dropPeriod(chicagoChapter[4]));
+      if (book?.[2]) set('publisher', book[2], 0.7);
+      if (book?.[3]) set('issued', book[3], 0.85);
+    } else if (chicagoBook) {
+      style = 'chicago';
+      set('type', 'book', 0.75);
+      const book = CHICAGO_BOOK.exec(dropPeriod(source));
+      if (book?.[2]) set('publisher', book[2], 0.8);
+      if (book?.[3]) set('issued', book[3], 0.9);
+    } else if (source) {
+      style = 'mla';
+      set('type', parseMlaSource(source, Boolean(url), set), 0.65);
+    }
+  }
+
+  // Whatever the style, pick up labelled parts and a year the patterns above missed.
+  const pages = new RegExp(`\\bpp?\\.\\s*(${PAGES})`).exec(body);
+  if (pages) set('page', pages[1], 0.55);
+  const volume = /\bvol\.\s*(\w+)/i.exec(body);
+  if (volume) set('volume', volume[1], 0.55);
+  const year = YEAR.exec(body);
+  if (year) set('issued', year[1], 0.4);
+  if (!fields.type) set('type', fields['container-title'] ? 'journal article' : url ? 'webpage' : 'book', 0.3);
+
+  return { text, style, fields };
+};
+
+export const parseFormattedReferences = (text: string): ParsedReference[] => splitReferences(text).map(parseReference);
+
+/**
+ * Rows for the column-mapping step, one per reference, with the pasted
+ * entry alongside and the fields below `LOW_CONFIDENCE` listed for review.
+ */
+export const parsedReferencesToRows = (references: ParsedReference[]): { rows: CsvRow[]; headers: string[] } => {
+  const headers = [...PARSED_REFERENCE_COLUMNS.map(([, header]) => header), ORIGINAL_REFERENCE_COLUMN, NEEDS_REVIEW_COLUMN];
+  const rows = references.map(reference => ({
+    ...Object.fromEntries(PARSED_REFERENCE_COLUMNS.map(([field, header]) => [header, reference.fields[field]?.value ?? ''])),
+    [ORIGINAL_REFERENCE_COLUMN]: reference.text,
+    [NEEDS_REVIEW_COLUMN]: PARSED_REFERENCE_COLUMNS
+      .filter(([field]) => reference.fields[field] && (reference.fields[field]?.confidence ?? 0) < LOW_CONFIDENCE)
+      .map(([, header]) => header)
+      .join(', '),
+  }));
+  return { rows, headers };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { suggestMapping } from '../columnMapping';
+import { createCslItem } from '../cslItems';
+import { cslItemsToRows } from './index';
+import type { CslItem } from '../types';
+
+const items: CslItem[] = [
+  { id: 'item_1', type: 'book', title: 'Zebras', translator: [{ family: 'Lee', given: 'M.' }], edition: '2' },
+  { id: 'item_2', type: 'report', title: 'Water survey', number: 'WB-12', accessed: { 'date-parts': [[2024, 5, 1]] }, status: 'Draft' },
+];
+
+describe('cslItemsToRows', () => {
+  it('gives every row the columns of every variable the items carry', () => {
+    const rows = cslItemsToRows(items);
+    const headers = Object.keys(rows[0]);
+    expect(Object.keys(rows[1])).toEqual(headers);
+    expect(rows[0]).toMatchObject({ 'Translator(s)': 'Lee, M.', Edition: '2', Number: '' });
+    expect(rows[1]).toMatchObject({ Number: 'WB-12', Accessed: '2024-05-01', Status: 'Draft' });
+  });
+
+  it('names common variables so the column mapping reads them back', () => {
+    const rows = cslItemsToRows(items);
+    const mapping = suggestMapping(Object.keys(rows[0]));
+    expect(createCslItem(rows[1], 1, mapping, [])).toMatchObject({ type: 'report', number: 'WB-12', accessed: { 'date-parts': [[2024, 5, 1]] } });
+    expect(createCslItem(rows[0], 0, mapping, []).translator).toEqual([{ family: 'Lee', given: 'M.' }]);
+  });
+});
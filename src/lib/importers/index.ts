@@ -0,0 +1,113 @@
+import { columnHeader } from '../columnMapping';
+import {
+  CSL_DATE_VARIABLES, CSL_NAME_VARIABLES, CSL_VARIABLES, type CslDateVariable, type CslNameVariable, type CslVariable,
+} from '../cslSchema';
+import { formatName } from '../names';
+import type { CslDate, CslItem, CsvRow } from '../types';
+import { parseBibtex } from './bibtex';
+import { parseCslJson } from './cslJson';
+import { parseNbib, parseRis } from './ris';
+import type { ImportFormat, ImportResult } from './types';
+
+export type { ImportFormat, ImportResult } from './types';
+export {
+  LOW_CONFIDENCE,
+  NEEDS_REVIEW_COLUMN,
+  ORIGINAL_REFERENCE_COLUMN,
+  PARSED_REFERENCE_COLUMNS,
+  parseFormattedReferences,
+  parseReference,
+  parsedReferencesToRows,
+  splitReferences,
+  type ParsedReference,
+  type ParsedReferenceField,
+  type ParsedValue,
+  type ReferenceStyle
+} from './formatted';
+
+export const IMPORT_ACCEPT = '.csv,.bib,.bibtex,.ris,.json,.nbib';
+
+const EXTENSIONS: Record<string, ImportFormat> = {
+  csv: 'csv',
+  bib: 'bibtex',
+  bibtex: 'bibtex',
+  ris: 'ris',
+  json: 'csl-json',
+  nbib: 'nbib',
+};
+
+export const FORMAT_LABELS: Record<ImportFormat, string> = {
+  csv: 'CSV',
+  bibtex: 'BibTeX',
+  ris: 'RIS',
+  'csl-json': 'CSL-JSON',
+  nbib: 'PubMed (.nbib)',
+};
+
+export const detectFormat = (filename: string): ImportFormat | null => {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSIONS[extension] ?? null;
+};
+
+/** Parses a reference-manager export. CSV goes through the column-mapping step instead. */
+export const importReferences = (text: string, format: Exclude<ImportFormat, 'csv'>): ImportResult => {
+  switch (format) {
+    case 'bibtex': return parseBibtex(text);
+    case 'ris': return parseRis(text);
+    case 'csl-json': return parseCslJson(text);
+    case 'nbib': return parseNbib(text);
+  }
+};
+
+export const formatDate = (date?: CslDate): string => {
+  if (!date) return '';
+  if (date.literal) return date.literal;
+  return (date['date-parts'] ?? [])
+    .map(parts => parts.map((part, i) => (i === 0 ? String(part) : String(part).padStart(2, '0'))).join('-'))
+    .join('/');
+};
+
+const BASE_VARIABLES = new Set<string>(['title', 'author', 'editor', 'issued', 'container-title', 'volume', 'issue', 'page', 'DOI', 'ISBN', 'URL', 'publisher']);
+const NAME_VARIABLES = new Set<string>(CSL_NAME_VARIABLES);
+const DATE_VARIABLES = new Set<string>(CSL_DATE_VARIABLES);
+
+/** Variables beyond the standard columns that any of `items` carries, in schema order. */
+export const extraRowVariables = (items: CslItem[]): CslVariable[] =>
+  CSL_VARIABLES.filter(variable => !BASE_VARIABLES.has(variable) && items.some(item => item[variable] !== undefined));
+
+const isNameVariable = (variable: CslVariable): variable is CslNameVariable => NAME_VARIABLES.has(variable);
+const isDateVariable = (variable: CslVariable): variable is CslDateVariable => DATE_VARIABLES.has(variable);
+
+const variableText = (item: CslItem, variable: CslVariable): string => {
+  if (isNameVariable(variable)) return (item[variable] ?? []).map(formatName).join('; ');
+  if (isDateVariable(variable)) return formatDate(item[variable]);
+  return item[variable] ?? '';
+};
+
+/**
+ * Flattens an imported item into a spreadsheet-style row for the results CSV:
+ * the standard columns, then one column per variable in `extra`. Rows of one
+ * results CSV must share `extra`, as `cslItemsToRows` does.
+ */
+export const cslItemToRow = (item: CslItem, extra: CslVariable[] = extraRowVariables([item])): CsvRow => ({
+  'Source Type': item.type,
+  Title: item.title ?? '',
+  'Author(s)': (item.author ?? []).map(formatName).join('; '),
+  'Editor(s)': (item.editor ?? []).map(formatName).join('; '),
+  Date: formatDate(item.issued),
+  'Container Title': item['container-title'] ?? '',
+  Volume: item.volume ?? '',
+  Issue: item.issue ?? '',
+  Pages: item.page ?? '',
+  DOI: item.DOI ?? '',
+  ISBN: item.ISBN ?? '',
+  URL: item.URL ?? '',
+  Publisher: item.publisher ?? '',
+  ...Object.fromEntries(extra.map(variable => [columnHeader(variable), variableText(item, variable)])),
+});
+
+/** Rows for every imported item, with the columns of every variable any of them carries. */
+export const cslItemsToRows = (items: CslItem[]): CsvRow[] => {
+  const extra = extraRowVariables(items);
+  return items.map(item => cslItemToRow(item, extra));
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { parseNbib } from './ris';
+
+describe('parseNbib', () => {
+  it('reads each book editor once, preferring the full name', () => {
+    const { items } = parseNbib([
+      'PMID- 12345',
+      'BTI - Clinical handbook.',
+      'PT  - Book',
+      'FED - Smith, John',
+      'ED  - Smith J',
+      'FED - Doe, Jane A',
+      'ED  - Doe JA',
+    ].join('\n'));
+    expect(items[0].editor).toEqual([{ family: 'Smith', given: 'John' }, { family: 'Doe', given: 'Jane A' }]);
+  });
+
+  it('falls back to the short editor names', () => {
+    const { items } = parseNbib('PMID- 1\nBTI - Handbook.\nPT  - Book\nED  - Doe JA\n');
+    expect(items[0].editor).toEqual([{ family: 'Doe', given: 'J. A.' }]);
+  });
+});
@@ -0,0 +1,249 @@
+import { parseDate } from '../dates';
+import { parseName } from '../names';
+import type { CslItem, CslName } from '../types';
+import type { ImportResult } from './types';
+
+const RIS_TYPES: Record<string, string> = {
+  JOUR: 'article-journal',
+  JFULL: 'article-journal',
+  EJOUR: 'article-journal',
+  ABST: 'article-journal',
+  MGZN: 'article-magazine',
+  NEWS: 'article-newspaper',
+  BOOK: 'book',
+  EBOOK: 'book',
+  EDBOOK: 'book',
+  CHAP: 'chapter',
+  ECHAP: 'chapter',
+  CONF: 'paper-conference',
+  CPAPER: 'paper-conference',
+  THES: 'thesis',
+  RPRT: 'report',
+  GOVDOC: 'report',
+  ELEC: 'webpage',
+  WEB: 'webpage',
+  BLOG: 'post-weblog',
+  VIDEO: 'motion_picture',
+  MPCT: 'motion_picture',
+  SOUND: 'song',
+  PAT: 'patent',
+  MAP: 'map',
+  DATA: 'dataset',
+  COMP: 'software',
+  CASE: 'legal_case',
+  STAT: 'legislation',
+  BILL: 'bill',
+  PCOMM: 'personal_communication',
+  UNPB: 'manuscript',
+  MANSCPT: 'manuscript',
+  GEN: 'document',
+};
+
+const NAME_TAGS: Record<string, 'author' | 'editor' | 'collection-editor' | 'translator'> = {
+  AU: 'author',
+  A1: 'author',
+  ED: 'editor',
+  A2: 'editor',
+  A3: 'collection-editor',
+  A4: 'translator',
+};
+
+const SILENT_TAGS = new Set(['ID', 'AB', 'N2', 'KW', 'L1', 'L2', 'L4', 'DB', 'DP', 'LA', 'ST', 'CN', 'AN', 'C1', 'ER']);
+
+/** Types whose M3 ("Type of Work") holds the format, such as "DVD", rather than a genre. */
+const MEDIUM_TYPES = new Set(['motion_picture', 'song', 'broadcast']);
+
+/** Splits tagged text into records. RIS lines look like "TY  - JOUR"; continuation lines carry no tag. */
+const readTaggedRecords = (
+  text: string,
+  linePattern: RegExp,
+  isRecordStart: (tag: string) => boolean
+): Array<Array<[string, string]>> => {
+  const records: Array<Array<[string, string]>> = [];
+  let current: Array<[string, string]> | null = null;
+
+  for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const match = linePattern.exec(line);
+    if (match) {
+      const [, tag, value] = match;
+      if (isRecordStart(tag) || !current) {
+        current = [];
+        records.push(current);
+      }
+      current.push([tag, value.trim()]);
+    } else if (current && current.length > 0 && line.trim()) {
+      const last = current[current.length - 1];
+      last[1] = `${last[1]} ${line.trim()}`;
+    }
+  }
+  return records.filter(record => record.length > 0);
+};
+
+/** RIS names are "Last, First, Suffix"; a name without a comma is an organisation. */
+const parseRisName = (value: string): CslName => {
+  const parts = value.split(',').map(part => part.trim()).filter(Boolean);
+  return parts.length > 1 ? parseName(parts.join(', ')) : { literal: value.trim() };
+};
+
+/** RIS dates are "YYYY/MM/DD/other", with any part possibly empty. */
+const parseRisDate = (value: string): { date?: CslItem['issued']; error?: string } => {
+  const parts = value.split('/');
+  if (parts.length > 1 && /^\d{4}$/.test(parts[0])) {
+    const iso = [parts[0], parts[1], parts[2]].filter(part => part && /^\d+$/.test(part)).join('-');
+    return parseDate(iso);
+  }
+  return parseDate(value);
+};
+
+export const parseRis = (text: string): ImportResult => {
+  const records = readTaggedRecords(text, /^([A-Z][A-Z0-9]) {2}- ?(.*)$/, tag => tag === 'TY');
+  const items: CslItem[] = [];
+  const warnings: string[] = [];
+
+  records.forEach((record, index) => {
+    const label = `RIS record ${index + 1}`;
+    const typeTag = record.find(([tag]) => tag === 'TY')?.[1] ?? '';
+    const cslType = RIS_TYPES[typeTag.toUpperCase()];
+    if (!cslType) warnings.push(`${label}: unsupported reference type "${typeTag || 'missing'}", imported as a generic document`);
+
+    const item: CslItem = { id: `item_${items.length + 1}`, type: cslType ?? 'document' };
+    const unmapped = new Set<string>();
+    let startPage = '';
+    let endPage = '';
+
+    for (const [tag, value] of record) {
+      if (!value && tag !== 'ER') continue;
+      const nameRole = NAME_TAGS[tag];
+      if (nameRole) {
+        // A2 is the book editor on chapter records and the series editor elsewhere.
+        const role = tag === 'A2' && cslType !== 'chapter' && cslType !== 'paper-conference' ? 'collection-editor' : nameRole;
+        item[role] = [...(item[role] ?? []), parseRisName(value)];
+        continue;
+      }
+      switch (tag) {
+        case 'TY': break;
+        case 'TI':
+        case 'T1':
+          item.title = value;
+          break;
+        case 'T2':
+        case 'JO':
+        case 'JF':
+        case 'BT':
+          item['container-title'] = item['container-title'] ?? value;
+          break;
+        case 'JA':
+        case 'J2':
+          break;
+        case 'T3': item['collection-title'] = value; break;
+        case 'VL': item.volume = value; break;
+        case 'IS': item.issue = value; break;
+        case 'SP': startPage = value; break;
+        case 'EP': endPage = value; break;
+        case 'DO': item.DOI = value.replace(/^https?:\/\/(dx\.)?doi\.org\//i, ''); break;
+        case 'UR': item.URL = item.URL ?? value; break;
+        case 'PB': item.publisher = value; break;
+        case 'CY': item['publisher-place'] = value; break;
+        case 'ET': item.edition = value; break;
+        case 'M1': item.number = value; break;
+        case 'M3':
+          if (MEDIUM_TYPES.has(item.type)) item.medium = value;
+          else item.genre = value;
+          break;
+        case 'N1': item.note = item.note ? `${item.note}\n${value}` : value; break;
+        case 'SN':
+          // SN holds either an ISBN or an ISSN.
+          if (/^\d{4}-?\d{3}[\dXx]$/.test(value)) item.ISSN = value;
+          else if (/^[\d-]{10,17}[\dXx]?$/.test(value) && value.replace(/[^\dXx]/g, '').length >= 10) item.ISBN = value;
+          break;
+        case 'PY':
+        case 'Y1':
+        case 'DA': {
+          if (item.issued && tag !== 'DA') break;
+          const { date, error } = parseRisDate(value);
+          if (date) item.issued = date;
+          else if (error) warnings.push(`${label}: ${error} in ${tag}`);
+          break;
+        }
+        case 'Y2': {
+          const { date, error } = parseRisDate(value);
+          if (date) item.accessed = date;
+          else if (error) warnings.push(`${label}: ${error} in Y2`);
+          break;
+        }
+        default:
+          if (!SILENT_TAGS.has(tag)) unmapped.add(tag);
+      }
+    }
+
+    if (startPage) item.page = endPage && endPage !== startPage ? `${startPage}–${endPage}` : startPage;
+    if (unmapped.size > 0) warnings.push(`${label}${item.title ? ` ("${item.title}")` : ''}: ignored tags ${[...unmapped].join(', ')}`);
+    items.push(item);
+  });
+
+  return { items, warnings };
+};
+
+/** A MEDLINE short name such as "Smith JA". */
+const parseNbibShortName = (value: string): CslName => {
+  const [family, initials] = value.split(/\s+(?=[A-Z]+$)/);
+  return initials ? { family, given: initials.split('').map(letter => `${letter}.`).join(' ') } : { literal: value };
+};
+
+/** MEDLINE/PubMed .nbib export: "TAG - value" with four-character padded tags. */
+export const parseNbib = (text: string): ImportResult => {
+  const records = readTaggedRecords(text, /^([A-Z]{2,4})\s*- (.*)$/, tag => tag === 'PMID');
+  const items: CslItem[] = [];
+  const warnings: string[] = [];
+  const silent = new Set(['PMID', 'OWN', 'STAT', 'DCOM', 'LR', 'IS', 'AB', 'CI', 'AD', 'LA', 'GR', 'DEP', 'TA', 'JID', 'SB', 'MH', 'OT', 'OTO', 'COIS', 'EDAT', 'MHDA', 'CRDT', 'PHST', 'PST', 'SO', 'PMC', 'MID', 'AU', 'AUID', 'FIR', 'IR', 'RN', 'PL', 'EIN', 'CIN', 'GN', 'SI', 'LID', 'AID']);
+
+  records.forEach((record, index) => {
+    const label = `PubMed record ${index + 1}`;
+    const publicationTypes = record.filter(([tag]) => tag === 'PT').map(([, value]) => value.toLowerCase());
+    const type = publicationTypes.some(pt => pt.includes('book')) ? 'book' : 'article-journal';
+    const item: CslItem = { id: `item_${items.length + 1}`, type };
+    const unmapped = new Set<string>();
+    const fullAuthors = record.filter(([tag]) => tag === 'FAU').map(([, value]) => parseRisName(value));
+    const shortAuthors = record.filter(([tag]) => tag === 'AU').map(([, value]) => parseNbibShortName(value));
+    if (fullAuthors.length || shortAuthors.length) item.author = fullAuthors.length ? fullAuthors : shortAuthors;
+    // Book records list each editor twice, as FED and as ED, like authors.
+    const fullEditors = record.filter(([tag]) => tag === 'FED').map(([, value]) => parseRisName(value));
+    const shortEditors = record.filter(([tag]) => tag === 'ED').map(([, value]) => parseNbibShortName(value));
+    if (fullEditors.length || shortEditors.length) item.editor = fullEditors.length ? fullEditors : shortEditors;
+
+    for (const [tag, value] of record) {
+      switch (tag) {
+        case 'TI':
+        case 'BTI':
+          item.title = value.replace(/\.$/, '');
+          break;
+        case 'JT': item['container-title'] = value; break;
+        case 'VI': item.volume = value; break;
+        case 'IP': item.issue = value; break;
+        case 'PG': item.page = value.replace(/-/g, '–'); break;
+        case 'DP': {
+          // PubMed writes month ranges as "2023 Jan-Feb".
+          const { date, error } = parseDate(value.replace(/-/g, '–'));
+          if (date) item.issued = date;
+          else if (error) warnings.push(`${label}: ${error} in DP`);
+          break;
+        }
+        case 'PB': item.publisher = value; break;
+        case 'PT':
+        case 'FAU':
+        case 'FED':
+        case 'ED':
+          break;
+        default:
+          if (!silent.has(tag)) unmapped.add(tag);
+      }
+    }
+
+    const doi = record.find(([tag, value]) => (tag === 'LID' || tag === 'AID') && value.endsWith('[doi]'));
+    if (doi) item.DOI = doi[1].replace(/\s*\[doi\]$/, '');
+    if (unmapped.size > 0) warnings.push(`${label}: ignored tags ${[...unmapped].join(', ')}`);
+    items.push(item);
+  });
+
+  return { items, warnings };
+};
@@ -0,0 +1,9 @@
+import type { CslItem } from '../types';
+
+export type ImportFormat = 'csv' | 'bibtex' | 'ris' | 'csl-json' | 'nbib';
+
+export interface ImportResult {
+  items: CslItem[];
+  /** Entry types and fields that could not be mapped, one message per entry. */
+  warnings: string[];
+}
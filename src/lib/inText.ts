@@ -0,0 +1,80 @@
+import { getMappedValue, type ColumnMapping, type MappableField } from './columnMapping';
+import type { CitationLocator, CsvRow, InTextCitation } from './types';
+
+export interface CitationRef {
+  id: string;
+  locator?: CitationLocator;
+}
+
+/** The slice of the citeproc-js engine used for in-text citations. */
+export interface CitationClusterEngine {
+  makeCitationCluster: (items: Array<Record<string, unknown>>) => string;
+  getTerm?: (term: string) => string;
+}
+
+const LOCATOR_FIELDS: Array<[MappableField, string]> = [
+  ['locator-page', 'page'],
+  ['locator-paragraph', 'paragraph'],
+  ['locator-timestamp', 'timestamp'],
+  ['locator-chapter', 'chapter'],
+];
+
+/** Picks the first filled-in locator column of a row, in page/paragraph/timestamp/chapter order. */
+export const readLocator = (row: CsvRow, mapping: ColumnMapping): CitationLocator | undefined => {
+  for (const [field, label] of LOCATOR_FIELDS) {
+    const locator = getMappedValue(row, mapping, field);
+    if (locator) return { locator, label };
+  }
+  return undefined;
+};
+
+const toClusterItem = ({ id, locator }: CitationRef, flags: Record<string, boolean> = {}): Record<string, unknown> => ({
+  id,
+  ...(locator ? { locator: locator.locator, label: locator.label } : {}),
+  ...flags,
+});
+
+/** What citeproc returns for a cluster that prints nothing, e.g. the author of a numeric citation. */
+const NO_PRINTED_FORM = '[NO_PRINTED_FORM]';
+
+const printed = (text: string): string => (text.trim() === NO_PRINTED_FORM ? '' : text.trim());
+
+const joinList = (parts: string[], and: string): string => {
+  if (parts.length <= 1) return parts.join('');
+  return `${parts.slice(0, -1).join(', ')} ${and} ${parts[parts.length - 1]}`;
+};
+
+/**
+ * Renders the parenthetical form through the style's citation layout, and the
+ * narrative form as the author-only name list followed by the author-suppressed
+ * cluster, e.g. "Okonjo and Adebayo (2024, p. 12)". When the style prints no
+ * authors in citations (numeric styles), the narrative form is the
+ * parenthetical one; when nothing is left once the authors are suppressed
+ * (MLA without a page), it is the authors alone.
+ */
+export const makeInTextCitation = (
+  engine: CitationClusterEngine,
+  ref: CitationRef,
+  toText: (html: string) => string
+): InTextCitation => {
+  const and = engine.getTerm?.('and') || 'and';
+  const parenthetical = toText(engine.makeCitationCluster([toClusterItem(ref)]));
+  const authors = printed(toText(engine.makeCitationCluster([toClusterItem({ id: ref.id }, { 'author-only': true })])));
+  const rest = printed(toText(engine.makeCitationCluster([toClusterItem(ref, { 'suppress-author': true })])));
+  const narrative = authors
+    ? [authors.replace(/ & /g, ` ${and} `), rest].filter(Boolean).join(' ')
+    : rest || parenthetical;
+  return { parenthetical, narrative };
+};
+
+/** Renders several items as one citation cluster, sorted and joined the way the style prescribes. */
+export const makeGroupedCitation = (
+  engine: CitationClusterEngine,
+  refs: CitationRef[],
+  toText: (html: string) => string
+): InTextCitation => {
+  const and = engine.getTerm?.('and') || 'and';
+  const parenthetical = toText(engine.makeCitationCluster(refs.map(ref => toClusterItem(ref))));
+  const narrative = joinList(refs.map(ref => makeInTextCitation(engine, ref, toText).narrative), and);
+  return { parenthetical, narrative };
+};
@@ -0,0 +1,44 @@
+/**
+ * Framework-free citation pipeline shared by the web app and the citegen CLI.
+ * Nothing exported here touches React or the DOM.
+ */
+export { suggestMapping, type ColumnMapping, type MappableField } from './columnMapping';
+export { compareOutputs, diffWords, resultTable, type CitationChange, type CitationField, type DiffSegment, type OutputTable, type RowChange, type RowComparison, type RunComparison } from './compare';
+export {
+  CSL_DATE_VARIABLES,
+  CSL_NAME_VARIABLES,
+  CSL_TEXT_VARIABLES,
+  CSL_TYPES,
+  CSL_VARIABLES,
+  isCslType,
+  type CslDateVariable,
+  type CslNameVariable,
+  type CslTextVariable,
+  type CslType,
+  type CslVariable
+} from './cslSchema';
+export { createCslItem, findSourceType, mapSourceType, parseAuthors, parseVolumeIssue, rowsToCslItems, validateCslItems } from './cslItems';
+export { parseCsv, toCsv } from './csv';
+export { SIMILARITY_THRESHOLD, applyMerges, defaultMergeSelection, findDuplicates, mergeItems, mergeableFields, titleSimilarity, type DuplicateGroup, type DuplicateReason, type MergeSelection } from './duplicates';
+export { EMPTY_LOG_FILTER, LOG_LEVELS, LOG_STAGES, matchesLogFilter, serializeLog, stampLogEvent, type LogFilter } from './diagnostics';
+export { dropItem, generateCitations, rerenderItem, type CitationSession, type RenderedItem, type StyleCitations } from './engine';
+export { MERGED_COLUMN, SKIPPED_CITATION, buildResultRow, replaceStyleEntry, runGeneration, styleColumnNames, withBibliographyColumns, type GenerationInput, type GenerationOutput } from './generate';
+export { EDITABLE_FIELDS, applyFieldEdit, itemFieldText, writeFieldToRow, type EditableField } from './itemEditing';
+export { LINT_RULES, groupIssuesByRow, lintItems, type ItemField, type LintRule } from './lint';
+export {
+  MANUSCRIPT_ACCEPT,
+  crossCheckCitations,
+  findCitations,
+  readDocxText,
+  type CitationForm,
+  type CitationMismatch,
+  type CitationMismatchKind,
+  type CrossCheckReport,
+  type ManuscriptCitation
+} from './manuscript';
+export { describeName, formatName, parseName, parseNames, type ParsedNames } from './names';
+export { BUNDLED_LOCALES, resolveLocale, type CitationLocale } from './locales';
+export { citationsToHtml } from './richText';
+export { BUNDLED_STYLES, DEFAULT_STYLE_ID, getStyleTitle, parseCustomStyle, type CitationStyle } from './styles';
+export { SOURCE_TAB_COLUMN, WORKBOOK_ACCEPT, buildCsvUrl, buildWorkbookUrl, combineSheets, findMatchingSheets, groupByTab, isWorkbookFile, parseSheetUrl, readWorkbook, type SheetLink, type WorkbookSheet } from './workbook';
+export type * from './types';
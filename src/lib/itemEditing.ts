@@ -0,0 +1,118 @@
+import type { ColumnMapping, MappableField } from './columnMapping';
+import { parseAuthors, parseVolumeIssue } from './cslItems';
+import { parseDate } from './dates';
+import { formatDate } from './importers';
+import { formatName } from './names';
+import type { CslItem, CsvRow } from './types';
+
+export type EditableField =
+  | 'type'
+  | 'title'
+  | 'author'
+  | 'issued'
+  | 'container-title'
+  | 'volume'
+  | 'issue'
+  | 'page'
+  | 'DOI'
+  | 'URL';
+
+/** Columns of the results grid, in display order. */
+export const EDITABLE_FIELDS: Array<{ field: EditableField; label: string }> = [
+  { field: 'type', label: 'Type' },
+  { field: 'author', label: 'Author(s)' },
+  { field: 'issued', label: 'Date' },
+  { field: 'title', label: 'Title' },
+  { field: 'container-title', label: 'Container' },
+  { field: 'volume', label: 'Volume' },
+  { field: 'issue', label: 'Issue' },
+  { field: 'page', label: 'Pages' },
+  { field: 'DOI', label: 'DOI' },
+  { field: 'URL', label: 'URL' },
+];
+
+/** The text shown in a grid cell; names and dates use the same notation the sheet parser accepts. */
+export const itemFieldText = (item: CslItem, field: EditableField): string => {
+  switch (field) {
+    case 'author':
+      return (item.author ?? []).map(formatName).join('; ');
+    case 'issued':
+      return formatDate(item.issued);
+    default:
+      return item[field] ?? '';
+  }
+};
+
+/**
+ * Parses edited cell text back into the item. Empty text clears the field;
+ * text that cannot be parsed leaves the item unchanged and returns an error.
+ */
+export const applyFieldEdit = (item: CslItem, field: EditableField, text: string): { item: CslItem; error?: string } => {
+  const value = text.trim();
+  const next: CslItem = { ...item };
+
+  if (field === 'type') {
+    if (!value) return { item, error: 'Every item needs a type' };
+    next.type = value;
+    return { item: next };
+  }
+
+  if (!value) {
+    delete next[field];
+    return { item: next };
+  }
+
+  switch (field) {
+    case 'author': {
+      const authors = parseAuthors(value);
+      if (authors.length === 0) return { item, error: `Could not read any names from "${value}"` };
+      next.author = authors;
+      break;
+    }
+    case 'issued': {
+      const { date, error } = parseDate(value);
+      if (error) return { item, error };
+      if (date) next.issued = date;
+      else delete next.issued;
+      break;
+    }
+    case 'DOI':
+      next.DOI = value.replace(/^https?:\/\/(dx\.)?doi\.org\//i, '');
+      break;
+    default:
+      next[field] = value;
+  }
+  return { item: next };
+};
+
+const mappedHeaders = (mapping: ColumnMapping, field: MappableField): string[] =>
+  Object.entries(mapping).filter(([, target]) => target === field).map(([header]) => header);
+
+/**
+ * Writes an edited field back into the source row's mapped column so the
+ * corrected sheet can be downloaded. Fields without a mapped column are left
+ * out. A volume column that already reads "12(3)", or has no separate issue
+ * column beside it, is rewritten in that combined form, as the sheet parser
+ * prefers it over the issue column.
+ */
+export const writeFieldToRow = (row: CsvRow, mapping: ColumnMapping, item: CslItem, field: EditableField): CsvRow => {
+  const output: CsvRow = { ...row };
+
+  if (field === 'volume' || field === 'issue') {
+    const [volumeHeader] = mappedHeaders(mapping, 'volume');
+    const combined = volumeHeader !== undefined
+      && (mappedHeaders(mapping, 'issue').length === 0 || parseVolumeIssue(row[volumeHeader] ?? '').issue !== null);
+    if (combined) {
+      const volume = item.volume ?? '';
+      output[volumeHeader] = item.issue ? `${volume}(${item.issue})` : volume;
+      return output;
+    }
+  }
+
+  const [header, ...others] = mappedHeaders(mapping, field);
+  if (header === undefined) return output;
+  output[header] = itemFieldText(item, field);
+  // Later columns mapped to the same field would otherwise still be read as a fallback.
+  for (const other of others) output[other] = '';
+  return output;
+};
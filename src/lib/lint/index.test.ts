@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { ColumnMapping } from '../columnMapping';
+import type { CslItem } from '../types';
+import { groupIssuesByRow, lintItems } from '.';
+
+const mapping: ColumnMapping = {
+  Title: 'title',
+  Authors: 'author',
+  Editors: 'editor',
+  Year: 'issued',
+  'Book Title': 'container-title',
+  Publisher: 'publisher',
+  Link: 'URL',
+  DOI: 'DOI',
+};
+
+const author = [{ family: 'Smith', given: 'J.' }];
+
+/** The issues for one rule, without the message. */
+const issuesOf = (items: CslItem[], ruleId: string) =>
+  lintItems(items, mapping)
+    .filter(issue => issue.ruleId === ruleId)
+    .map(({ row, column, severity, fix }) => ({ row, column, severity, fix }));
+
+describe('lintItems', () => {
+  it('warns about a book without a publisher', () => {
+    const items: CslItem[] = [
+      { id: 'item_1', type: 'book', title: 'Has one', author, publisher: 'Press', issued: { 'date-parts': [[2020]] } },
+      { id: 'item_2', type: 'book', title: 'Has none', author, issued: { 'date-parts': [[2020]] } },
+    ];
+    expect(issuesOf(items, 'book-publisher')).toEqual([{ row: 2, column: 'Publisher', severity: 'warning', fix: undefined }]);
+  });
+
+  it('warns about a web page without a URL or a full date', () => {
+    const items: CslItem[] = [{ id: 'item_3', type: 'webpage', title: 'Page', author, issued: { 'date-parts': [[2020, 5]] } }];
+    expect(issuesOf(items, 'web-url')).toEqual([{ row: 3, column: 'Link', severity: 'warning', fix: undefined }]);
+    expect(issuesOf(items, 'web-full-date')).toEqual([{ row: 3, column: 'Year', severity: 'warning', fix: undefined }]);
+  });
+
+  it('warns about a thesis without a university', () => {
+    const items: CslItem[] = [{ id: 'item_1', type: 'thesis', title: 'Thesis', author, issued: { 'date-parts': [[2020]] } }];
+    expect(issuesOf(items, 'thesis-university')).toEqual([{ row: 1, column: 'Publisher', severity: 'warning', fix: undefined }]);
+  });
+
+  it('warns about a chapter without editors or a book title', () => {
+    const items: CslItem[] = [{ id: 'item_4', type: 'chapter', title: 'Chapter', author, issued: { 'date-parts': [[2020]] }, page: '1-10' }];
+    expect(issuesOf(items, 'chapter-editor')).toEqual([{ row: 4, column: 'Editors', severity: 'warning', fix: undefined }]);
+    expect(issuesOf(items, 'chapter-container')).toEqual([{ row: 4, column: 'Book Title', severity: 'warning', fix: undefined }]);
+  });
+
+  it('only applies type rules to their types', () => {
+    const items: CslItem[] = [{ id: 'item_1', type: 'article-journal', title: 'Article', author, issued: { 'date-parts': [[2020]] } }];
+    expect(lintItems(items, mapping).map(issue => issue.ruleId)).toEqual(['journal-container', 'journal-volume', 'journal-pages']);
+  });
+
+  it('suggests fixes for a prefixed DOI and a URL without a scheme', () => {
+    const items: CslItem[] = [{
+      id: 'item_1', type: 'webpage', title: 'Page', author, issued: { 'date-parts': [[2020, 5, 1]] },
+      DOI: 'https://doi.org/10.1234/abc', URL: 'www.example.org/page', accessed: { 'date-parts': [[2021, 1, 1]] },
+    }];
+    expect(issuesOf(items, 'doi-format')).toEqual([{
+      row: 1, column: 'DOI', severity: 'warning',
+      fix: { label: 'Remove the prefix', changes: [{ field: 'DOI', value: '10.1234/abc' }] },
+    }]);
+    expect(issuesOf(items, 'url-scheme')).toEqual([{
+      row: 1, column: 'Link', severity: 'warning',
+      fix: { label: 'Add https://', changes: [{ field: 'URL', value: 'https://www.example.org/page' }] },
+    }]);
+  });
+
+  it('orders issues by row, most severe first', () => {
+    const items: CslItem[] = [
+      { id: 'item_2', type: 'book', author },
+      { id: 'item_1', type: 'book', author: [] },
+    ];
+    const issues = lintItems(items, mapping);
+    expect(issues.map(({ row, severity }) => [row, severity])).toEqual([
+      [1, 'error'], [1, 'warning'], [1, 'info'], [2, 'warning'], [2, 'info'],
+    ]);
+    expect(groupIssuesByRow(issues).map(group => [group.row, group.issues.length])).toEqual([[1, 3], [2, 2]]);
+  });
+});
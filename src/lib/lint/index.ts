@@ -0,0 +1,52 @@
+import type { ColumnMapping } from '../columnMapping';
+import type { CslItem, IssueSeverity, ReferenceIssue } from '../types';
+import { LINT_RULES } from './rules';
+import type { LintRule } from './types';
+
+export { LINT_RULES } from './rules';
+export type { ItemField, LintRule } from './types';
+
+const SEVERITY_ORDER: Record<IssueSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+const columnFor = (mapping: ColumnMapping, field: string): string | undefined =>
+  Object.entries(mapping).find(([, target]) => target === field)?.[0];
+
+/**
+ * Runs every rule that applies to each item's type. `mapping` lets issues
+ * name the sheet column they refer to. Issues come back ordered by row,
+ * most severe first.
+ */
+export const lintItems = (items: CslItem[], mapping: ColumnMapping = {}, rules: LintRule[] = LINT_RULES): ReferenceIssue[] =>
+  items
+    .flatMap(item => {
+      const row = parseInt(item.id.replace('item_', ''), 10);
+      return rules
+        .filter(rule => !rule.types || rule.types.includes(item.type))
+        .flatMap((rule): ReferenceIssue[] => {
+          const message = rule.check(item);
+          if (!message) return [];
+          const fix = rule.fix?.(item) ?? undefined;
+          return [{
+            ruleId: rule.id,
+            severity: rule.severity,
+            itemId: item.id,
+            row,
+            field: rule.field,
+            column: columnFor(mapping, rule.field),
+            message,
+            ...(fix ? { fix } : {}),
+          }];
+        });
+    })
+    .sort((a, b) => a.row - b.row || SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+/** Groups issues by row, keeping the order `lintItems` returned. */
+export const groupIssuesByRow = (issues: ReferenceIssue[]): Array<{ row: number; itemId: string; issues: ReferenceIssue[] }> => {
+  const groups = new Map<string, { row: number; itemId: string; issues: ReferenceIssue[] }>();
+  for (const issue of issues) {
+    const group = groups.get(issue.itemId) ?? { row: issue.row, itemId: issue.itemId, issues: [] };
+    group.issues.push(issue);
+    groups.set(issue.itemId, group);
+  }
+  return [...groups.values()];
+};
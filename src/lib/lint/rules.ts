@@ -0,0 +1,135 @@
+import { normalizeIsbn } from '../enrichment/isbnResolver';
+import type { CslItem } from '../types';
+import type { ItemField, LintRule } from './types';
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/** A field that items of `types` should have. */
+const requires = (id: string, types: string[] | undefined, field: ItemField, severity: LintRule['severity'], message: string): LintRule => ({
+  id,
+  severity,
+  types,
+  field,
+  check: (item: CslItem) => (isBlank(item[field]) ? message : null),
+});
+
+const WEB_TYPES = ['webpage', 'post-weblog', 'post'];
+const DOI_PREFIX = /^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)/i;
+const DOI_IN_URL = /^https?:\/\/(?:dx\.)?doi\.org\/(10\.\S+)$/i;
+const PAGE_PREFIX = /^(?:pp?\.|pages?)\s*/i;
+
+const isValidIsbn = (isbn: string): boolean => {
+  const digits = normalizeIsbn(isbn);
+  if (digits.length === 10) {
+    const sum = [...digits].reduce((total, digit, i) => total + (digit === 'X' ? 10 : Number(digit)) * (10 - i), 0);
+    return /^\d{9}[\dX]$/.test(digits) && sum % 11 === 0;
+  }
+  if (digits.length === 13) {
+    const sum = [...digits].reduce((total, digit, i) => total + Number(digit) * (i % 2 ? 3 : 1), 0);
+    return /^\d{13}$/.test(digits) && sum % 10 === 0;
+  }
+  return false;
+};
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'title-or-author',
+    severity: 'error',
+    field: 'title',
+    check: item => (!item.title && isBlank(item.author) ? 'Missing both title and author' : null),
+  },
+  requires('missing-date', undefined, 'issued', 'info', 'No date; most styles will print "n.d."'),
+
+  requires('journal-container', ['article-journal'], 'container-title', 'error', 'Journal articles require a journal name'),
+  requires('journal-volume', ['article-journal'], 'volume', 'warning', 'Journal articles need a volume number'),
+  requires('journal-pages', ['article-journal'], 'page', 'info', 'No page range or article number'),
+  requires('periodical-container', ['article-magazine', 'article-newspaper'], 'container-title', 'warning', 'Magazine and newspaper articles need the publication name'),
+  requires('book-publisher', ['book'], 'publisher', 'warning', 'Books need a publisher'),
+  requires('chapter-container', ['chapter'], 'container-title', 'warning', 'Chapters need the title of the book they appear in'),
+  requires('chapter-editor', ['chapter'], 'editor', 'warning', "Chapters need the book's editors"),
+  requires('chapter-pages', ['chapter'], 'page', 'info', 'No page range for the chapter'),
+  requires('conference-container', ['paper-conference'], 'container-title', 'warning', 'Conference papers need the proceedings title'),
+  requires('thesis-university', ['thesis'], 'publisher', 'warning', 'Theses need the awarding university, in the publisher column'),
+  requires('report-institution', ['report'], 'publisher', 'warning', 'Reports need the issuing institution, in the publisher column'),
+  requires('web-url', WEB_TYPES, 'URL', 'warning', 'Web pages need a URL'),
+  {
+    id: 'web-full-date',
+    severity: 'warning',
+    types: WEB_TYPES,
+    field: 'issued',
+    check: item => {
+      const parts = item.issued?.['date-parts']?.[0];
+      return parts && parts.length < 3 ? 'Web pages need a full publication date (year, month and day)' : null;
+    },
+  },
+  requires('web-accessed', WEB_TYPES, 'accessed', 'info', 'No access date; some styles print when a changing page was retrieved'),
+
+  {
+    id: 'doi-format',
+    severity: 'warning',
+    field: 'DOI',
+    check: item => {
+      if (!item.DOI) return null;
+      if (DOI_PREFIX.test(item.DOI)) return 'DOI includes a resolver prefix; styles add their own';
+      return /^10\.\d{4,9}\/\S+$/.test(item.DOI) ? null : `"${item.DOI}" does not look like a DOI`;
+    },
+    fix: item => (item.DOI && DOI_PREFIX.test(item.DOI)
+      ? { label: 'Remove the prefix', changes: [{ field: 'DOI', value: item.DOI.replace(DOI_PREFIX, '') }] }
+      : null),
+  },
+  {
+    id: 'doi-in-url',
+    severity: 'info',
+    field: 'URL',
+    check: item => (!item.DOI && item.URL && DOI_IN_URL.test(item.URL) ? 'The URL is a DOI link; styles format DOIs themselves' : null),
+    fix: item => {
+      const match = !item.DOI && item.URL ? DOI_IN_URL.exec(item.URL) : null;
+      return match
+        ? { label: 'Move it to the DOI field', changes: [{ field: 'DOI', value: match[1] }, { field: 'URL', value: '' }] }
+        : null;
+    },
+  },
+  {
+    id: 'url-scheme',
+    severity: 'warning',
+    field: 'URL',
+    check: item => (item.URL && !/^https?:\/\//i.test(item.URL) ? `URL "${item.URL}" does not start with http:// or https://` : null),
+    fix: item => (item.URL && /^(?:www\.)?[\w-]+(?:\.[\w-]+)+(?:[/?#]\S*)?$/i.test(item.URL)
+      ? { label: 'Add https://', changes: [{ field: 'URL', value: `https://${item.URL}` }] }
+      : null),
+  },
+  {
+    id: 'page-prefix',
+    severity: 'info',
+    field: 'page',
+    check: item => (item.page && PAGE_PREFIX.test(item.page) ? 'Pages include a "p." or "pp." label; styles add their own' : null),
+    fix: item => (item.page && PAGE_PREFIX.test(item.page)
+      ? { label: 'Remove the label', changes: [{ field: 'page', value: item.page.replace(PAGE_PREFIX, '') }] }
+      : null),
+  },
+  {
+    id: 'title-full-stop',
+    severity: 'info',
+    field: 'title',
+    check: item => (item.title && /[^.]\.$/.test(item.title) ? 'Title ends with a full stop; styles add their own punctuation' : null),
+    fix: item => (item.title && /[^.]\.$/.test(item.title)
+      ? { label: 'Remove the full stop', changes: [{ field: 'title', value: item.title.slice(0, -1) }] }
+      : null),
+  },
+  {
+    id: 'isbn-checksum',
+    severity: 'warning',
+    field: 'ISBN',
+    check: item => (item.ISBN && !isValidIsbn(item.ISBN) ? `ISBN "${item.ISBN}" has a wrong length or check digit` : null),
+  },
+  {
+    id: 'future-date',
+    severity: 'info',
+    field: 'issued',
+    check: item => {
+      const year = item.issued?.['date-parts']?.[0]?.[0];
+      return year && year > new Date().getFullYear() + 1 ? `Publication year ${year} is in the future` : null;
+    },
+  },
+];
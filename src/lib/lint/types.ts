@@ -0,0 +1,21 @@
+import type { MappableField } from '../columnMapping';
+import type { CslItem, IssueSeverity, SuggestedFix } from '../types';
+
+/** Sheet fields that hold item data, as opposed to in-text locators. */
+export type ItemField = Exclude<MappableField, `locator-${string}`>;
+
+/**
+ * One check of the reference linter. Rules are plain data plus a predicate,
+ * so adding a type requirement is a one-line entry in `LINT_RULES`.
+ */
+export interface LintRule {
+  id: string;
+  severity: IssueSeverity;
+  /** CSL types the rule applies to; omitted for every type. */
+  types?: string[];
+  /** The field the issue is reported against, used to point at its sheet column. */
+  field: ItemField;
+  /** Returns a message when the item breaks the rule, otherwise null. */
+  check: (item: CslItem) => string | null;
+  fix?: (item: CslItem) => SuggestedFix | null;
+}
@@ -0,0 +1,45 @@
+import enGB from '../locales/locales-en-GB.xml?raw';
+import enUS from '../locales/locales-en-US.xml?raw';
+import frCA from '../locales/locales-fr-CA.xml?raw';
+import frFR from '../locales/locales-fr-FR.xml?raw';
+import ptBR from '../locales/locales-pt-BR.xml?raw';
+import ptPT from '../locales/locales-pt-PT.xml?raw';
+
+export interface CitationLocale {
+  id: string;
+  label: string;
+  xml: string;
+}
+
+/** The first bundled variant of each language is the one served for a bare language tag. */
+export const BUNDLED_LOCALES: CitationLocale[] = [
+  { id: 'en-US', label: 'English (US)', xml: enUS },
+  { id: 'en-GB', label: 'English (UK)', xml: enGB },
+  { id: 'fr-FR', label: 'Français (France)', xml: frFR },
+  { id: 'fr-CA', label: 'Français (Canada)', xml: frCA },
+  { id: 'pt-PT', label: 'Português (Portugal)', xml: ptPT },
+  { id: 'pt-BR', label: 'Português (Brasil)', xml: ptBR },
+];
+
+/** citeproc-js always needs en-US, and it stands in for languages that are not bundled. */
+export const FALLBACK_LOCALE = 'en-US';
+
+/** Maps a requested language tag ("fr", "pt_BR", "en-AU") to the closest bundled locale id. */
+export const resolveLocale = (lang: string): string => {
+  const tag = lang.replace('_', '-').toLowerCase();
+  const exact = BUNDLED_LOCALES.find(locale => locale.id.toLowerCase() === tag);
+  if (exact) return exact.id;
+  const primary = tag.split('-')[0];
+  return BUNDLED_LOCALES.find(locale => locale.id.split('-')[0].toLowerCase() === primary)?.id ?? FALLBACK_LOCALE;
+};
+
+/** True when `lang` is served in its own language rather than by the English fallback. */
+export const isLanguageBundled = (lang: string): boolean =>
+  resolveLocale(lang).split('-')[0] === lang.replace('_', '-').split('-')[0].toLowerCase();
+
+/** Locale XML for citeproc's `sys.retrieveLocale`. Never empty: unknown languages get the fallback. */
+export const retrieveLocale = (lang: string): string =>
+  (BUNDLED_LOCALES.find(locale => locale.id === resolveLocale(lang)) ?? BUNDLED_LOCALES[0]).xml;
+
+export const getStyleDefaultLocale = (styleXml: string): string | null =>
+  /<style\b[^>]*\bdefault-locale="([^"]+)"/.exec(styleXml)?.[1] ?? null;
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { crossCheckCitations, findCitations } from './manuscript';
+import type { CslItem } from './types';
+
+const cite = (text: string) => findCitations(text).map(({ form, authors, etAl, year }) => ({ form, authors, etAl, year }));
+
+describe('findCitations', () => {
+  it('finds narrative citations, with et al. and several names', () => {
+    expect(cite('See Smith et al. (2020) and Lee and Park (2019, p. 4).')).toEqual([
+      { form: 'narrative', authors: ['Smith'], etAl: true, year: '2020' },
+      { form: 'narrative', authors: ['Lee', 'Park'], etAl: false, year: '2019' },
+    ]);
+  });
+
+  it('finds each reference in a parenthetical group, repeating names for bare years', () => {
+    expect(cite('as shown before (Smith & Jones, 2020; Lee, 2019; 2020).')).toEqual([
+      { form: 'parenthetical', authors: ['Smith', 'Jones'], etAl: false, year: '2020' },
+      { form: 'parenthetical', authors: ['Lee'], etAl: false, year: '2019' },
+      { form: 'parenthetical', authors: ['Lee'], etAl: false, year: '2020' },
+    ]);
+  });
+
+  it('keeps particles and records the line', () => {
+    const [citation] = findCitations('Intro.\nThis was disputed (see van der Berg, 2018a).');
+    expect(citation).toMatchObject({ authors: ['van der Berg'], year: '2018a', line: 2, text: '(see van der Berg, 2018a)' });
+  });
+
+  it('does not read sentence openers or dates as authors', () => {
+    expect(cite('However, Smith (2020) disagreed.')).toEqual([
+      { form: 'narrative', authors: ['Smith'], etAl: false, year: '2020' },
+    ]);
+    expect(cite('The survey ran twice (January 2020) in total.')).toEqual([]);
+  });
+});
+
+describe('crossCheckCitations', () => {
+  const items: CslItem[] = [
+    { id: 'item_1', type: 'book', title: 'Deep work', author: [{ family: 'Smith', given: 'J.' }, { family: 'Jones', given: 'K.' }], issued: { 'date-parts': [[2020]] } },
+    { id: 'item_2', type: 'book', title: 'Coasts', author: [{ family: 'Lee', given: 'M.' }], issued: { 'date-parts': [[2019]] } },
+    { id: 'item_3', type: 'book', title: 'Rivers', author: [{ family: 'Müller', given: 'A.' }], issued: { 'date-parts': [[2017]] } },
+    { id: 'item_4', type: 'book', title: 'Never cited', author: [{ family: 'Adams', given: 'B.' }], issued: { 'date-parts': [[2001]] } },
+    { id: 'item_5', type: 'book', title: 'Dunes', author: [{ family: 'Berg', given: 'H.', 'non-dropping-particle': 'van der' }], issued: { 'date-parts': [[2018]] } },
+  ];
+  const report = crossCheckCitations(
+    findCitations('Smith and Jones (2020) agree (Lee, 2021; Muller, 2017; van der Berg, 2018). Park (2015) does not.'),
+    items
+  );
+
+  it('matches citations with the same names and year', () => {
+    expect(report.matched.map(({ itemId, row }) => [itemId, row])).toEqual([['item_1', 1], ['item_5', 5]]);
+  });
+
+  it('reports citations with no reference as missing', () => {
+    expect(report.missing.map(citation => citation.authors)).toEqual([['Park']]);
+  });
+
+  it('reports a year mismatch and a misspelt name against the likely reference', () => {
+    expect(report.mismatches.map(({ kind, itemId, row, expected }) => ({ kind, itemId, row, expected }))).toEqual([
+      { kind: 'year', itemId: 'item_2', row: 2, expected: '2019' },
+      { kind: 'spelling', itemId: 'item_3', row: 3, expected: 'Müller' },
+    ]);
+  });
+
+  it('lists references that are never cited', () => {
+    expect(report.uncited).toEqual([{ itemId: 'item_4', row: 4, label: 'Adams (2001) Never cited' }]);
+  });
+});
@@ -0,0 +1,242 @@
+import type { CslItem, CslName } from './types';
+
+export const MANUSCRIPT_ACCEPT = '.txt,.md,.docx';
+
+export type CitationForm = 'parenthetical' | 'narrative';
+
+/** One author-date reference found in a manuscript. "(Lee, 2019, 2020)" gives two. */
+export interface ManuscriptCitation {
+  /** The citation as written, e.g. "(Smith & Jones, 2020; Lee, 2019)" or "Smith (2020)". */
+  text: string;
+  /** Character offset of `text` in the manuscript. */
+  offset: number;
+  /** 1-based line of `offset`. */
+  line: number;
+  form: CitationForm;
+  /** Names as cited: surnames, or an organisation's name. */
+  authors: string[];
+  /** The cited names end in "et al.". */
+  etAl: boolean;
+  /** As cited, including any letter suffix, e.g. "2020a" or "n.d.". */
+  year: string;
+}
+
+export type CitationMismatchKind = 'year' | 'spelling';
+
+export interface CitationMismatch {
+  kind: CitationMismatchKind;
+  citation: ManuscriptCitation;
+  /** The reference the citation most likely means. */
+  itemId: string;
+  row: number;
+  /** What the reference list has instead: its year, or its author names. */
+  expected: string;
+}
+
+export interface CrossCheckReport {
+  citations: ManuscriptCitation[];
+  matched: Array<{ citation: ManuscriptCitation; itemId: string; row: number }>;
+  /** Citations with no reference. */
+  missing: ManuscriptCitation[];
+  /** Citations whose reference has a different year or differently spelled names. */
+  mismatches: CitationMismatch[];
+  /** References never cited, even with a mismatch. */
+  uncited: Array<{ itemId: string; row: number; label: string }>;
+}
+
+const PARTICLES = 'van|von|de|der|den|del|della|da|di|du|dos|das|la|le|ter|ten|op';
+// A surname, with any lowercase particles before it: "Smith", "O'Brien", "van der Berg".
+const NAME = `(?:(?:${PARTICLES})\\s+)*\\p{Lu}[\\p{L}\\p{M}'’-]*\\p{L}`;
+const YEAR = '(?:\\d{4}[a-z]?|n\\.\\s?d\\.|in press|forthcoming)';
+const YEARS = `${YEAR}(?:,\\s*${YEAR})*`;
+
+// "Smith (2020)", "Smith and Jones (2020, p. 4)", "Smith, Jones, & Lee (2019a, 2020)", "Smith et al.'s (2020)".
+// Comma-separated names need a closing "and", so "However, Smith (2020)" is read as Smith alone.
+const NARRATIVE = new RegExp(
+  `(${NAME}(?:(?:,\\s*${NAME})*,?\\s+(?:and|&)\\s+${NAME})?)(\\s+et\\s+al\\.?)?(?:['’]s?)?\\s+\\((${YEARS})(?:,[^()]*)?\\)`,
+  'gu'
+);
+const PARENTHESES = /\(([^()]+)\)/g;
+// One part of a parenthetical group: "see Smith & Jones, 2020, p. 4".
+const PARENTHETICAL_PART = new RegExp(`^(.*?),?\\s+(${YEARS})(?=,|$)`, 'u');
+const YEARS_ONLY = new RegExp(`^(${YEARS})(?=,|$)`, 'u');
+const PREFIX = /^(?:see also|see|e\.g\.,?|cf\.|i\.e\.,?|also|but see)\s+/i;
+const ET_AL = /,?\s+et\s+al\.?$/;
+const CITED_NAME = new RegExp(`^${NAME}(?:\\s+\\p{Lu}[\\p{L}\\p{M}'’-]*)*$`, 'u');
+// Capitalised words before a year that are dates, not authors: "(January 2020)".
+const NOT_AUTHOR = /^(?:january|february|march|april|may|june|july|august|september|october|november|december|spring|summer|autumn|fall|winter)$/i;
+
+const splitYears = (years: string): string[] => years.split(/,\s*/).map(year => year.trim());
+
+const splitAuthors = (text: string): { authors: string[]; etAl: boolean } => {
+  const etAl = ET_AL.test(text);
+  const authors = text.replace(ET_AL, '').split(/\s*,\s*(?:&|and\s)?\s*|\s+(?:&|and)\s+/).map(name => name.trim()).filter(Boolean);
+  return { authors, etAl };
+};
+
+/**
+ * Finds author-date citations in manuscript text: parenthetical ones such as
+ * "(Smith & Jones, 2020; Lee, 2019, p. 4)" and narrative ones such as
+ * "Smith et al. (2020)". Citations come back in the order they appear.
+ */
+export const findCitations = (text: string): ManuscriptCitation[] => {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) if (text[i] === '\n') lineStarts.push(i + 1);
+  const lineOf = (offset: number): number => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+    return line + 1;
+  };
+
+  const citations: ManuscriptCitation[] = [];
+  const add = (match: { text: string; offset: number }, form: CitationForm, authors: string[], etAl: boolean, years: string): void => {
+    for (const year of splitYears(years)) {
+      citations.push({ text: match.text, offset: match.offset, line: lineOf(match.offset), form, authors, etAl, year });
+    }
+  };
+
+  for (const match of text.matchAll(NARRATIVE)) {
+    const { authors } = splitAuthors(match[1]);
+    if (NOT_AUTHOR.test(authors[0])) continue;
+    add({ text: match[0], offset: match.index ?? 0 }, 'narrative', authors, Boolean(match[2]), match[3]);
+  }
+
+  for (const match of text.matchAll(PARENTHESES)) {
+    const group = { text: match[0], offset: match.index ?? 0 };
+    let previous: { authors: string[]; etAl: boolean } | null = null;
+    for (const rawPart of match[1].split(';')) {
+      const part = rawPart.trim().replace(PREFIX, '');
+      const cited = PARENTHETICAL_PART.exec(part);
+      const names = cited ? splitAuthors(cited[1]) : null;
+      if (cited && names?.authors.length && names.authors.every(name => CITED_NAME.test(name)) && !NOT_AUTHOR.test(names.authors[0])) {
+        add(group, 'parenthetical', names.authors, names.etAl, cited[2]);
+        previous = names;
+      } else if (previous && YEARS_ONLY.test(part)) {
+        // "(Lee, 2019; 2020)" repeats the names before it.
+        add(group, 'parenthetical', previous.authors, previous.etAl, YEARS_ONLY.exec(part)?.[1] ?? '');
+      }
+    }
+  }
+
+  return citations.sort((a, b) => a.offset - b.offset);
+};
+
+const normalizeName = (name: string): string =>
+  name.normalize('NFC').replace(/’/g, "'").replace(/\s+/g, ' ').trim().toLowerCase();
+
+/** The ways a name may be cited: "van der Berg" or "Berg" for a particle, the whole name for an organisation. */
+const nameKeys = (name: CslName): string[] => {
+  if ('literal' in name) return [normalizeName(name.literal)];
+  const particle = name['non-dropping-particle'];
+  return particle ? [normalizeName(`${particle} ${name.family}`), normalizeName(name.family)] : [normalizeName(name.family)];
+};
+
+const namesOf = (item: CslItem): CslName[] => (item.author?.length ? item.author : item.editor ?? []);
+
+const citedName = (name: CslName): string =>
+  'literal' in name ? name.literal : [name['non-dropping-particle'], name.family].filter(Boolean).join(' ');
+
+/** The names a reference is cited by, e.g. "Smith & Jones" or "Smith et al.". */
+const citedNames = (item: CslItem): string => {
+  const names = namesOf(item).map(citedName);
+  if (names.length > 2) return `${names[0]} et al.`;
+  return names.join(' & ') || (item.title ?? '');
+};
+
+const normalizeYear = (year: string): string => {
+  if (/^\d{4}[a-z]?$/.test(year)) return year.slice(0, 4);
+  if (/^n\.\s?d\.$/i.test(year)) return 'n.d.';
+  return 'in press';
+};
+
+const yearOf = (item: CslItem): string => {
+  const year = item.issued?.['date-parts']?.[0]?.[0];
+  if (year) return String(year);
+  const literal = item.issued?.literal?.trim().toLowerCase() ?? '';
+  return /^(?:in press|forthcoming)$/.test(literal) ? 'in press' : 'n.d.';
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** Close enough to be a misspelling: "Smyth" for "Smith", "Muller" for "Müller". */
+const isNearName = (cited: string, keys: string[]): boolean =>
+  keys.some(key => {
+    const distance = editDistance(cited, key);
+    return distance > 0 && distance <= Math.min(2, Math.floor(Math.max(cited.length, key.length) / 3));
+  });
+
+/** Every cited name is the reference's name in the same position, and "et al." stands for the rest. */
+const namesMatch = (citation: ManuscriptCitation, names: CslName[]): boolean => {
+  const cited = citation.authors.map(normalizeName);
+  if (citation.etAl ? names.length <= cited.length : names.length !== cited.length) return false;
+  return cited.every((name, index) => nameKeys(names[index]).includes(name));
+};
+
+/**
+ * Matches manuscript citations against the reference list. A citation
+ * matches a reference with the same names and year; when only the year
+ * differs, or only the spelling or list of names, it is reported as a
+ * mismatch against that reference. Rows are the sheet rows of the items.
+ */
+export const crossCheckCitations = (citations: ManuscriptCitation[], items: CslItem[]): CrossCheckReport => {
+  const rowOf = (id: string): number => parseInt(id.replace('item_', ''), 10);
+  const report: CrossCheckReport = { citations, matched: [], missing: [], mismatches: [], uncited: [] };
+  const cited = new Set<string>();
+
+  for (const citation of citations) {
+    const year = normalizeYear(citation.year);
+    const firstName = normalizeName(citation.authors[0] ?? '');
+    const sameFirst = items.filter(item => namesOf(item)[0] && nameKeys(namesOf(item)[0]).includes(firstName));
+
+    const exact = sameFirst.find(item => yearOf(item) === year && namesMatch(citation, namesOf(item)));
+    if (exact) {
+      report.matched.push({ citation, itemId: exact.id, row: rowOf(exact.id) });
+      cited.add(exact.id);
+      continue;
+    }
+
+    // Prefer the nearest year when the same authors have several references.
+    const yearGap = (item: CslItem): number => Math.abs(Number(yearOf(item)) - Number(year)) || Infinity;
+    const otherYears = sameFirst
+      .filter(item => namesMatch(citation, namesOf(item)))
+      .sort((a, b) => yearGap(a) - yearGap(b));
+    const misspelt = items.find(item => {
+      const names = namesOf(item);
+      if (!names[0] || yearOf(item) !== year) return false;
+      return sameFirst.includes(item) || isNearName(firstName, nameKeys(names[0]));
+    });
+    const mismatch: CitationMismatch | null = otherYears[0]
+      ? { kind: 'year', citation, itemId: otherYears[0].id, row: rowOf(otherYears[0].id), expected: yearOf(otherYears[0]) }
+      : misspelt
+        ? { kind: 'spelling', citation, itemId: misspelt.id, row: rowOf(misspelt.id), expected: citedNames(misspelt) }
+        : null;
+    if (mismatch) {
+      report.mismatches.push(mismatch);
+      cited.add(mismatch.itemId);
+    } else {
+      report.missing.push(citation);
+    }
+  }
+
+  report.uncited = items
+    .filter(item => !cited.has(item.id))
+    .map(item => ({ itemId: item.id, row: rowOf(item.id), label: `${citedNames(item)} (${yearOf(item)})${item.title ? ` ${item.title}` : ''}` }));
+  return report;
+};
+
+/** Plain text of a .docx, one paragraph per line. */
+export const readDocxText = async (data: ArrayBuffer): Promise<string> => {
+  const mammoth = await import('mammoth');
+  const { value } = await mammoth.extractRawText({ arrayBuffer: data });
+  return value;
+};
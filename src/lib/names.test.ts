@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseName, parseNames } from './names';
+
+describe('parseName', () => {
+  it('reads family-first and given-first orders', () => {
+    expect(parseName('Smith, John')).toEqual({ family: 'Smith', given: 'John' });
+    expect(parseName('John Smith')).toEqual({ family: 'Smith', given: 'John' });
+  });
+
+  it('keeps particles with the family name', () => {
+    expect(parseName('Vincent van Gogh')).toMatchObject({ family: 'Gogh', given: 'Vincent', 'non-dropping-particle': 'van' });
+  });
+
+  it('reads suffixes in either position', () => {
+    expect(parseName('King, Martin Luther, Jr.')).toMatchObject({ family: 'King', given: 'Martin Luther', suffix: 'Jr.' });
+    expect(parseName('Martin Luther King Jr.')).toMatchObject({ family: 'King', given: 'Martin Luther', suffix: 'Jr.' });
+  });
+
+  it('keeps braced and institutional names whole', () => {
+    expect(parseName('{Acme Widgets}')).toEqual({ literal: 'Acme Widgets' });
+    expect(parseName('University of Oxford')).toEqual({ literal: 'University of Oxford' });
+  });
+});
+
+describe('parseNames', () => {
+  it('drops a trailing "et al." and reports it', () => {
+    const { names, etAl } = parseNames('Smith, J.; Doe, J. et al.');
+    expect(names).toHaveLength(2);
+    expect(etAl).toBe(true);
+  });
+
+  it('reads bare surnames joined by "and" or "&" as people', () => {
+    expect(parseNames('Smith and Jones').names).toEqual([{ family: 'Smith', given: '' }, { family: 'Jones', given: '' }]);
+    expect(parseNames("O'Brien & Müller").names).toEqual([{ family: "O'Brien", given: '' }, { family: 'Müller', given: '' }]);
+  });
+
+  it('keeps joined organisation names whole', () => {
+    expect(parseNames('Smith and Company').names).toEqual([{ literal: 'Smith and Company' }]);
+    expect(parseNames('Johnson & Johnson').names).toEqual([{ literal: 'Johnson & Johnson' }]);
+    expect(parseNames('AT&T').names).toEqual([{ literal: 'AT&T' }]);
+    expect(parseNames('Department of Health and Social Care').names).toEqual([{ literal: 'Department of Health and Social Care' }]);
+    expect(parseNames('Centers for Disease Control and Prevention').names).toEqual([{ literal: 'Centers for Disease Control and Prevention' }]);
+  });
+
+  it('reads plural institution words as organisations', () => {
+    expect(parseName('National Institutes of Health')).toEqual({ literal: 'National Institutes of Health' });
+    expect(parseName('Northern Hospitals')).toEqual({ literal: 'Northern Hospitals' });
+    expect(parseName('Joanne Banks')).toEqual({ family: 'Banks', given: 'Joanne' });
+  });
+
+  it('splits APA author lists that use commas throughout', () => {
+    expect(parseNames('Smith, J., Jones, K., & Lee, M.').names).toEqual([
+      { family: 'Smith', given: 'J.' },
+      { family: 'Jones', given: 'K.' },
+      { family: 'Lee', given: 'M.' },
+    ]);
+    expect(parseNames('van der Berg, J. A., and Okonjo, B.').names).toEqual([
+      { family: 'Berg', given: 'J. A.', 'non-dropping-particle': 'van der' },
+      { family: 'Okonjo', given: 'B.' },
+    ]);
+  });
+});
@@ -0,0 +1,201 @@
+import type { CslName } from './types';
+
+export interface ParsedNames {
+  names: CslName[];
+  /** The cell ended in "et al." or "and others", so the list is incomplete. */
+  etAl: boolean;
+}
+
+const SUFFIX = /^(?:jr|sr|jnr|snr)\.?$|^(?:ii|iii|iv)$/i;
+const ET_AL = /(?:[,;]\s*|\s+)(?:et\.?\s*al\.?|and\s+others|&\s*others)\s*$/i;
+const INITIALS = /^[A-Z](?:\.?[\s-]?[A-Z]){0,2}\.?$/;
+const VANCOUVER_NAME = /^[^\s,]+(?:\s[^\s,]+)*\s[A-Z]{1,3}$/;
+// A lone capitalised surname such as "Smith" or "O'Brien", but not an acronym like "IBM".
+const SURNAME = /^\p{Lu}[\p{L}\p{M}'’-]*\p{Ll}[\p{L}\p{M}'’-]*$/u;
+
+// Words that mark a group or institution rather than a person, singular or plural.
+// "Bank" stays singular: "Banks" is a common surname.
+const CORPORATE = new RegExp(
+  `\\b(?:${[
+    'organi[sz]ations?', 'associations?', 'institutes?', 'institutions?', 'universit(?:y|ies)', 'colleges?', 'schools?',
+    'councils?', 'committees?', 'commissions?', 'agenc(?:y|ies)', 'departments?', 'ministr(?:y|ies)', 'societ(?:y|ies)',
+    'foundations?', 'corporations?', 'compan(?:y|ies)', 'inc', 'ltd', 'llc', 'plc', 'gmbh', 'groups?', 'bank', 'offices?',
+    'boards?', 'bureaus?', 'cent(?:re|er)s?', 'trusts?', 'federations?', 'unions?', 'authorit(?:y|ies)', 'networks?',
+    'services?', 'press', 'publish(?:ing|ers)', 'governments?', 'coalitions?', 'consorti(?:um|a)', 'alliances?',
+    'laborator(?:y|ies)', 'hospitals?', 'librar(?:y|ies)', 'museums?', 'nations', 'projects?', 'programmes?',
+    'taskforces?', 'teams?',
+  ].join('|')})\\b`,
+  'i'
+);
+
+/** Splits on top-level occurrences of `separator`, ignoring anything nested in braces. */
+export const splitTopLevel = (text: string, separator: RegExp): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}') depth--;
+    else if (depth === 0) {
+      const match = separator.exec(text.slice(i));
+      if (match && match.index === 0) {
+        parts.push(text.slice(start, i));
+        i += match[0].length - 1;
+        start = i + 1;
+      }
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+const isBraced = (text: string): boolean => /^\{.*\}$/.test(text) && !/\}.*\{/.test(text.slice(1, -1));
+const isLowercase = (word: string): boolean => /^[a-z]/.test(word);
+
+/** "JR", "J.R." and "J R" all become "J. R."; other given names are kept as written. */
+const normalizeGiven = (given: string): string => {
+  if (!INITIALS.test(given) || given !== given.toUpperCase()) return given;
+  const hyphenated = /[A-Z]\.?-[A-Z]/.test(given);
+  return given.replace(/[^A-Z]/g, '').split('').map(letter => `${letter}.`).join(hyphenated ? '-' : ' ');
+};
+
+const person = (family: string, given: string, parts: { particle?: string; dropping?: string; suffix?: string } = {}): CslName => ({
+  family,
+  given: normalizeGiven(given),
+  ...(parts.particle ? { 'non-dropping-particle': parts.particle } : {}),
+  ...(parts.dropping ? { 'dropping-particle': parts.dropping } : {}),
+  ...(parts.suffix ? { suffix: parts.suffix } : {}),
+});
+
+/** "van Beethoven" -> particle "van", family "Beethoven"; a trailing "Jr." becomes the suffix. */
+const splitFamily = (text: string): { family: string; particle?: string; suffix?: string } => {
+  const words = text.split(/\s+/);
+  const suffix = words.length > 1 && SUFFIX.test(words[words.length - 1]) ? words.pop() : undefined;
+  let split = 0;
+  while (split < words.length - 1 && isLowercase(words[split])) split++;
+  return { family: words.slice(split).join(' '), particle: words.slice(0, split).join(' ') || undefined, suffix };
+};
+
+/** "Ludwig van" -> given "Ludwig", dropping particle "van". */
+const splitGiven = (text: string): { given: string; dropping?: string } => {
+  const words = text.split(/\s+/);
+  let split = words.length;
+  while (split > 1 && isLowercase(words[split - 1])) split--;
+  return { given: words.slice(0, split).join(' '), dropping: words.slice(split).join(' ') || undefined };
+};
+
+/** "Martin Luther King", "Ludwig van Beethoven" or Vancouver-style "Smith JR". */
+const parseGivenFirst = (text: string, suffix?: string): CslName => {
+  const words = text.split(/\s+/);
+  if (!suffix && words.length > 2 && SUFFIX.test(words[words.length - 1])) suffix = words.pop();
+  if (words.length === 1) return suffix ? person(words[0], '', { suffix }) : { literal: words[0] };
+
+  const last = words[words.length - 1];
+  if (INITIALS.test(last) && last === last.toUpperCase() && !INITIALS.test(words[0])) {
+    const { family, particle } = splitFamily(words.slice(0, -1).join(' '));
+    return person(family, last, { particle, suffix });
+  }
+
+  // Lowercase words just before the family name are particles, unless nothing precedes them ("bell hooks").
+  let split = words.length - 1;
+  while (split > 1 && isLowercase(words[split - 1])) split--;
+  return person(last, words.slice(0, split).join(' '), { particle: words.slice(split, -1).join(' ') || undefined, suffix });
+};
+
+/**
+ * Parses one name. Braced text is kept whole as an organisation, as is text
+ * naming an institution; otherwise both "Family, Given" (with an optional
+ * suffix part) and "Given Family" orders are understood.
+ */
+export const parseName = (text: string): CslName => {
+  const name = text.trim();
+  if (isBraced(name)) return { literal: name.slice(1, -1).trim() };
+
+  const commaParts = splitTopLevel(name, /^,/);
+  const familyFirstPerson = commaParts.length === 2 && !/\s/.test(commaParts[0]);
+  if (CORPORATE.test(name) && !familyFirstPerson) return { literal: name };
+
+  if (commaParts.length === 1) return parseGivenFirst(name);
+  if (commaParts.length === 2 && SUFFIX.test(commaParts[1])) return parseGivenFirst(commaParts[0], commaParts[1]);
+
+  // "King, Martin Luther, Jr." or BibTeX's "King, Jr., Martin Luther".
+  let givenPart = commaParts.slice(1).join(', ');
+  let suffix: string | undefined;
+  if (commaParts.length >= 3) {
+    const suffixIndex = SUFFIX.test(commaParts[commaParts.length - 1]) ? commaParts.length - 1 : SUFFIX.test(commaParts[1]) ? 1 : -1;
+    if (suffixIndex !== -1) {
+      suffix = commaParts[suffixIndex];
+      givenPart = commaParts.slice(1).filter((_, i) => i + 1 !== suffixIndex).join(', ');
+    }
+  }
+  const family = splitFamily(commaParts[0]);
+  const { given, dropping } = splitGiven(givenPart);
+  return person(family.family, given, { particle: family.particle, dropping, suffix: suffix ?? family.suffix });
+};
+
+/**
+ * Splits a cell into names on ";", or on "and"/"&" when there is no
+ * semicolon. Bare surnames on both sides ("Smith and Jones") are two people;
+ * a cell naming an institution ("Smith and Company") or repeating one word
+ * ("Johnson & Johnson") is one organisation, and braces force the same. A
+ * trailing "et al." is dropped and reported through `etAl`.
+ */
+export const parseNames = (cell: string): ParsedNames => {
+  let text = (cell ?? '').trim();
+  const etAl = ET_AL.test(text);
+  if (etAl) text = text.replace(ET_AL, '').trim();
+  if (!text) return { names: [], etAl };
+
+  let parts = splitTopLevel(text, /^\s*;\s*/);
+  if (parts.length === 1) {
+    // APA lists without semicolons: "Smith, J., Jones, K., & Lee, M.".
+    const entries = splitTopLevel(text, /^,/).map(entry => entry.replace(/^(?:&|and)\s+/i, ''));
+    const paired = entries.length >= 4 && entries.length % 2 === 0 &&
+      entries.every((entry, index) => (index % 2 ? INITIALS.test(entry) : !/[&{]/.test(entry) && !INITIALS.test(entry)));
+    if (paired) {
+      const names = entries.flatMap((entry, index) => (index % 2 ? [] : [parseName(`${entry}, ${entries[index + 1]}`)]));
+      return { names, etAl };
+    }
+    const joined = splitTopLevel(text, /^(?:\s*,?\s+and\s+|\s*&\s*)/i);
+    // "Department of Health and Social Care": without commas, an institution's "and" is part of its name.
+    if (joined.length > 1 && CORPORATE.test(text) && !/[,{]/.test(text)) return { names: [{ literal: text }], etAl };
+    if (joined.length > 1 && joined.every(part => !/[\s,{]/.test(part))) {
+      const people = new Set(joined).size === joined.length && joined.every(part => SURNAME.test(part));
+      return { names: people ? joined.map(family => person(family, '')) : [{ literal: text }], etAl };
+    }
+    parts = joined;
+  }
+  // Vancouver lists separate "Smith J, Jones KL" with plain commas.
+  parts = parts.flatMap(part => {
+    const commaParts = splitTopLevel(part, /^,/);
+    return commaParts.length > 1 && commaParts.every(entry => VANCOUVER_NAME.test(entry)) ? commaParts : [part];
+  });
+  return { names: parts.map(parseName), etAl };
+};
+
+/**
+ * Writes a name back in the notation `parseName` reads, so grid edits and
+ * exported rows round-trip. Organisations are braced when they would
+ * otherwise be read as a person.
+ */
+export const formatName = (name: CslName): string => {
+  if ('literal' in name) {
+    const reparsed = parseName(name.literal);
+    return 'literal' in reparsed && reparsed.literal === name.literal ? name.literal : `{${name.literal}}`;
+  }
+  const family = [name['non-dropping-particle'], name.family].filter(Boolean).join(' ');
+  const given = [name.given, name['dropping-particle']].filter(Boolean).join(' ');
+  return [family, given, name.suffix].filter(Boolean).join(', ');
+};
+
+/** The parts of a parsed name, labelled for display. */
+export const describeName = (name: CslName): Array<{ part: string; value: string }> => {
+  if ('literal' in name) return [{ part: 'organisation', value: name.literal }];
+  return [
+    { part: 'given', value: name.given },
+    { part: 'dropping particle', value: name['dropping-particle'] ?? '' },
+    { part: 'particle', value: name['non-dropping-particle'] ?? '' },
+    { part: 'family', value: name.family },
+    { part: 'suffix', value: name.suffix ?? '' },
+  ].filter(entry => entry.value);
+};
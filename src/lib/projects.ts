@@ -0,0 +1,187 @@
+import type { ColumnMapping } from './columnMapping';
+import type { ImportFormat } from './importers';
+import type { CitationStyle } from './styles';
+import type { CslItem, CsvRow, GenerationResult } from './types';
+import type { WorkbookSheet } from './workbook';
+
+const DATABASE_NAME = 'citeproc-citations';
+const DATABASE_VERSION = 1;
+const ACTIVE_PROJECT_STORAGE_KEY = 'citeproc-citations:active-project';
+
+/** Everything needed to pick a project up where it was left, without fetching its source again. */
+export interface ProjectState {
+  /** The uploaded file itself, so the project can be reloaded without it. */
+  file: File | null;
+  sheetUrl: string;
+  /** A pasted, already formatted reference list. */
+  pastedText: string;
+  rows: CsvRow[] | null;
+  headers: string[];
+  sheets: WorkbookSheet[] | null;
+  selectedTabs: string[];
+  importedItems: CslItem[] | null;
+  importWarnings: string[];
+  importFormat: ImportFormat | null;
+  mapping: ColumnMapping;
+  styleIds: string[];
+  customStyles: CitationStyle[];
+  locale: string | null;
+}
+
+export interface Project extends ProjectState {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** One generation run of a project. Its output is stored apart, so listing runs stays cheap. */
+export interface ProjectRun {
+  id: string;
+  projectId: string;
+  createdAt: string;
+  styles: string[];
+  rowCount: number;
+  citationCount: number;
+  issueCount: number;
+  errorCount: number;
+  warningCount: number;
+}
+
+export const createProjectId = (prefix: 'project' | 'run'): string =>
+  `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+/** A project before any data is loaded. */
+export const EMPTY_PROJECT_STATE: ProjectState = {
+  file: null,
+  sheetUrl: '',
+  pastedText: '',
+  rows: null,
+  headers: [],
+  sheets: null,
+  selectedTabs: [],
+  importedItems: null,
+  importWarnings: [],
+  importFormat: null,
+  mapping: {},
+  styleIds: [],
+  customStyles: [],
+  locale: null,
+};
+
+/** The counts shown in a project's run history, recomputed when the output is edited. */
+export const summarizeRun = (result: GenerationResult, run: Pick<ProjectRun, 'id' | 'projectId' | 'createdAt'>): ProjectRun => ({
+  ...run,
+  styles: result.styles.map(style => style.title),
+  rowCount: result.csvData.length,
+  citationCount: result.styles.reduce((sum, style) => sum + style.citations.length, 0),
+  issueCount: result.issues.length,
+  errorCount: result.errors.length,
+  warningCount: result.warnings.length,
+});
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const completion = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+/** Stores: projects by id, runs by id with a `projectId` index, and run outputs by run id. */
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      db.createObjectStore('projects', { keyPath: 'id' });
+      db.createObjectStore('runs', { keyPath: 'id' }).createIndex('projectId', 'projectId');
+      db.createObjectStore('outputs');
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      database = null;
+      reject(req.error);
+    };
+  });
+  return database;
+};
+
+/** Newest first. */
+export const listProjects = async (): Promise<Project[]> => {
+  const db = await openDatabase();
+  const projects = await request(db.transaction('projects').objectStore('projects').getAll() as IDBRequest<Project[]>);
+  return projects.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction('projects', 'readwrite');
+  transaction.objectStore('projects').put(project);
+  await completion(transaction);
+};
+
+/** Newest first. */
+export const listRuns = async (projectId: string): Promise<ProjectRun[]> => {
+  const db = await openDatabase();
+  const index = db.transaction('runs').objectStore('runs').index('projectId');
+  const runs = await request(index.getAll(projectId) as IDBRequest<ProjectRun[]>);
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/** Adds a run, or replaces it and its output when the output was edited after the run. */
+export const saveRun = async (run: ProjectRun, result: GenerationResult): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(['runs', 'outputs'], 'readwrite');
+  transaction.objectStore('runs').put(run);
+  transaction.objectStore('outputs').put(result, run.id);
+  await completion(transaction);
+};
+
+export const loadRunOutput = async (runId: string): Promise<GenerationResult | null> => {
+  const db = await openDatabase();
+  const result = await request(db.transaction('outputs').objectStore('outputs').get(runId) as IDBRequest<GenerationResult | undefined>);
+  return result ?? null;
+};
+
+export const deleteRun = async (runId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(['runs', 'outputs'], 'readwrite');
+  transaction.objectStore('runs').delete(runId);
+  transaction.objectStore('outputs').delete(runId);
+  await completion(transaction);
+};
+
+/** Removes the project with all its runs and their outputs. */
+export const deleteProject = async (projectId: string): Promise<void> => {
+  const runs = await listRuns(projectId);
+  const db = await openDatabase();
+  const transaction = db.transaction(['projects', 'runs', 'outputs'], 'readwrite');
+  transaction.objectStore('projects').delete(projectId);
+  for (const run of runs) {
+    transaction.objectStore('runs').delete(run.id);
+    transaction.objectStore('outputs').delete(run.id);
+  }
+  await completion(transaction);
+};
+
+/** The project reopened on the next visit. */
+export const loadActiveProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_PROJECT_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const storeActiveProjectId = (projectId: string | null): void => {
+  if (projectId) localStorage.setItem(ACTIVE_PROJECT_STORAGE_KEY, projectId);
+  else localStorage.removeItem(ACTIVE_PROJECT_STORAGE_KEY);
+};
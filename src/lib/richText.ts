@@ -0,0 +1,94 @@
+/**
+ * Conversions for citeproc-js HTML output. The engine only emits a small set
+ * of inline formatting tags (<i>, <b>, <sup>, <sub> and small-caps or nocase
+ * spans), so these work on strings rather than a DOM.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', hellip: '…',
+};
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(point) ? entity : String.fromCodePoint(point);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+/** Strips the csl-entry wrapper and anything other than inline formatting tags. */
+export const sanitizeCitationHtml = (html: string): string =>
+  html
+    // Numeric styles split an entry into csl-left-margin and csl-right-inline blocks.
+    .replace(/<\/div>\s*<div[^>]*>/gi, ' ')
+    .replace(/<\/?div[^>]*>/gi, '')
+    .replace(/<(?!\/?(?:i|b|em|strong|sup|sub|span)\b)[^>]*>/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const htmlToPlainText = (html: string): string =>
+  decodeEntities(sanitizeCitationHtml(html).replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]])/g, '\\$1');
+
+/** Renders a citation as Markdown, e.g. "*Journal*, *12*(3)". */
+export const htmlToMarkdown = (html: string): string => {
+  const tokens = sanitizeCitationHtml(html).split(/(<[^>]+>)/);
+  return tokens
+    .map(token => {
+      if (/^<\/?(i|em)\b/i.test(token)) return '*';
+      if (/^<\/?(b|strong)\b/i.test(token)) return '**';
+      if (token.startsWith('<')) return '';
+      return escapeMarkdown(decodeEntities(token));
+    })
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const escapeRtf = (text: string): string =>
+  Array.from(text)
+    .map(char => {
+      if (char === '\\' || char === '{' || char === '}') return `\\${char}`;
+      const code = char.codePointAt(0) as number;
+      if (code < 128) return char;
+      // RTF \u takes a signed 16-bit value; astral characters need surrogate pairs.
+      const units = code > 0xffff ? [0xd800 + ((code - 0x10000) >> 10), 0xdc00 + ((code - 0x10000) & 0x3ff)] : [code];
+      return units.map(unit => `\\u${unit > 32767 ? unit - 65536 : unit}?`).join('');
+    })
+    .join('');
+
+const RTF_TAGS: Record<string, [string, string]> = {
+  i: ['\\i ', '\\i0 '], em: ['\\i ', '\\i0 '],
+  b: ['\\b ', '\\b0 '], strong: ['\\b ', '\\b0 '],
+  sup: ['\\super ', '\\nosupersub '], sub: ['\\sub ', '\\nosupersub '],
+};
+
+const htmlToRtfParagraph = (html: string): string =>
+  sanitizeCitationHtml(html)
+    .split(/(<[^>]+>)/)
+    .map(token => {
+      const tag = /^<(\/?)([a-z]+)/i.exec(token);
+      if (tag) {
+        const codes = RTF_TAGS[tag[2].toLowerCase()];
+        if (codes) return tag[1] ? codes[1] : codes[0];
+        if (/font-variant:\s*small-caps/i.test(token)) return '\\scaps ';
+        return tag[1] && tag[2].toLowerCase() === 'span' ? '\\scaps0 ' : '';
+      }
+      return token.startsWith('<') ? '' : escapeRtf(decodeEntities(token));
+    })
+    .join('');
+
+/** Builds an RTF document with one hanging-indented paragraph per citation. */
+export const citationsToRtf = (htmlCitations: string[]): string => {
+  const paragraphs = htmlCitations.map(html => `{\\pard\\li720\\fi-720\\sa240 ${htmlToRtfParagraph(html)}\\par}`);
+  return `{\\rtf1\\ansi\\deff0{\\fonttbl{\\f0 Times New Roman;}}\\f0\\fs24 ${paragraphs.join('\n')}}`;
+};
+
+/** Wraps citations in HTML that keeps the hanging indent when pasted into a word processor. */
+export const citationsToHtml = (htmlCitations: string[]): string =>
+  htmlCitations
+    .map(html => `<p style="margin:0 0 12pt 0.5in;text-indent:-0.5in;font-family:'Times New Roman',serif;">${sanitizeCitationHtml(html)}</p>`)
+    .join('');
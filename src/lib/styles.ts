@@ -0,0 +1,50 @@
+import apa from '../styles/apa.csl?raw';
+import chicagoAuthorDate from '../styles/chicago-author-date.csl?raw';
+import chicagoNoteBibliography from '../styles/chicago-note-bibliography.csl?raw';
+import harvardCiteThemRight from '../styles/harvard-cite-them-right.csl?raw';
+import ieee from '../styles/ieee.csl?raw';
+import modernLanguageAssociation from '../styles/modern-language-association.csl?raw';
+import vancouver from '../styles/vancouver.csl?raw';
+import { decodeEntities } from './richText';
+
+export interface CitationStyle {
+  id: string;
+  title: string;
+  xml: string;
+  /** True for styles uploaded by the user rather than bundled with the app. */
+  custom?: boolean;
+}
+
+/** Reads the `<title>` from a style's `<info>` block. */
+export const getStyleTitle = (xml: string): string | null => {
+  const info = /<info\b[^>]*>([\s\S]*?)<\/info>/.exec(xml);
+  const title = info && /<title\b[^>]*>([\s\S]*?)<\/title>/.exec(info[1]);
+  return title ? decodeEntities(title[1]).trim() || null : null;
+};
+
+const bundled = (id: string, xml: string): CitationStyle => ({ id, title: getStyleTitle(xml) ?? id, xml });
+
+export const BUNDLED_STYLES: CitationStyle[] = [
+  bundled('apa', apa),
+  bundled('modern-language-association', modernLanguageAssociation),
+  bundled('chicago-author-date', chicagoAuthorDate),
+  bundled('chicago-note-bibliography', chicagoNoteBibliography),
+  bundled('harvard-cite-them-right', harvardCiteThemRight),
+  bundled('ieee', ieee),
+  bundled('vancouver', vancouver),
+];
+
+export const DEFAULT_STYLE_ID = 'apa';
+
+/** Validates custom style XML. Styles without a title are named after their file. */
+export const parseCustomStyle = (xml: string, filename: string): CitationStyle => {
+  if (!/<style\b[^>]*xmlns="http:\/\/purl\.org\/net\/xbiblio\/csl"/.test(xml)) {
+    throw new Error(`${filename} is not a CSL style file`);
+  }
+  if (/<link\b[^>]*rel="independent-parent"/.test(xml)) {
+    throw new Error(`${filename} is a dependent style; upload its parent style instead`);
+  }
+  return { id: `custom:${filename}`, title: getStyleTitle(xml) ?? filename.replace(/\.csl$/i, ''), xml, custom: true };
+};
+
+export const readCustomStyle = async (file: File): Promise<CitationStyle> => parseCustomStyle(await file.text(), file.name);
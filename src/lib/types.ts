@@ -0,0 +1,145 @@
+import type { CslDateVariable, CslNameVariable, CslTextVariable } from './cslSchema';
+import type { EditableField } from './itemEditing';
+
+export interface CslDate {
+  'date-parts'?: number[][];
+  season?: number | string;
+  circa?: boolean;
+  literal?: string;
+}
+
+export type CslName =
+  | {
+      family: string;
+      given: string;
+      /** Particle kept with the family name when given names are shortened, e.g. "van" in "van Gogh". */
+      'non-dropping-particle'?: string;
+      /** Particle dropped with the given names, e.g. "de" in "Jean de La Fontaine". */
+      'dropping-particle'?: string;
+      suffix?: string;
+    }
+  | { literal: string };
+
+/**
+ * A CSL-JSON item. Every CSL 1.0.2 item variable is available; number
+ * variables such as `volume` and `edition` are kept as the text in the sheet.
+ */
+export interface CslItem
+  extends Partial<Record<CslNameVariable, CslName[]>>,
+    Partial<Record<CslDateVariable, CslDate>>,
+    Partial<Record<CslTextVariable, string>> {
+  id: string;
+  /** One of `CSL_TYPES`, e.g. "article-journal". */
+  type: string;
+}
+
+export interface CsvRow {
+  [key: string]: string;
+}
+
+export interface CitationLocator {
+  locator: string;
+  /** CSL locator term, e.g. "page" or "timestamp". */
+  label: string;
+}
+
+export interface InTextCitation {
+  parenthetical: string;
+  narrative: string;
+}
+
+export interface InTextResult extends InTextCitation {
+  id: string;
+  /** 1-based position of the source row in the sheet data. */
+  row: number;
+  title: string;
+  locator?: CitationLocator;
+}
+
+/** Output of one citation style within a generation run. */
+export interface StyleResult {
+  styleId: string;
+  /** The style's `<title>`, also used as its results CSV column. */
+  title: string;
+  /** Item id of each entry of `citations`, in the same order. */
+  ids: string[];
+  /** Bibliography entries in the style's own order, which need not follow the rows. */
+  citations: string[];
+  /** Sanitised citeproc HTML for each entry of `citations`, in the same order. */
+  formattedCitations: string[];
+  inText: InTextResult[];
+}
+
+export interface GenerationResult {
+  success: boolean;
+  /** One entry per selected style, in the order they were picked. */
+  styles: StyleResult[];
+  /** Every normalised item built from the source, including those skipped by validation. */
+  items: CslItem[];
+  /** Rows folded into another by duplicate merging: removed item id -> kept item id. */
+  merged: Record<string, string>;
+  /** Linter findings, ordered by row. */
+  issues: ReferenceIssue[];
+  /** Failures not tied to one row, such as a style that could not be rendered. */
+  errors: string[];
+  warnings: string[];
+  csvData: CsvRow[];
+}
+
+export type LogLevel = 'debug' | 'info' | 'success' | 'warning' | 'error';
+
+/** Where in the pipeline a log entry comes from. */
+export type LogStage = 'fetch' | 'parse' | 'map' | 'validate' | 'render';
+
+/** One diagnostics log entry. */
+export interface LogEntry {
+  /** ISO timestamp of when the entry was logged. */
+  time: string;
+  level: LogLevel;
+  /** Unset for app events outside the pipeline, such as saving a project. */
+  stage?: LogStage;
+  /** 1-based source row the entry is about. */
+  row?: number;
+  message: string;
+  /** Structured detail, such as the CSL item built from the row. */
+  payload?: unknown;
+}
+
+/** What the pipeline logs; the receiver stamps the time. */
+export type LogEvent = Omit<LogEntry, 'time'>;
+
+/** Receives diagnostics from the pipeline; the app shows them in its diagnostics panel. */
+export type DebugLog = (event: LogEvent) => void;
+
+export type GenerationStage = 'parsing' | 'converting' | 'rendering' | 'assembling';
+
+/** How far a generation run has got. */
+export interface GenerationProgress {
+  stage: GenerationStage;
+  done: number;
+  total: number;
+  /** Title of the style being rendered, during the `rendering` stage. */
+  style?: string;
+}
+
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+/** Edits that resolve a lint issue, applied through the same path as a grid edit. */
+export interface SuggestedFix {
+  label: string;
+  changes: Array<{ field: EditableField; value: string }>;
+}
+
+/** A linter finding for one item. Items with an `error` are skipped when rendering. */
+export interface ReferenceIssue {
+  ruleId: string;
+  severity: IssueSeverity;
+  itemId: string;
+  /** 1-based position of the source row in the sheet data. */
+  row: number;
+  field: string;
+  /** Sheet column mapped to `field`, when there is one. */
+  column?: string;
+  message: string;
+  fix?: SuggestedFix;
+}
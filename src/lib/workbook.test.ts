@@ -0,0 +1,62 @@
+import { utils, write } from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { SOURCE_TAB_COLUMN, combineSheets, findMatchingSheets, readWorkbook, type WorkbookSheet } from './workbook';
+
+/** An .xlsx file with one tab per entry, each given as rows of cells. */
+const workbook = (tabs: Record<string, string[][]>): Uint8Array => {
+  const book = utils.book_new();
+  for (const [name, cells] of Object.entries(tabs)) utils.book_append_sheet(book, utils.aoa_to_sheet(cells), name);
+  return new Uint8Array(write(book, { type: 'array', bookType: 'xlsx' }));
+};
+
+describe('readWorkbook', () => {
+  it('names blank headers by position and suffixes repeated ones', () => {
+    const [sheet] = readWorkbook(workbook({
+      Books: [['Title', '', 'Author', 'Author'], ['Deep work', 'x', 'Newport', 'Cal']],
+    }));
+    expect(sheet.headers).toEqual(['Title', 'Column 2', 'Author', 'Author_1']);
+    expect(sheet.rows).toEqual([{ Title: 'Deep work', 'Column 2': 'x', Author: 'Newport', Author_1: 'Cal' }]);
+  });
+
+  it('reads every tab and skips blank rows', () => {
+    const sheets = readWorkbook(workbook({
+      Books: [['Title'], ['A'], [''], ['B']],
+      Articles: [['Title', 'Journal'], ['C', 'Nature']],
+    }));
+    expect(sheets.map(sheet => [sheet.name, sheet.rows.length])).toEqual([['Books', 2], ['Articles', 1]]);
+  });
+});
+
+describe('combineSheets', () => {
+  it('takes the union of headers and tags each row with its tab', () => {
+    const sheets: WorkbookSheet[] = [
+      { name: 'Books', headers: ['Title', 'Publisher'], rows: [{ Title: 'A', Publisher: 'Press' }] },
+      { name: 'Articles', headers: ['Title', 'Journal'], rows: [{ Title: 'C', Journal: 'Nature' }] },
+    ];
+    expect(combineSheets(sheets)).toEqual({
+      headers: ['Title', 'Publisher', 'Journal', SOURCE_TAB_COLUMN],
+      rows: [
+        { Title: 'A', Publisher: 'Press', Journal: '', [SOURCE_TAB_COLUMN]: 'Books' },
+        { Title: 'C', Publisher: '', Journal: 'Nature', [SOURCE_TAB_COLUMN]: 'Articles' },
+      ],
+    });
+  });
+});
+
+describe('findMatchingSheets', () => {
+  const sheets: WorkbookSheet[] = [
+    { name: '2019', headers: ['Title', 'Year'], rows: [{ Title: 'A', Year: '2019' }] },
+    { name: '2020', headers: ['Title', 'Year'], rows: [{ Title: 'B', Year: '2020' }] },
+    { name: 'Notes', headers: ['Title', 'Note'], rows: [{ Title: 'C', Note: '' }] },
+  ];
+
+  it('finds the one tab with the same headers and row count', () => {
+    const table = { headers: ['Title', 'Note'], rows: [{ Title: 'C', Note: '' }] };
+    expect(findMatchingSheets(sheets, table).map(sheet => sheet.name)).toEqual(['Notes']);
+  });
+
+  it('returns every candidate when tabs share a layout and length', () => {
+    const table = { headers: ['Title', 'Year'], rows: [{ Title: 'B', Year: '2020' }] };
+    expect(findMatchingSheets(sheets, table).map(sheet => sheet.name)).toEqual(['2019', '2020']);
+  });
+});
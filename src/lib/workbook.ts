@@ -0,0 +1,104 @@
+import { read, utils } from 'xlsx';
+import type { CsvRow } from './types';
+
+/** Added to every row read from a workbook, naming the tab it came from. */
+export const SOURCE_TAB_COLUMN = 'Sheet Tab';
+
+export const WORKBOOK_ACCEPT = '.xlsx,.xls,.ods';
+
+export interface WorkbookSheet {
+  name: string;
+  headers: string[];
+  rows: CsvRow[];
+}
+
+export const isWorkbookFile = (filename: string): boolean =>
+  WORKBOOK_ACCEPT.split(',').includes(`.${filename.split('.').pop()?.toLowerCase() ?? ''}`);
+
+/** Blank headers become "Column N" and repeats get a suffix, as Papa Parse does for CSV. */
+const uniqueHeaders = (cells: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return cells.map((cell, index) => {
+    const header = cell.trim() || `Column ${index + 1}`;
+    const count = seen.get(header) ?? 0;
+    seen.set(header, count + 1);
+    return count ? `${header}_${count}` : header;
+  });
+};
+
+/**
+ * Reads every tab of an .xlsx, .xls or .ods workbook. The first non-empty
+ * row of each tab is its header row; cells are read as displayed, so dates
+ * and numbers keep the sheet's own formatting.
+ */
+export const readWorkbook = (data: ArrayBuffer | Uint8Array): WorkbookSheet[] => {
+  const workbook = read(data, { type: 'array' });
+  return workbook.SheetNames.map(name => {
+    const table = utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: false, defval: '', blankrows: false })
+      .map(cells => cells.map(cell => String(cell ?? '')));
+    const [headerCells = [], ...body] = table;
+    const headers = uniqueHeaders(headerCells);
+    const rows = body
+      .filter(cells => cells.some(cell => cell.trim()))
+      .map(cells => Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? ''])));
+    return { name, headers, rows };
+  });
+};
+
+/**
+ * Stacks the chosen tabs into one table, in workbook order. Headers are the
+ * union of the tabs' headers, and every row is tagged with its tab in
+ * `SOURCE_TAB_COLUMN` so results can be grouped by tab.
+ */
+export const combineSheets = (sheets: WorkbookSheet[]): { rows: CsvRow[]; headers: string[] } => {
+  const headers = [...new Set(sheets.flatMap(sheet => sheet.headers))].filter(header => header !== SOURCE_TAB_COLUMN);
+  const rows = sheets.flatMap(sheet => sheet.rows.map(row => ({
+    ...Object.fromEntries(headers.map(header => [header, row[header] ?? ''])),
+    [SOURCE_TAB_COLUMN]: sheet.name,
+  })));
+  return { rows, headers: [...headers, SOURCE_TAB_COLUMN] };
+};
+
+/**
+ * Finds the tabs holding the same table as a single-tab CSV export, by
+ * headers and row count. Google's workbook export names tabs but does not
+ * carry their gids, so this is how a `#gid=` link is matched to a tab; more
+ * than one match means the link cannot be pinned to a tab.
+ */
+export const findMatchingSheets = (sheets: WorkbookSheet[], table: { rows: CsvRow[]; headers: string[] }): WorkbookSheet[] =>
+  sheets.filter(sheet => sheet.rows.length === table.rows.length && sheet.headers.join('\u0000') === table.headers.join('\u0000'));
+
+/** Entries under their tab, tabs in order of first appearance and entries in their given order. */
+export const groupByTab = <T>(entries: T[], tabOf: (entry: T) => string | undefined): Array<{ tab: string; entries: T[] }> => {
+  const groups = new Map<string, T[]>();
+  for (const entry of entries) {
+    const tab = tabOf(entry) ?? '';
+    const grouped = groups.get(tab);
+    if (grouped) grouped.push(entry);
+    else groups.set(tab, [entry]);
+  }
+  return [...groups].map(([tab, grouped]) => ({ tab, entries: grouped }));
+};
+
+export interface SheetLink {
+  spreadsheetId: string;
+  /** Tab id from `#gid=` or `?gid=`, or null when the link names no tab. */
+  gid: string | null;
+}
+
+/** Reads the spreadsheet id and tab from a Google Sheets link. */
+export const parseSheetUrl = (shareUrl: string): SheetLink => {
+  const match = /\/d\/([a-zA-Z0-9-_]+)/.exec(shareUrl);
+  if (!match || !match[1]) {
+    throw new Error('Invalid Google Sheets URL format. Please ensure you\'re using a sharing URL.');
+  }
+  const gid = /[#?&]gid=(\d+)/.exec(shareUrl);
+  return { spreadsheetId: match[1], gid: gid ? gid[1] : null };
+};
+
+export const buildCsvUrl = ({ spreadsheetId, gid }: SheetLink): string =>
+  `https://docs.google.com/spreadsheets/d/${spreadsheetId}/export?format=csv&gid=${gid ?? '0'}`;
+
+/** Every tab at once, as an .xlsx workbook. */
+export const buildWorkbookUrl = ({ spreadsheetId }: SheetLink): string =>
+  `https://docs.google.com/spreadsheets/d/${spreadsheetId}/export?format=xlsx`;
@@ -0,0 +1,39 @@
+/*
+ * Service worker template. The serviceWorker plugin in vite.config.ts fills
+ * in the emitted files and a build id, so every build installs a fresh cache.
+ */
+const { version, files } = self.__PRECACHE;
+const CACHE_NAME = `citation-generator-${version}`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(files))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // Google Sheets and DOI/ISBN lookups go straight to the network.
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.match('index.html', { ignoreSearch: true }).then((response) => response ?? Response.error()))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then((cached) => cached ?? fetch(request))
+  );
+});
@@ -0,0 +1,115 @@
+import { rowsToCslItems } from '../lib/cslItems';
+import { parseCsv } from '../lib/csv';
+import { stampLogEvent } from '../lib/diagnostics';
+import { applyMerges } from '../lib/duplicates';
+import { dropItem, rerenderItem, type CitationSession } from '../lib/engine';
+import { applyOverrides } from '../lib/enrichment';
+import { runGeneration } from '../lib/generate';
+import { makeGroupedCitation } from '../lib/inText';
+import { htmlToPlainText } from '../lib/richText';
+import type { CitationLocator, CslItem, DebugLog, GenerationProgress, GenerationResult, LogEntry } from '../lib/types';
+import { readWorkbook } from '../lib/workbook';
+import type { WorkerGenerationInput, WorkerRequest, WorkerResponse, WorkerResults } from './protocol';
+
+// Runs the citation pipeline off the main thread. The engines of the last
+// run stay here, so edits and grouped citations are rendered here too.
+
+const context = self as unknown as Worker;
+
+/** Progress is posted every this many items, with the log entries made since the last post. */
+const PROGRESS_CHUNK = 250;
+
+let sessions: Record<string, CitationSession> = {};
+let logEntries: LogEntry[] = [];
+
+const debug: DebugLog = event => {
+  logEntries.push(stampLogEvent(event));
+};
+
+const takeDebug = (): LogEntry[] => {
+  const entries = logEntries;
+  logEntries = [];
+  return entries;
+};
+
+const post = (response: WorkerResponse): void => context.postMessage(response);
+
+const sessionFor = (styleId: string): CitationSession => {
+  const session = sessions[styleId];
+  if (!session) throw new Error(`No rendered citations for style ${styleId}; generate again`);
+  return session;
+};
+
+const generate = (id: number, input: WorkerGenerationInput): GenerationResult => {
+  const report = (progress: GenerationProgress): void => {
+    if (progress.done % PROGRESS_CHUNK === 0 || progress.done === progress.total) {
+      post({ id, type: 'progress', progress, debug: takeDebug() });
+    }
+  };
+  sessions = {};
+
+  let items: CslItem[];
+  let locators: Record<string, CitationLocator> = {};
+  const warnings = [...input.warnings];
+  if (input.items) {
+    items = input.items;
+    debug({ level: 'info', stage: 'map', message: `Using ${items.length} imported items` });
+  } else {
+    const converted = rowsToCslItems(input.rows, input.mapping, debug, (done, total) => report({ stage: 'converting', done, total }));
+    items = converted.items;
+    locators = converted.locators;
+    warnings.push(...converted.warnings);
+  }
+
+  const enriched = applyOverrides(items, input.overrides);
+  if (Object.keys(input.overrides).length > 0) {
+    debug({ level: 'info', stage: 'map', message: `Applied accepted enrichment to ${Object.keys(input.overrides).length} items`, payload: input.overrides });
+  }
+  const { items: merged, mergedInto } = applyMerges(enriched, input.merges, input.mergeSelections);
+  if (input.merges.length > 0) {
+    debug({ level: 'info', stage: 'map', message: `Merged ${Object.keys(mergedInto).length} duplicate rows into ${input.merges.length} entries`, payload: mergedInto });
+  }
+
+  const output = runGeneration({
+    items: merged,
+    rows: input.rows,
+    mapping: input.items ? undefined : input.mapping,
+    styles: input.styles,
+    locale: input.locale,
+    locators,
+    mergedInto,
+    warnings,
+    debug,
+    onProgress: report
+  });
+  sessions = output.sessions;
+  return output.result;
+};
+
+const handle = (request: WorkerRequest): WorkerResults[keyof WorkerResults] => {
+  switch (request.type) {
+    case 'parse-csv':
+      return parseCsv(request.text);
+    case 'read-workbook':
+      return readWorkbook(request.data);
+    case 'generate':
+      return generate(request.id, request.input);
+    case 'rerender':
+      return rerenderItem(sessionFor(request.styleId), request.item, request.locator);
+    case 'drop':
+      dropItem(sessionFor(request.styleId), request.itemId);
+      return null;
+    case 'group':
+      return makeGroupedCitation(sessionFor(request.styleId).engine, request.refs, htmlToPlainText);
+  }
+};
+
+context.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  try {
+    const value = handle(request);
+    post({ id: request.id, type: 'result', value, debug: takeDebug() });
+  } catch (error) {
+    post({ id: request.id, type: 'error', message: error instanceof Error ? error.message : String(error), debug: takeDebug() });
+  }
+};
@@ -0,0 +1,95 @@
+import type { RenderedItem } from '../lib/engine';
+import type { CitationRef } from '../lib/inText';
+import type { CitationLocator, CslItem, CsvRow, GenerationProgress, GenerationResult, InTextCitation, LogEntry } from '../lib/types';
+import type { WorkbookSheet } from '../lib/workbook';
+import type { WorkerGenerationInput, WorkerRequest, WorkerResponse, WorkerResults } from './protocol';
+
+/** Rejects every pending request when the run is cancelled. */
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export interface GenerationClient {
+  parseCsv: (text: string) => Promise<{ rows: CsvRow[]; headers: string[] }>;
+  /** The buffer is transferred to the worker and unusable afterwards. */
+  readWorkbook: (data: ArrayBuffer) => Promise<WorkbookSheet[]>;
+  generate: (input: WorkerGenerationInput, onProgress?: (progress: GenerationProgress) => void) => Promise<GenerationResult>;
+  rerender: (styleId: string, item: CslItem, locator?: CitationLocator) => Promise<RenderedItem>;
+  drop: (styleId: string, itemId: string) => Promise<null>;
+  group: (styleId: string, refs: CitationRef[]) => Promise<InTextCitation>;
+  /**
+   * Stops the worker mid-run and rejects what is pending with
+   * `GenerationCancelledError`. The engines of the last run go with it, so
+   * edits and grouped citations need a new run.
+   */
+  cancel: () => void;
+}
+
+interface Pending {
+  resolve: (value: never) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+type RequestOf<K extends WorkerRequest['type']> = Omit<Extract<WorkerRequest, { type: K }>, 'id'>;
+
+/**
+ * Runs the citation pipeline in a Web Worker, started on first use. Log
+ * entries made in the worker arrive in batches through `onDebug`.
+ */
+export const createGenerationClient = (onDebug: (entries: LogEntry[]) => void): GenerationClient => {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, Pending>();
+
+  const stop = (error: Error): void => {
+    worker?.terminate();
+    worker = null;
+    for (const request of pending.values()) request.reject(error);
+    pending.clear();
+  };
+
+  const start = (): Worker => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./generation.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.debug.length) onDebug(response.debug);
+      const request = pending.get(response.id);
+      if (!request) return;
+      if (response.type === 'progress') {
+        request.onProgress?.(response.progress);
+        return;
+      }
+      pending.delete(response.id);
+      if (response.type === 'result') request.resolve(response.value as never);
+      else request.reject(new Error(response.message));
+    };
+    worker.onerror = event => stop(new Error(`Citation worker failed: ${event.message}`));
+    return worker;
+  };
+
+  const send = <K extends WorkerRequest['type']>(
+    request: RequestOf<K>,
+    onProgress?: (progress: GenerationProgress) => void,
+    transfer: Transferable[] = []
+  ): Promise<WorkerResults[K]> =>
+    new Promise((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve: resolve as (value: never) => void, reject, onProgress });
+      start().postMessage({ ...request, id }, transfer);
+    });
+
+  return {
+    parseCsv: text => send<'parse-csv'>({ type: 'parse-csv', text }),
+    readWorkbook: data => send<'read-workbook'>({ type: 'read-workbook', data }, undefined, [data]),
+    generate: (input, onProgress) => send<'generate'>({ type: 'generate', input }, onProgress),
+    rerender: (styleId, item, locator) => send<'rerender'>({ type: 'rerender', styleId, item, locator }),
+    drop: (styleId, itemId) => send<'drop'>({ type: 'drop', styleId, itemId }),
+    group: (styleId, refs) => send<'group'>({ type: 'group', styleId, refs }),
+    cancel: () => stop(new GenerationCancelledError()),
+  };
+};
@@ -0,0 +1,51 @@
+import type { ColumnMapping } from '../lib/columnMapping';
+import type { DuplicateGroup, MergeSelection } from '../lib/duplicates';
+import type { ResolvedMetadata } from '../lib/enrichment';
+import type { CitationRef } from '../lib/inText';
+import type { RenderedItem } from '../lib/engine';
+import type { CitationStyle } from '../lib/styles';
+import type { CitationLocator, CslItem, CsvRow, GenerationProgress, GenerationResult, InTextCitation, LogEntry } from '../lib/types';
+import type { WorkbookSheet } from '../lib/workbook';
+
+/** Everything a generation run needs; the worker converts, enriches, merges and renders. */
+export interface WorkerGenerationInput {
+  /** Source rows, copied into the results CSV. */
+  rows: CsvRow[];
+  /** Items imported from a reference file, used as-is instead of converting `rows`. */
+  items?: CslItem[];
+  /** How `rows` map to CSL fields; ignored for imported items. */
+  mapping: ColumnMapping;
+  /** Accepted enrichment values by item id. */
+  overrides: Record<string, ResolvedMetadata>;
+  /** Duplicate groups to merge, with the value chosen for each field. */
+  merges: DuplicateGroup[];
+  mergeSelections: Record<string, MergeSelection>;
+  styles: CitationStyle[];
+  locale: string | null;
+  /** Warnings raised before the run, such as import warnings. */
+  warnings: string[];
+}
+
+/** Requests the app sends, each answered by one `result` or `error` with the same id. */
+export type WorkerRequest =
+  | { id: number; type: 'parse-csv'; text: string }
+  | { id: number; type: 'read-workbook'; data: ArrayBuffer }
+  | { id: number; type: 'generate'; input: WorkerGenerationInput }
+  | { id: number; type: 'rerender'; styleId: string; item: CslItem; locator?: CitationLocator }
+  | { id: number; type: 'drop'; styleId: string; itemId: string }
+  | { id: number; type: 'group'; styleId: string; refs: CitationRef[] };
+
+/** What each request resolves to. Requests against a style with no live engine fail. */
+export interface WorkerResults {
+  'parse-csv': { rows: CsvRow[]; headers: string[] };
+  'read-workbook': WorkbookSheet[];
+  generate: GenerationResult;
+  rerender: RenderedItem;
+  drop: null;
+  group: InTextCitation;
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: GenerationProgress; debug: LogEntry[] }
+  | { id: number; type: 'result'; value: WorkerResults[keyof WorkerResults]; debug: LogEntry[] }
+  | { id: number; type: 'error'; message: string; debug: LogEntry[] };
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite';
+
+// Builds the citegen command-line tool as a single self-contained Node script.
+export default defineConfig({
+  build: {
+    ssr: 'src/cli/citegen.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'citegen.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+  ssr: {
+    noExternal: true,
+  },
+});
@@ -1,9 +1,28 @@
-import { defineConfig } from 'vite';
+import { readdirSync, readFileSync } from 'node:fs';
+import { createHash } from 'node:crypto';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/** Emits sw.js from src/sw.js with the list of built files to precache. */
+const serviceWorker = (): Plugin => ({
+  name: 'service-worker',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const publicFiles = readdirSync(new URL('./public', import.meta.url));
+    const files = ['./', 'index.html', ...publicFiles, ...Object.keys(bundle).filter(file => !file.endsWith('.map'))];
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    const template = readFileSync(new URL('./src/sw.js', import.meta.url), 'utf8');
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: template.replace('self.__PRECACHE', JSON.stringify({ version, files })),
+    });
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },